@@ -3,6 +3,8 @@ import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import util from 'util';
 
+import { getTestCassette } from './src/.test/getTestCassette';
+
 // eslint-disable-next-line no-undef
 jest.setTimeout(90000); // since we're calling downstream apis
 
@@ -83,6 +85,20 @@ if (requiresTestDb) {
   }
 }
 
+/**
+ * .what = record or replay the api calls of each test file, per process.env.CASSETTE
+ * .why = lets integration suites run offline in ci, without network or api keys
+ *
+ * .note = every anthropic client constructed after this point uses the global fetch, so atoms need no wiring; repls take the cassette via getTestCassette()
+ */
+const cassette = getTestCassette();
+if (cassette) {
+  globalThis.fetch = cassette.fetch;
+  afterAll(() => cassette.save());
+}
+if (cassette?.mode === 'replay')
+  process.env.ANTHROPIC_API_KEY ??= 'sk-ant-cassette-replay';
+
 /**
  * .what = verify that required api keys are present; otherwise, fail fast
  * .why =
@@ -93,7 +109,7 @@ const apikeysConfigPath = join(
   process.cwd(),
   '.agent/repo=.this/role=any/skills/use.apikeys.json',
 );
-if (existsSync(apikeysConfigPath)) {
+if (existsSync(apikeysConfigPath) && cassette?.mode !== 'replay') {
   // direct import via require (json resolves automatically)
   const config = require(apikeysConfigPath);
   const requiredKeys: string[] = config?.apikeys?.required ?? [];
@@ -0,0 +1,281 @@
+import type {
+  ModelUsage,
+  NonNullableUsage,
+  SDKAssistantMessageError,
+  SDKMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import type Anthropic from '@anthropic-ai/sdk';
+import { randomUUID } from 'crypto';
+
+import type { BrainReplQuery } from '../domain.operations/repls/genBrainRepl';
+
+/**
+ * .what = the usage of one scripted assistant message
+ * .note = defaults to 10 input and 10 output tokens, with no cache
+ */
+export type FakeReplUsage = Partial<
+  Pick<
+    Anthropic.Beta.Messages.BetaUsage,
+    | 'input_tokens'
+    | 'output_tokens'
+    | 'cache_read_input_tokens'
+    | 'cache_creation_input_tokens'
+    | 'cache_creation'
+  >
+>;
+
+/**
+ * .what = one scripted step of a fake repl session
+ *
+ * .note
+ *   - text = an assistant message with a text block
+ *   - tools = one assistant message per tool_use, which share the message id and usage, as parallel tool uses do; each is answered by a user tool_result
+ *   - failure = an assistant message which reports an api failure; e.g., 'rate_limit'
+ *   - result = the success result; output = its structured_output, else text = its raw result
+ *   - error = an error result, of the subtype given; e.g., 'error_max_turns'
+ *   - throws = an error which the query itself throws; e.g., of a subprocess which exited or lost its connection
+ */
+export type FakeReplStep =
+  | { text: string; usage?: FakeReplUsage }
+  | { tools: { name: string; input: unknown }[]; usage?: FakeReplUsage }
+  | { failure: SDKAssistantMessageError }
+  | { result: { output: unknown } | { text: string } }
+  | {
+      error: {
+        subtype: Exclude<
+          Extract<SDKMessage, { type: 'result' }>['subtype'],
+          'success'
+        >;
+        errors?: string[];
+      };
+    }
+  | { throws: Error };
+
+/**
+ * .what = the usage of a scripted step, as the api would report it
+ */
+const asFakeUsage = (usage: FakeReplUsage | undefined): NonNullableUsage =>
+  ({
+    input_tokens: 10,
+    output_tokens: 10,
+    cache_read_input_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_creation: {
+      ephemeral_5m_input_tokens: usage?.cache_creation_input_tokens ?? 0,
+      ephemeral_1h_input_tokens: 0,
+    },
+    server_tool_use: { web_search_requests: 0, web_fetch_requests: 0 },
+    service_tier: 'standard',
+    ...usage,
+  }) as NonNullableUsage;
+
+/**
+ * .what = a claude-agent-sdk query function, which yields the messages of the sessions scripted into it
+ * .why = lets tests exercise a repl end to end (result extraction, error subtypes, budgets, and metrics) without a claude code process
+ *
+ * .note
+ *   - sessions are consumed in the order scripted, one per query call; a retried ask restarts into the next session
+ *   - each session opens with a system init message, of the model and session id, as the sdk's does
+ *   - the success result reports the sum of the session's usage as its modelUsage, per distinct message id, as the sdk does
+ *   - a session stops once the abort controller of its call is aborted
+ *   - every call is recorded, so tests may assert on the params the repl sent
+ *
+ * .example
+ *   const fake = genFakeReplQuery({ sessions: [[{ text: 'on it' }, { result: { output: { content: 'hi' } } }]] });
+ *   const repl = genBrainRepl({ slug: 'claude/code', query: fake.query });
+ *   await repl.ask({ role: {}, prompt: 'hi', schema: { output } });
+ *   expect(fake.calls[0]!.options?.model).toEqual(...);
+ */
+export const genFakeReplQuery = (input: {
+  sessions: FakeReplStep[][];
+}): {
+  query: BrainReplQuery;
+  calls: Parameters<BrainReplQuery>[0][];
+} => {
+  const calls: Parameters<BrainReplQuery>[0][] = [];
+
+  const query: BrainReplQuery = (params) => {
+    calls.push(params);
+    const call = calls.length;
+    const steps = input.sessions[call - 1];
+    const model = params.options?.model ?? 'fake';
+    const abort = params.options?.abortController;
+    const session_id = `fake-session-${call}`;
+    const base = { session_id, uuid: randomUUID() };
+
+    return (async function* (): AsyncGenerator<SDKMessage> {
+      if (!steps)
+        throw new Error(
+          `the fake repl query has no session scripted for call #${call}`,
+        );
+      yield {
+        ...base,
+        type: 'system',
+        subtype: 'init',
+        apiKeySource: 'user',
+        claude_code_version: 'fake',
+        cwd: process.cwd(),
+        tools: [],
+        mcp_servers: [],
+        model,
+        permissionMode: 'default',
+        slash_commands: [],
+        output_style: 'default',
+        skills: [],
+        plugins: [],
+      };
+
+      // track usage per distinct message, as the sdk sums it into modelUsage
+      const usageByMessageId = new Map<string, NonNullableUsage>();
+      const asAssistant = (message: {
+        id: string;
+        content: Anthropic.Beta.Messages.BetaContentBlock[];
+        usage: NonNullableUsage;
+        error?: SDKAssistantMessageError;
+      }): SDKMessage => {
+        usageByMessageId.set(message.id, message.usage);
+        return {
+          ...base,
+          uuid: randomUUID(),
+          type: 'assistant',
+          parent_tool_use_id: null,
+          ...(message.error && { error: message.error }),
+          message: {
+            id: message.id,
+            type: 'message',
+            role: 'assistant',
+            model,
+            content: message.content,
+            stop_reason: message.content.some(
+              (block) => block.type === 'tool_use',
+            )
+              ? 'tool_use'
+              : 'end_turn',
+            stop_sequence: null,
+            container: null,
+            context_management: null,
+            usage: message.usage,
+          },
+        };
+      };
+
+      // summarize the session's usage, summed over its distinct messages
+      const asSummary = () => {
+        const usages = [...usageByMessageId.values()];
+        const sum = (get: (usage: NonNullableUsage) => number): number =>
+          usages.reduce((total, usage) => total + get(usage), 0);
+        const usage = asFakeUsage({
+          input_tokens: sum((each) => each.input_tokens),
+          output_tokens: sum((each) => each.output_tokens),
+          cache_read_input_tokens: sum((each) => each.cache_read_input_tokens),
+          cache_creation_input_tokens: sum(
+            (each) => each.cache_creation_input_tokens,
+          ),
+        });
+        const modelUsage: Record<string, ModelUsage> = {
+          [model]: {
+            inputTokens: usage.input_tokens,
+            outputTokens: usage.output_tokens,
+            cacheReadInputTokens: usage.cache_read_input_tokens,
+            cacheCreationInputTokens: usage.cache_creation_input_tokens,
+            webSearchRequests: 0,
+            costUSD: 0,
+            contextWindow: 200_000,
+          },
+        };
+        return {
+          ...base,
+          uuid: randomUUID(),
+          type: 'result' as const,
+          duration_ms: 1,
+          duration_api_ms: 1,
+          num_turns: usageByMessageId.size,
+          total_cost_usd: 0,
+          usage,
+          modelUsage,
+          permission_denials: [],
+        };
+      };
+
+      for (const [index, step] of steps.entries()) {
+        if (abort?.signal.aborted) return;
+        const id = `msg_fake_${call}_${index}`;
+        if ('text' in step)
+          yield asAssistant({
+            id,
+            content: [{ type: 'text', text: step.text, citations: null }],
+            usage: asFakeUsage(step.usage),
+          });
+        if ('tools' in step)
+          for (const [each, tool] of step.tools.entries()) {
+            const toolUseId = `toolu_fake_${call}_${index}_${each}`;
+            yield asAssistant({
+              id,
+              content: [
+                {
+                  type: 'tool_use',
+                  id: toolUseId,
+                  name: tool.name,
+                  input: tool.input,
+                },
+              ],
+              usage: asFakeUsage(step.usage),
+            });
+            yield {
+              ...base,
+              uuid: randomUUID(),
+              type: 'user',
+              parent_tool_use_id: null,
+              message: {
+                role: 'user',
+                content: [
+                  {
+                    type: 'tool_result',
+                    tool_use_id: toolUseId,
+                    content: 'ok',
+                  },
+                ],
+              },
+            };
+          }
+        if ('failure' in step)
+          yield asAssistant({
+            id,
+            content: [
+              {
+                type: 'text',
+                text: `API Error: ${step.failure}`,
+                citations: null,
+              },
+            ],
+            usage: asFakeUsage({ input_tokens: 0, output_tokens: 0 }),
+            error: step.failure,
+          });
+
+        if ('result' in step)
+          yield {
+            ...asSummary(),
+            subtype: 'success',
+            is_error: false,
+            result:
+              'output' in step.result
+                ? JSON.stringify(step.result.output)
+                : step.result.text,
+            ...('output' in step.result && {
+              structured_output: step.result.output,
+            }),
+          };
+        if ('throws' in step) throw step.throws;
+        if ('error' in step)
+          yield {
+            ...asSummary(),
+            subtype: step.error.subtype,
+            is_error: true,
+            errors: step.error.errors ?? [],
+          };
+      }
+    })();
+  };
+
+  return { query, calls };
+};
@@ -0,0 +1,584 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * .what = one content block of a scripted reply
+ *
+ * .note
+ *   - text = a text block, as is
+ *   - output = a structured output, emitted as the json text of a text block
+ *   - tool = a tool_use block; its id defaults to one unique per reply
+ *   - thinking = a thinking block; its signature defaults to a fake one
+ */
+export type StandInBlock =
+  | { text: string }
+  | { output: unknown }
+  | { tool: { name: string; input: unknown; id?: string } }
+  | { thinking: string; signature?: string };
+
+/**
+ * .what = one scripted reply of the stand-in server, to one messages request
+ *
+ * .note
+ *   - stop defaults to 'tool_use' if the reply has a tool block, else 'end_turn'
+ *   - usage defaults to 10 input and 10 output tokens, with no cache
+ *   - error = answers with an anthropic error body, at the status given; e.g., 529 overloaded_error
+ *   - unprocessed = a batch result which was never processed; e.g., 'expired'
+ */
+export type StandInReply =
+  | {
+      content: StandInBlock[];
+      stop?: Anthropic.Beta.Messages.BetaStopReason;
+      usage?: Partial<
+        Pick<
+          Anthropic.Beta.Messages.BetaUsage,
+          | 'input_tokens'
+          | 'output_tokens'
+          | 'cache_read_input_tokens'
+          | 'cache_creation_input_tokens'
+          | 'cache_creation'
+        >
+      >;
+    }
+  | {
+      error: { status: number; type: string; message?: string };
+      headers?: Record<string, string>;
+    }
+  | { unprocessed: 'expired' | 'canceled' };
+
+/**
+ * .what = the json body of a request the stand-in server received
+ * .why = one shape for every endpoint, so tests read the fields of the request they sent, type-checked
+ *
+ * .note
+ *   - messages and count_tokens requests carry the fields of a message create
+ *   - batch creates carry requests
+ *   - bedrock and vertex requests carry anthropic_version, in place of a model
+ */
+export type StandInRequestBody = Partial<
+  Anthropic.Beta.Messages.MessageCreateParams &
+    Pick<Anthropic.Beta.Messages.Batches.BatchCreateParams, 'requests'> & {
+      anthropic_version: string;
+    }
+>;
+
+/**
+ * .what = a request the stand-in server received
+ * .why = lets tests assert on the wire format of each backend, and on what the atom sent; e.g., system, messages, tools, and betas
+ *
+ * .note = url is recorded decoded, so that model ids read as they were sent; path excludes the query
+ */
+export type StandInRequest = {
+  url: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  betas: string[];
+  body: StandInRequestBody;
+};
+
+/**
+ * .what = a stand-in of the anthropic api, served locally
+ */
+export type StandInServer = {
+  server: Server;
+  baseURL: string;
+  requests: StandInRequest[];
+  script: (...replies: StandInReply[]) => void;
+  batches: { end: () => void };
+  close: () => Promise<void>;
+};
+
+/**
+ * .what = casts a scripted block into the anthropic content block it stands for
+ */
+const castIntoStandInContentBlock = (input: {
+  block: StandInBlock;
+  id: string;
+}): Anthropic.Beta.Messages.BetaContentBlock => {
+  const { block } = input;
+  if ('text' in block)
+    return { type: 'text', text: block.text, citations: null };
+  if ('output' in block)
+    return {
+      type: 'text',
+      text: JSON.stringify(block.output),
+      citations: null,
+    };
+  if ('tool' in block)
+    return {
+      type: 'tool_use',
+      id: block.tool.id ?? input.id,
+      name: block.tool.name,
+      input: block.tool.input,
+    };
+  return {
+    type: 'thinking',
+    thinking: block.thinking,
+    signature: block.signature ?? 'sig_fake',
+  };
+};
+
+/**
+ * .what = splits a string into the chunks of its stream deltas
+ * .why = more than one delta per block exercises how the sdk accumulates them
+ */
+const asStandInChunks = (text: string): string[] =>
+  text.match(/[\s\S]{1,8}/g) ?? [''];
+
+/**
+ * .what = the server-sent events of a message, as the streaming endpoint emits them
+ */
+const asStandInStreamEvents = (
+  message: Anthropic.Beta.Messages.BetaMessage,
+): Anthropic.Beta.Messages.BetaRawMessageStreamEvent[] => [
+  {
+    type: 'message_start',
+    message: {
+      ...message,
+      content: [],
+      stop_reason: null,
+      usage: { ...message.usage, output_tokens: 1 },
+    },
+  },
+  ...message.content.flatMap(
+    (block, index): Anthropic.Beta.Messages.BetaRawMessageStreamEvent[] => {
+      if (block.type === 'text')
+        return [
+          {
+            type: 'content_block_start',
+            index,
+            content_block: { ...block, text: '' },
+          },
+          ...asStandInChunks(block.text).map(
+            (text): Anthropic.Beta.Messages.BetaRawMessageStreamEvent => ({
+              type: 'content_block_delta',
+              index,
+              delta: { type: 'text_delta', text },
+            }),
+          ),
+          { type: 'content_block_stop', index },
+        ];
+      if (block.type === 'tool_use')
+        return [
+          {
+            type: 'content_block_start',
+            index,
+            content_block: { ...block, input: {} },
+          },
+          ...asStandInChunks(JSON.stringify(block.input)).map(
+            (
+              partial_json,
+            ): Anthropic.Beta.Messages.BetaRawMessageStreamEvent => ({
+              type: 'content_block_delta',
+              index,
+              delta: { type: 'input_json_delta', partial_json },
+            }),
+          ),
+          { type: 'content_block_stop', index },
+        ];
+      if (block.type === 'thinking')
+        return [
+          {
+            type: 'content_block_start',
+            index,
+            content_block: { ...block, thinking: '', signature: '' },
+          },
+          ...asStandInChunks(block.thinking).map(
+            (thinking): Anthropic.Beta.Messages.BetaRawMessageStreamEvent => ({
+              type: 'content_block_delta',
+              index,
+              delta: { type: 'thinking_delta', thinking },
+            }),
+          ),
+          {
+            type: 'content_block_delta',
+            index,
+            delta: { type: 'signature_delta', signature: block.signature },
+          },
+          { type: 'content_block_stop', index },
+        ];
+      return [];
+    },
+  ),
+  {
+    type: 'message_delta',
+    delta: {
+      stop_reason: message.stop_reason,
+      stop_sequence: null,
+      container: null,
+    },
+    usage: {
+      input_tokens: message.usage.input_tokens,
+      output_tokens: message.usage.output_tokens,
+      cache_read_input_tokens: message.usage.cache_read_input_tokens,
+      cache_creation_input_tokens: message.usage.cache_creation_input_tokens,
+      server_tool_use: null,
+    },
+    context_management: null,
+  },
+  { type: 'message_stop' },
+];
+
+/**
+ * .what = casts a scripted reply into the message it stands for
+ */
+const castIntoStandInMessage = (input: {
+  reply: Extract<StandInReply, { content: StandInBlock[] }>;
+  model: string | undefined;
+  ordinal: number;
+}): Anthropic.Beta.Messages.BetaMessage => {
+  const content = input.reply.content.map((block, index) =>
+    castIntoStandInContentBlock({
+      block,
+      id: `toolu_fake_${input.ordinal}_${index}`,
+    }),
+  );
+  return {
+    id: `msg_fake_${input.ordinal}`,
+    type: 'message',
+    role: 'assistant',
+    model: input.model ?? 'fake',
+    content,
+    stop_reason:
+      input.reply.stop ??
+      (content.some((block) => block.type === 'tool_use')
+        ? 'tool_use'
+        : 'end_turn'),
+    stop_sequence: null,
+    container: null,
+    context_management: null,
+    usage: {
+      input_tokens: 10,
+      output_tokens: 10,
+      cache_read_input_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_creation: null,
+      server_tool_use: null,
+      service_tier: 'standard',
+      ...input.reply.usage,
+    },
+  };
+};
+
+/**
+ * .what = casts a scripted reply into the batch result it stands for
+ */
+const castIntoStandInBatchResult = (input: {
+  reply: StandInReply;
+  model: string | undefined;
+  ordinal: number;
+}): Anthropic.Beta.Messages.Batches.BetaMessageBatchResult => {
+  if ('unprocessed' in input.reply) return { type: input.reply.unprocessed };
+  if ('error' in input.reply)
+    return {
+      type: 'errored',
+      error: {
+        type: 'error',
+        error: {
+          type: input.reply.error.type,
+          message:
+            input.reply.error.message ?? `stand-in ${input.reply.error.type}`,
+        },
+      } as Anthropic.Beta.BetaErrorResponse,
+    };
+  return {
+    type: 'succeeded',
+    message: castIntoStandInMessage({ ...input, reply: input.reply }),
+  };
+};
+
+/**
+ * .what = a message batch the stand-in server holds, with the results of its asks
+ */
+type StandInBatch = {
+  batch: Anthropic.Beta.Messages.Batches.BetaMessageBatch;
+  results: Anthropic.Beta.Messages.Batches.BetaMessageBatchIndividualResponse[];
+};
+
+/**
+ * .what = answers a request of the message batches api
+ *
+ * .note
+ *   - a created batch consumes one reply of the script per ask, in order, as the result of that ask
+ *   - a batch stays in progress until batches.end() is called; only then are its results served
+ */
+const respondViaBatches = (input: {
+  request: StandInRequest;
+  res: ServerResponse;
+  script: { replies: StandInReply[]; replied: number };
+  batches: Map<string, StandInBatch>;
+  baseURL: string;
+}): void => {
+  const { request, res, script, batches } = input;
+  const headers = {
+    'content-type': 'application/json',
+    'request-id': `req_fake_batch_${batches.size}`,
+  };
+  const [, exid, suffix] =
+    request.path.match(/^\/v1\/messages\/batches\/?([^/]*)\/?(.*)$/) ?? [];
+
+  // create a batch, with one scripted reply per ask
+  if (!exid) {
+    const asks = request.body.requests ?? [];
+    const id = `msgbatch_fake_${batches.size + 1}`;
+    const results = asks.map((ask) => {
+      const reply = script.replies.shift() ?? {
+        error: { status: 400, type: 'invalid_request_error' },
+      };
+      script.replied += 1;
+      return {
+        custom_id: ask.custom_id,
+        result: castIntoStandInBatchResult({
+          reply,
+          model: ask.params.model,
+          ordinal: script.replied,
+        }),
+      };
+    });
+    const batch: Anthropic.Beta.Messages.Batches.BetaMessageBatch = {
+      id,
+      type: 'message_batch',
+      processing_status: 'in_progress',
+      request_counts: {
+        processing: asks.length,
+        succeeded: 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+      ended_at: null,
+      archived_at: null,
+      cancel_initiated_at: null,
+      results_url: null,
+    };
+    batches.set(id, { batch, results });
+    res.writeHead(200, headers);
+    res.end(JSON.stringify(batch));
+    return;
+  }
+
+  // answer on a batch which was never created
+  const held = batches.get(exid);
+  if (!held) {
+    res.writeHead(404, headers);
+    res.end(
+      JSON.stringify({
+        type: 'error',
+        error: { type: 'not_found_error', message: `no batch ${exid}` },
+      }),
+    );
+    return;
+  }
+
+  // serve the results as jsonl
+  if (suffix === 'results') {
+    res.writeHead(200, { ...headers, 'content-type': 'application/binary' });
+    res.end(
+      held.results.map((result) => `${JSON.stringify(result)}\n`).join(''),
+    );
+    return;
+  }
+
+  // retrieve the batch, with its results url once ended
+  res.writeHead(200, headers);
+  res.end(
+    JSON.stringify({
+      ...held.batch,
+      results_url: held.batch.ended_at
+        ? `${input.baseURL}/v1/messages/batches/${exid}/results`
+        : null,
+    }),
+  );
+};
+
+/**
+ * .what = answers a messages request with the next reply of the script
+ *
+ * .note
+ *   - count_tokens requests are answered with the tokens given, else a rough estimate of the body, and consume no reply
+ *   - a request beyond the script is answered with a 400, so that it fails fast rather than retries
+ */
+const respondViaScript = (input: {
+  request: StandInRequest;
+  res: ServerResponse;
+  script: { replies: StandInReply[]; replied: number };
+  tokens: { count: number } | undefined;
+}): void => {
+  const { request, res, script } = input;
+  const headers = {
+    'content-type': 'application/json',
+    'request-id': `req_fake_${script.replied}`,
+  };
+
+  // answer token counts without a reply
+  if (request.path.endsWith('/count_tokens')) {
+    res.writeHead(200, headers);
+    res.end(
+      JSON.stringify({
+        input_tokens:
+          input.tokens?.count ??
+          Math.ceil(JSON.stringify(request.body).length / 4),
+      }),
+    );
+    return;
+  }
+
+  // answer with the next reply, else fail fast
+  const reply = script.replies.shift();
+  if (!reply) {
+    res.writeHead(400, headers);
+    res.end(
+      JSON.stringify({
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          message: `the stand-in server has no reply scripted for reply #${script.replied + 1}`,
+        },
+      }),
+    );
+    return;
+  }
+  script.replied += 1;
+  if ('unprocessed' in reply) {
+    res.writeHead(400, headers);
+    res.end(
+      JSON.stringify({
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          message: `the stand-in server can only answer a batch ask as ${reply.unprocessed}`,
+        },
+      }),
+    );
+    return;
+  }
+  if ('error' in reply) {
+    res.writeHead(reply.error.status, { ...headers, ...reply.headers });
+    res.end(
+      JSON.stringify({
+        type: 'error',
+        error: {
+          type: reply.error.type,
+          message: reply.error.message ?? `stand-in ${reply.error.type}`,
+        },
+      }),
+    );
+    return;
+  }
+  const message = castIntoStandInMessage({
+    reply,
+    model: request.body.model,
+    ordinal: script.replied,
+  });
+
+  // answer as events, if streamed
+  if (request.body.stream) {
+    res.writeHead(200, { ...headers, 'content-type': 'text/event-stream' });
+    for (const event of asStandInStreamEvents(message))
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    res.end();
+    return;
+  }
+  res.writeHead(200, headers);
+  res.end(JSON.stringify(message));
+};
+
+/**
+ * .what = starts a local stand-in of the anthropic api, which answers either with the message of the respond callback, or with the replies scripted into it
+ * .why = exercises the wire format of each backend, and an atom end to end (request shape, streams, errors, episodes, and metrics), without credentials or network
+ *
+ * .note
+ *   - with respond, every request is answered with its message, as is
+ *   - else, replies are consumed in the order scripted, one per messages request; streamed requests get the same reply, as events
+ *   - message batches consume one reply per ask, and end once batches.end() is called
+ *   - every request is recorded, with the betas of its anthropic-beta header split out
+ *
+ * .example
+ *   const standIn = await genStandInServer();
+ *   standIn.script({ content: [{ output: { content: 'hi' } }], usage: { input_tokens: 1_000 } });
+ *   const atom = genBrainAtom({ slug: 'claude/sonnet', client: { baseURL: standIn.baseURL, apiKey: 'sk-ant-fake' } });
+ *   await atom.ask({ role: {}, prompt: 'hi', schema: { output } });
+ *   expect(standIn.requests[0]!.body.system).toEqual(...);
+ */
+export const genStandInServer = async (input?: {
+  respond?: (request: StandInRequest) => object;
+  tokens?: { count: number };
+}): Promise<StandInServer> => {
+  const requests: StandInRequest[] = [];
+  const script = { replies: [] as StandInReply[], replied: 0 };
+  const batches = new Map<string, StandInBatch>();
+  let baseURL = '';
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const request: StandInRequest = {
+        url: decodeURIComponent(req.url ?? ''),
+        path: new URL(req.url ?? '/', 'http://localhost').pathname,
+        headers: req.headers,
+        betas: String(req.headers['anthropic-beta'] ?? '')
+          .split(',')
+          .map((beta) => beta.trim())
+          .filter(Boolean),
+        body: JSON.parse(body || '{}') as StandInRequestBody,
+      };
+      requests.push(request);
+
+      // answer with the message of the respond callback, if given
+      if (input?.respond) {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(input.respond(request)));
+        return;
+      }
+
+      // else answer per the script
+      if (request.path.startsWith('/v1/messages/batches'))
+        return respondViaBatches({ request, res, script, batches, baseURL });
+      respondViaScript({ request, res, script, tokens: input?.tokens });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  baseURL = `http://localhost:${port}`;
+  return {
+    server,
+    baseURL,
+    requests,
+    script: (...more) => {
+      script.replies.push(...more);
+    },
+    batches: {
+      end: () => {
+        for (const held of batches.values()) {
+          const counts = held.results.map(({ result }) => result.type);
+          held.batch = {
+            ...held.batch,
+            processing_status: 'ended',
+            ended_at: new Date().toISOString(),
+            request_counts: {
+              processing: 0,
+              succeeded: counts.filter((type) => type === 'succeeded').length,
+              errored: counts.filter((type) => type === 'errored').length,
+              canceled: counts.filter((type) => type === 'canceled').length,
+              expired: counts.filter((type) => type === 'expired').length,
+            },
+          };
+        }
+      },
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+};
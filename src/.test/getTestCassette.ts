@@ -0,0 +1,38 @@
+import * as path from 'path';
+
+import {
+  type BrainCassette,
+  genBrainCassette,
+} from '../infra/cassette/genBrainCassette';
+
+let cassette: BrainCassette | null | undefined;
+
+/**
+ * .what = the cassette of the current test file, per process.env.CASSETTE
+ * .why = lets integration suites run offline in ci, via replay of what was recorded against the live api
+ *
+ * .note
+ *   - CASSETTE=record = calls the live api, and records each call into the test file's cassette
+ *   - CASSETTE=replay = serves each call from the test file's cassette, without network or api key
+ *   - unset = calls the live api, with no cassette
+ *   - cassettes live beside their test file, in __cassettes__/<file>.cassette.json
+ *   - jest loads modules per test file, so each file gets a cassette of its own
+ */
+export const getTestCassette = (): BrainCassette | null => {
+  if (cassette !== undefined) return cassette;
+  const mode = process.env.CASSETTE;
+  if (!mode) return (cassette = null);
+  if (mode !== 'record' && mode !== 'replay')
+    throw new Error(`CASSETTE must be 'record' or 'replay', got '${mode}'`);
+  const testPath = expect.getState().testPath;
+  if (!testPath) throw new Error('no test path; call from within a test file');
+  cassette = genBrainCassette({
+    path: path.join(
+      path.dirname(testPath),
+      '__cassettes__',
+      `${path.basename(testPath)}.cassette.json`,
+    ),
+    mode,
+  });
+  return cassette;
+};
@@ -0,0 +1,42 @@
+import { trace } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+
+/**
+ * .what = registers a global tracer provider, which exports every span into memory, for the tests of the enclosing block
+ * .why = lets tests assert on the spans of brain calls, without a collector
+ *
+ * .note = the provider is registered before all and disabled after all, so tests outside the block see the no-op tracer
+ * .note = spans are exported once they end, so assert after the call resolves or rejects
+ *
+ * .example
+ *   const spans = useTestSpanExporter();
+ *   then('it traces the ask', async () => {
+ *     await brainAtom.ask({ ... });
+ *     expect(spans.get()[0]!.name).toEqual('chat ...');
+ *   });
+ */
+export const useTestSpanExporter = (): {
+  get: () => ReadableSpan[];
+  reset: () => void;
+} => {
+  const exporter = new InMemorySpanExporter();
+  beforeAll(() => {
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+  });
+  afterAll(() => {
+    trace.disable();
+  });
+  return {
+    get: () => exporter.getFinishedSpans(),
+    reset: () => exporter.reset(),
+  };
+};
@@ -28,9 +28,80 @@ export const getBrainReplsByAnthropic = (): BrainRepl[] => {
   ];
 };
 
+// re-export errors for consumers
+export {
+  BrainAuthInvalidError,
+  BrainBudgetExceededError,
+  BrainContextTooLongError,
+  BrainError,
+  type BrainErrorKind,
+  type BrainErrorMetadata,
+  BrainOutputTruncatedError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainRefusalError,
+  BrainReplExecutionError,
+  BrainReplMaxTurnsError,
+  BrainSchemaMismatchError,
+  BrainTimeoutError,
+} from '../../domain.objects/BrainError';
+// re-export types for consumers
+export type {
+  AnthropicBackend,
+  AnthropicBedrockProfile,
+  AnthropicClientOptions,
+  BrainAtomAskContext,
+  BrainAtomCompactionMetrics,
+  BrainAtomCompactionPolicy,
+  BrainAtomContextHeadroom,
+  BrainAtomInferenceOptions,
+  BrainAtomMedia,
+  BrainAtomMediaMime,
+  BrainAtomObserverEvent,
+  BrainAtomObservers,
+  BrainAtomPromptWithMedia,
+  BrainAtomStreamEvent,
+  BrainAtomStreamObserver,
+  BrainAtomThinkingObserver,
+  BrainAtomThought,
+  BrainAtomToolChoice,
+  BrainCallBudget,
+  BrainRetryMetrics,
+  BrainRetryPolicy,
+} from '../../domain.operations/atoms/genBrainAtom';
 // re-export factories for direct access
 export { genBrainAtom } from '../../domain.operations/atoms/genBrainAtom';
+export {
+  type BrainAtomFallbackMetrics,
+  genBrainAtomFallback,
+} from '../../domain.operations/atoms/genBrainAtomFallback';
+export {
+  type BrainAtomToolLoopLimits,
+  type BrainAtomToolLoopOutput,
+  invokeBrainAtomToolLoop,
+} from '../../domain.operations/atoms/invokeBrainAtomToolLoop';
+export type {
+  BrainAtomBatchAsk,
+  BrainAtomBatchJob,
+  BrainAtomBatchResults,
+} from '../../domain.operations/batches/genBrainAtomBatch';
+export { genBrainAtomBatch } from '../../domain.operations/batches/genBrainAtomBatch';
 export { genBrainHooksAdapterForClaudeCode } from '../../domain.operations/hooks/genBrainHooksAdapterForClaudeCode';
 // brain hooks adapter for claude code
 export { getBrainHooks } from '../../domain.operations/hooks/getBrainHooks';
-export { genBrainRepl } from '../../domain.operations/repls/genBrainRepl';
+export {
+  type BrainReplAskContext,
+  type BrainReplObserverEvent,
+  type BrainReplObservers,
+  type BrainReplQuery,
+  genBrainRepl,
+} from '../../domain.operations/repls/genBrainRepl';
+// record/replay of api calls and repl sessions
+export {
+  type BrainCassette,
+  BrainCassetteMismatchError,
+  type BrainCassetteMode,
+  genBrainCassette,
+} from '../../infra/cassette/genBrainCassette';
+// opentelemetry spans of atoms and repls
+export { BRAIN_TRACER_NAME } from '../../infra/trace/invokeWithBrainSpan';
@@ -0,0 +1,121 @@
+import { HelpfulError } from 'helpful-errors';
+
+/**
+ * .what = the kinds of failure an anthropic brain may surface
+ * .why = enables callers to branch on kind instead of parse messages
+ */
+export type BrainErrorKind =
+  | 'auth-invalid'
+  | 'rate-limited'
+  | 'overloaded'
+  | 'timeout'
+  | 'context-too-long'
+  | 'refusal'
+  | 'output-truncated'
+  | 'schema-mismatch'
+  | 'budget-exceeded'
+  | 'repl-max-turns'
+  | 'repl-execution';
+
+/**
+ * .what = structured metadata attached to every brain error
+ * .why = identifies which brain, model, and request failed, without a parse of the message
+ */
+export type BrainErrorMetadata = Record<string, unknown> & {
+  slug: string;
+  model: string;
+  requestId?: string | null;
+  stopReason?: string | null;
+  cause?: Error;
+};
+
+/**
+ * .what = base class for failures surfaced by anthropic atoms and repls
+ * .why = enables `instanceof BrainError` and a switch on `.kind` across all failure modes
+ */
+export abstract class BrainError extends HelpfulError {
+  public abstract readonly kind: BrainErrorKind;
+  public readonly metadata: BrainErrorMetadata;
+
+  constructor(message: string, metadata: BrainErrorMetadata) {
+    super(message, metadata);
+    this.metadata = metadata;
+  }
+}
+
+/**
+ * .what = the api key was rejected or lacks permission
+ */
+export class BrainAuthInvalidError extends BrainError {
+  public readonly kind = 'auth-invalid' as const;
+}
+
+/**
+ * .what = the request was throttled by a rate limit
+ */
+export class BrainRateLimitedError extends BrainError {
+  public readonly kind = 'rate-limited' as const;
+}
+
+/**
+ * .what = the api was temporarily overloaded
+ */
+export class BrainOverloadedError extends BrainError {
+  public readonly kind = 'overloaded' as const;
+}
+
+/**
+ * .what = the request timed out before the api responded
+ */
+export class BrainTimeoutError extends BrainError {
+  public readonly kind = 'timeout' as const;
+}
+
+/**
+ * .what = the prompt plus episode exceeded the model's context window
+ */
+export class BrainContextTooLongError extends BrainError {
+  public readonly kind = 'context-too-long' as const;
+}
+
+/**
+ * .what = the model declined to respond
+ */
+export class BrainRefusalError extends BrainError {
+  public readonly kind = 'refusal' as const;
+}
+
+/**
+ * .what = the output was cut off at the max tokens limit before it was complete
+ */
+export class BrainOutputTruncatedError extends BrainError {
+  public readonly kind = 'output-truncated' as const;
+}
+
+/**
+ * .what = the output did not parse against the requested schema
+ */
+export class BrainSchemaMismatchError extends BrainError {
+  public readonly kind = 'schema-mismatch' as const;
+}
+
+/**
+ * .what = the call would exceed, or did reach, its cash budget
+ */
+export class BrainBudgetExceededError extends BrainError {
+  public readonly kind = 'budget-exceeded' as const;
+}
+
+/**
+ * .what = the repl hit its max turns before it produced a result
+ */
+export class BrainReplMaxTurnsError extends BrainError {
+  public readonly kind = 'repl-max-turns' as const;
+}
+
+/**
+ * .what = the repl failed during execution
+ */
+export class BrainReplExecutionError extends BrainError {
+  public readonly kind = 'repl-execution' as const;
+}
@@ -1,6 +1,8 @@
-import { dividePrice } from 'iso-price';
+import { dividePrice, type IsoPrice } from 'iso-price';
 import type { BrainSpec } from 'rhachet';
 
+import type { AnthropicCacheTtl } from '../../infra/cast/castIntoAnthropicCacheBreakpoints';
+
 /**
  * .what = anthropic model identifiers
  * .why = type-safe model id specification
@@ -24,10 +26,39 @@ export type AnthropicBrainAtomSlug =
   | 'claude/sonnet'
   | 'claude/sonnet/v4'
   | 'claude/sonnet/v4.5'
+  | 'claude/sonnet/1m'
+  | 'claude/sonnet/v4/1m'
+  | 'claude/sonnet/v4.5/1m'
   | 'claude/opus'
   | 'claude/opus/v4'
   | 'claude/opus/v4.5';
 
+/**
+ * .what = per-token prices of an anthropic atom, with cache write prices per ttl
+ * .why = 1h cache writes cost more than 5m ones, but the rhachet spec knows a single cache write price
+ *
+ * .note = cache.set stays at the 5m price, which is what rhachet prices every cache write at
+ */
+export type BrainAtomCash = BrainSpec['cost']['cash'] & {
+  cache: { setByTtl: Record<AnthropicCacheTtl, IsoPrice> };
+};
+
+/**
+ * .what = brain spec of an anthropic atom
+ * .why = extends the rhachet spec with the prices it can not express
+ *
+ * .note = tiered = the prices of every token of a request whose input exceeds the threshold; e.g., long context sonnet above 200K
+ * .note = premium = the rate every price is multiplied by; e.g., 1.1 on the regional endpoints of a cloud backend
+ */
+export type BrainAtomSpec = BrainSpec & {
+  cost: {
+    cash: BrainAtomCash & {
+      tiered?: { above: { tokens: number }; cash: BrainAtomCash };
+      premium?: { rate: number };
+    };
+  };
+};
+
 /**
  * .what = atom config type
  * .why = shared type for model configs
@@ -35,7 +66,30 @@ export type AnthropicBrainAtomSlug =
 export type BrainAtomConfig = {
   model: AnthropicBrainAtomModel;
   description: string;
-  spec: BrainSpec;
+  spec: BrainAtomSpec;
+  supports: {
+    // extended thinking; src: https://platform.claude.com/docs/en/build-with-claude/extended-thinking
+    thinking: boolean;
+    // native structured outputs, on fresh asks and on episode continuations; src: https://platform.claude.com/docs/en/build-with-claude/structured-outputs
+    // note: where unsupported, structured output is emulated via a forced output tool
+    structured: { outputs: boolean; episodes: boolean };
+    // temperature and top_p together, on one request; the 4.5 generation rejects the pair; src: https://platform.claude.com/docs/en/about-claude/models/migrating-to-claude-4
+    sampling: { temperatureWithTopP: boolean };
+  };
+  limits: {
+    // max output tokens per response; src: https://platform.claude.com/docs/en/about-claude/models/overview
+    output: { tokens: number };
+  };
+  // beta features which every request of the model requires; e.g., the 1m context window
+  betas?: 'context-1m-2025-08-07'[];
+  // model ids on cloud backends; src: https://platform.claude.com/docs/en/build-with-claude/claude-on-amazon-bedrock, https://platform.claude.com/docs/en/build-with-claude/claude-on-vertex-ai
+  // note: global = whether the model is served via a global endpoint, rather than only via regional ones
+  // note: premium.regional = whether regional endpoints bill a 10% premium over global ones, as from the 4.5 generation
+  backends: {
+    bedrock: { model: string; global: boolean };
+    vertex: { model: string; global: boolean };
+    premium: { regional: boolean };
+  };
 };
 
 /**
@@ -53,6 +107,20 @@ export type BrainAtomConfig = {
 const CONFIG_HAIKU_V3_5: BrainAtomConfig = {
   model: 'claude-3-5-haiku-20241022',
   description: 'claude haiku 3.5 - fast and cost-effective',
+  supports: {
+    thinking: false,
+    structured: { outputs: false, episodes: false },
+    sampling: { temperatureWithTopP: true },
+  },
+  limits: { output: { tokens: 8_192 } },
+  backends: {
+    bedrock: {
+      model: 'anthropic.claude-3-5-haiku-20241022-v1:0',
+      global: false,
+    },
+    vertex: { model: 'claude-3-5-haiku@20241022', global: false },
+    premium: { regional: false },
+  },
   spec: {
     cost: {
       time: {
@@ -66,6 +134,10 @@ const CONFIG_HAIKU_V3_5: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$0.08', by: 1_000_000 }), // $0.08/MTok cache read
           set: dividePrice({ of: '$1', by: 1_000_000 }), // $1/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$1', by: 1_000_000 }), // $1/MTok cache write (5min)
+            '1h': dividePrice({ of: '$1.60', by: 1_000_000 }), // $1.60/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$0.80', by: 1_000_000 }), // $0.80/MTok input
         output: dividePrice({ of: '$4', by: 1_000_000 }), // $4/MTok output
@@ -93,6 +165,20 @@ const CONFIG_HAIKU_V3_5: BrainAtomConfig = {
 const CONFIG_HAIKU_V4_5: BrainAtomConfig = {
   model: 'claude-haiku-4-5-20251001',
   description: 'claude haiku 4.5 - fastest and most cost-effective',
+  supports: {
+    thinking: true,
+    structured: { outputs: true, episodes: false },
+    sampling: { temperatureWithTopP: false },
+  },
+  limits: { output: { tokens: 64_000 } },
+  backends: {
+    bedrock: {
+      model: 'anthropic.claude-haiku-4-5-20251001-v1:0',
+      global: true,
+    },
+    vertex: { model: 'claude-haiku-4-5@20251001', global: true },
+    premium: { regional: true },
+  },
   spec: {
     cost: {
       time: {
@@ -106,6 +192,10 @@ const CONFIG_HAIKU_V4_5: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$0.10', by: 1_000_000 }), // $0.10/MTok cache read
           set: dividePrice({ of: '$1.25', by: 1_000_000 }), // $1.25/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$1.25', by: 1_000_000 }), // $1.25/MTok cache write (5min)
+            '1h': dividePrice({ of: '$2', by: 1_000_000 }), // $2/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$1', by: 1_000_000 }), // $1/MTok input
         output: dividePrice({ of: '$5', by: 1_000_000 }), // $5/MTok output
@@ -133,6 +223,17 @@ const CONFIG_HAIKU_V4_5: BrainAtomConfig = {
 const CONFIG_SONNET_V4: BrainAtomConfig = {
   model: 'claude-sonnet-4-20250514',
   description: 'claude sonnet 4 - balanced performance and capability',
+  supports: {
+    thinking: true,
+    structured: { outputs: false, episodes: false },
+    sampling: { temperatureWithTopP: true },
+  },
+  limits: { output: { tokens: 64_000 } },
+  backends: {
+    bedrock: { model: 'anthropic.claude-sonnet-4-20250514-v1:0', global: true },
+    vertex: { model: 'claude-sonnet-4@20250514', global: true },
+    premium: { regional: false },
+  },
   spec: {
     cost: {
       time: {
@@ -146,6 +247,10 @@ const CONFIG_SONNET_V4: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$0.30', by: 1_000_000 }), // $0.30/MTok cache read
           set: dividePrice({ of: '$3.75', by: 1_000_000 }), // $3.75/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$3.75', by: 1_000_000 }), // $3.75/MTok cache write (5min)
+            '1h': dividePrice({ of: '$6', by: 1_000_000 }), // $6/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$3', by: 1_000_000 }), // $3/MTok input
         output: dividePrice({ of: '$15', by: 1_000_000 }), // $15/MTok output
@@ -170,9 +275,64 @@ const CONFIG_SONNET_V4: BrainAtomConfig = {
   },
 };
 
+/**
+ * .what = long context prices of sonnet, for requests whose input exceeds 200K tokens
+ * .note = input counts cache reads and writes too; above the threshold, every token of the request is billed at these prices
+ * .src = https://platform.claude.com/docs/en/about-claude/pricing#long-context-pricing
+ */
+const CASH_SONNET_CONTEXT_1M: BrainAtomCash = {
+  per: 'token',
+  cache: {
+    get: dividePrice({ of: '$0.60', by: 1_000_000 }), // $0.60/MTok cache read
+    set: dividePrice({ of: '$7.50', by: 1_000_000 }), // $7.50/MTok cache write (5min)
+    setByTtl: {
+      '5m': dividePrice({ of: '$7.50', by: 1_000_000 }), // $7.50/MTok cache write (5min)
+      '1h': dividePrice({ of: '$12', by: 1_000_000 }), // $12/MTok cache write (1h)
+    },
+  },
+  input: dividePrice({ of: '$6', by: 1_000_000 }), // $6/MTok input
+  output: dividePrice({ of: '$22.50', by: 1_000_000 }), // $22.50/MTok output
+};
+
+/**
+ * .what = declares the 1m token context window on a sonnet config
+ * .why = the long context variant is the same model, behind a beta header, with a larger window and tiered prices
+ * .src = https://platform.claude.com/docs/en/build-with-claude/context-windows#1m-token-context-window
+ */
+const withContext1m = (config: BrainAtomConfig): BrainAtomConfig => ({
+  ...config,
+  description: `${config.description}, with the 1m token context window`,
+  betas: ['context-1m-2025-08-07'],
+  spec: {
+    ...config.spec,
+    cost: {
+      ...config.spec.cost,
+      cash: {
+        ...config.spec.cost.cash,
+        tiered: { above: { tokens: 200_000 }, cash: CASH_SONNET_CONTEXT_1M },
+      },
+    },
+    gain: { ...config.spec.gain, size: { context: { tokens: 1_000_000 } } },
+  },
+});
+
 const CONFIG_SONNET_V4_5: BrainAtomConfig = {
   model: 'claude-sonnet-4-5-20250929',
   description: 'claude sonnet 4.5 - balanced performance and capability',
+  supports: {
+    thinking: true,
+    structured: { outputs: true, episodes: true },
+    sampling: { temperatureWithTopP: false },
+  },
+  limits: { output: { tokens: 64_000 } },
+  backends: {
+    bedrock: {
+      model: 'anthropic.claude-sonnet-4-5-20250929-v1:0',
+      global: true,
+    },
+    vertex: { model: 'claude-sonnet-4-5@20250929', global: true },
+    premium: { regional: true },
+  },
   spec: {
     cost: {
       time: {
@@ -186,6 +346,10 @@ const CONFIG_SONNET_V4_5: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$0.30', by: 1_000_000 }), // $0.30/MTok cache read
           set: dividePrice({ of: '$3.75', by: 1_000_000 }), // $3.75/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$3.75', by: 1_000_000 }), // $3.75/MTok cache write (5min)
+            '1h': dividePrice({ of: '$6', by: 1_000_000 }), // $6/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$3', by: 1_000_000 }), // $3/MTok input
         output: dividePrice({ of: '$15', by: 1_000_000 }), // $15/MTok output
@@ -210,9 +374,23 @@ const CONFIG_SONNET_V4_5: BrainAtomConfig = {
   },
 };
 
+const CONFIG_SONNET_V4_1M = withContext1m(CONFIG_SONNET_V4);
+const CONFIG_SONNET_V4_5_1M = withContext1m(CONFIG_SONNET_V4_5);
+
 const CONFIG_OPUS_V4: BrainAtomConfig = {
   model: 'claude-opus-4-20250514',
   description: 'claude opus 4 - highly capable for complex reasoning',
+  supports: {
+    thinking: true,
+    structured: { outputs: false, episodes: false },
+    sampling: { temperatureWithTopP: true },
+  },
+  limits: { output: { tokens: 32_000 } },
+  backends: {
+    bedrock: { model: 'anthropic.claude-opus-4-20250514-v1:0', global: false },
+    vertex: { model: 'claude-opus-4@20250514', global: false },
+    premium: { regional: false },
+  },
   spec: {
     cost: {
       time: {
@@ -226,6 +404,10 @@ const CONFIG_OPUS_V4: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$1.50', by: 1_000_000 }), // $1.50/MTok cache read
           set: dividePrice({ of: '$18.75', by: 1_000_000 }), // $18.75/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$18.75', by: 1_000_000 }), // $18.75/MTok cache write (5min)
+            '1h': dividePrice({ of: '$30', by: 1_000_000 }), // $30/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$15', by: 1_000_000 }), // $15/MTok input
         output: dividePrice({ of: '$75', by: 1_000_000 }), // $75/MTok output
@@ -253,6 +435,17 @@ const CONFIG_OPUS_V4: BrainAtomConfig = {
 const CONFIG_OPUS_V4_5: BrainAtomConfig = {
   model: 'claude-opus-4-5-20251101',
   description: 'claude opus 4.5 - most capable for complex reasoning',
+  supports: {
+    thinking: true,
+    structured: { outputs: true, episodes: true },
+    sampling: { temperatureWithTopP: false },
+  },
+  limits: { output: { tokens: 64_000 } },
+  backends: {
+    bedrock: { model: 'anthropic.claude-opus-4-5-20251101-v1:0', global: true },
+    vertex: { model: 'claude-opus-4-5@20251101', global: true },
+    premium: { regional: true },
+  },
   spec: {
     cost: {
       time: {
@@ -267,6 +460,10 @@ const CONFIG_OPUS_V4_5: BrainAtomConfig = {
         cache: {
           get: dividePrice({ of: '$0.50', by: 1_000_000 }), // $0.50/MTok cache read
           set: dividePrice({ of: '$6.25', by: 1_000_000 }), // $6.25/MTok cache write (5min)
+          setByTtl: {
+            '5m': dividePrice({ of: '$6.25', by: 1_000_000 }), // $6.25/MTok cache write (5min)
+            '1h': dividePrice({ of: '$10', by: 1_000_000 }), // $10/MTok cache write (1h)
+          },
         },
         input: dividePrice({ of: '$5', by: 1_000_000 }), // $5/MTok input
         output: dividePrice({ of: '$25', by: 1_000_000 }), // $25/MTok output
@@ -302,6 +499,7 @@ export const CONFIG_BY_ATOM_SLUG: Record<
   // aliases (reference concrete versions)
   'claude/haiku': CONFIG_HAIKU_V4_5,
   'claude/sonnet': CONFIG_SONNET_V4_5,
+  'claude/sonnet/1m': CONFIG_SONNET_V4_5_1M,
   'claude/opus': CONFIG_OPUS_V4_5,
 
   // concrete versions
@@ -309,6 +507,8 @@ export const CONFIG_BY_ATOM_SLUG: Record<
   'claude/haiku/v4.5': CONFIG_HAIKU_V4_5,
   'claude/sonnet/v4': CONFIG_SONNET_V4,
   'claude/sonnet/v4.5': CONFIG_SONNET_V4_5,
+  'claude/sonnet/v4/1m': CONFIG_SONNET_V4_1M,
+  'claude/sonnet/v4.5/1m': CONFIG_SONNET_V4_5_1M,
   'claude/opus/v4': CONFIG_OPUS_V4,
   'claude/opus/v4.5': CONFIG_OPUS_V4_5,
 };
@@ -0,0 +1,47 @@
+import { BadRequestError } from 'helpful-errors';
+
+import {
+  type BrainAtomInferenceOptions,
+  castIntoAnthropicInferenceParams,
+} from '../../infra/cast/castIntoAnthropicInferenceParams';
+import type {
+  AnthropicBrainAtomSlug,
+  BrainAtomConfig,
+} from './BrainAtom.config';
+
+/**
+ * .what = validates the thinking and default options of an atom against its model
+ * .why = fail-fast at setup, for atoms and batches alike, rather than on the first ask
+ *
+ * .note = extended thinking must be supported by the model, with native structured outputs, and meet the api minimum budget
+ */
+export const assertBrainAtomSetup = (input: {
+  slug: AnthropicBrainAtomSlug;
+  config: BrainAtomConfig;
+  thinking: { budget: { tokens: number } } | null;
+  options?: BrainAtomInferenceOptions;
+}): void => {
+  if (input.thinking && !input.config.supports.thinking)
+    throw new BadRequestError(
+      'extended thinking is not supported by this model. use a sonnet, opus, or haiku 4.5 atom instead.',
+      { slug: input.slug, model: input.config.model },
+    );
+  if (input.thinking && !input.config.supports.structured.outputs)
+    throw new BadRequestError(
+      'extended thinking is not supported on models without native structured outputs, since their output must be emitted via a forced tool. use a sonnet 4.5, opus 4.5, or haiku 4.5 atom instead.',
+      { slug: input.slug, model: input.config.model },
+    );
+  if (input.thinking && input.thinking.budget.tokens < 1024)
+    throw new BadRequestError(
+      'extended thinking budget must be at least 1024 tokens',
+      { slug: input.slug, budget: input.thinking.budget },
+    );
+
+  // default options must fit the model's limits
+  castIntoAnthropicInferenceParams({
+    options: { atom: input.options },
+    limits: input.config.limits,
+    supports: input.config.supports,
+    thinking: input.thinking,
+  });
+};
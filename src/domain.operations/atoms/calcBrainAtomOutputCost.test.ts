@@ -0,0 +1,202 @@
+import { given, then, when } from 'test-fns';
+
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import { CONFIG_BY_ATOM_SLUG } from './BrainAtom.config';
+import { calcBrainAtomOutputCost } from './calcBrainAtomOutputCost';
+
+// $3.75/MTok cache write at 5m, $6/MTok cache write at 1h
+const cash = CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5'].spec.cost.cash;
+
+// $3/MTok input at most 200K input tokens, $6/MTok input above
+const cashContext1m =
+  CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5/1m'].spec.cost.cash;
+
+describe('calcBrainAtomOutputCost', () => {
+  given('[case1] cache writes at the 5m ttl', () => {
+    when('[t0] priced', () => {
+      then('it prices them at the 5m rate', () => {
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 0,
+                output: 0,
+                cache: { get: 0, set: 1_000_000 },
+              },
+              sets: { '5m': 1_000_000, '1h': 0 },
+            },
+          ],
+          cash,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(3.75);
+      });
+    });
+  });
+
+  given('[case2] cache writes at the 1h ttl', () => {
+    when('[t0] priced', () => {
+      then('it prices them at the 1h rate', () => {
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 0,
+                output: 0,
+                cache: { get: 0, set: 1_000_000 },
+              },
+              sets: { '5m': 0, '1h': 1_000_000 },
+            },
+          ],
+          cash,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(6);
+      });
+    });
+  });
+
+  given('[case3] cache writes at both ttls', () => {
+    when('[t0] priced', () => {
+      then('it prices each at its own rate', () => {
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 0,
+                output: 0,
+                cache: { get: 0, set: 2_000_000 },
+              },
+              sets: { '5m': 1_000_000, '1h': 1_000_000 },
+            },
+          ],
+          cash,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(9.75);
+      });
+    });
+  });
+
+  given('[case4] a spec without per-ttl prices', () => {
+    when('[t0] priced', () => {
+      then('it prices every write at cache.set', () => {
+        const { setByTtl: _, ...cache } = cash.cache;
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 0,
+                output: 0,
+                cache: { get: 0, set: 1_000_000 },
+              },
+              sets: { '5m': 0, '1h': 1_000_000 },
+            },
+          ],
+          cash: { ...cash, cache },
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(3.75);
+      });
+    });
+  });
+
+  given('[case5] a request at most at the tier threshold', () => {
+    when('[t0] priced', () => {
+      then('it prices it at the base prices', () => {
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: { input: 200_000, output: 0, cache: { get: 0, set: 0 } },
+              sets: { '5m': 0, '1h': 0 },
+            },
+          ],
+          cash: cashContext1m,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(0.6);
+      });
+    });
+  });
+
+  given('[case6] a request above the tier threshold', () => {
+    when('[t0] priced', () => {
+      then('it prices every token at the tiered prices', () => {
+        // input: 300K * $6/MTok = $1.80; output: 1K * $22.50/MTok = $0.0225
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 300_000,
+                output: 1_000,
+                cache: { get: 0, set: 0 },
+              },
+              sets: { '5m': 0, '1h': 0 },
+            },
+          ],
+          cash: cashContext1m,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(1.8225);
+      });
+    });
+
+    when('[t1] the threshold is crossed via cache reads', () => {
+      then('it prices every token at the tiered prices', () => {
+        // input: 1K * $6/MTok = $0.006; cache read: 250K * $0.60/MTok = $0.15
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 1_000,
+                output: 0,
+                cache: { get: 250_000, set: 0 },
+              },
+              sets: { '5m': 0, '1h': 0 },
+            },
+          ],
+          cash: cashContext1m,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(0.156);
+      });
+    });
+  });
+
+  given('[case7] several requests on either side of the threshold', () => {
+    when('[t0] priced', () => {
+      then('it prices each per its own tier', () => {
+        // below: 100K * $3/MTok = $0.30; above: 300K * $6/MTok = $1.80
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: { input: 100_000, output: 0, cache: { get: 0, set: 0 } },
+              sets: { '5m': 0, '1h': 0 },
+            },
+            {
+              tokens: { input: 300_000, output: 0, cache: { get: 0, set: 0 } },
+              sets: { '5m': 0, '1h': 0 },
+            },
+          ],
+          cash: cashContext1m,
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(2.1);
+      });
+    });
+  });
+
+  given('[case8] a spec with a regional premium', () => {
+    when('[t0] priced', () => {
+      then('it prices every token at the premium rate', () => {
+        // input: 1M * $3.30/MTok = $3.30; cache write (1h): 1M * $6.60/MTok = $6.60
+        const { cash: cost } = calcBrainAtomOutputCost({
+          usages: [
+            {
+              tokens: {
+                input: 1_000_000,
+                output: 0,
+                cache: { get: 0, set: 1_000_000 },
+              },
+              sets: { '5m': 0, '1h': 1_000_000 },
+            },
+          ],
+          cash: { ...cash, premium: { rate: 1.1 } },
+        });
+        expect(asPriceAmount({ price: cost.total })).toBeCloseTo(9.9);
+      });
+    });
+  });
+});
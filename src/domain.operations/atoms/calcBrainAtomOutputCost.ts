@@ -0,0 +1,92 @@
+import type { IsoPrice } from 'iso-price';
+import {
+  type BrainOutputMetrics,
+  type BrainSpec,
+  calcBrainOutputCost,
+} from 'rhachet';
+
+import type { BrainCacheSetTokens } from '../../infra/cast/castFromAnthropicCacheCreation';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import type { BrainAtomSpec } from './BrainAtom.config';
+
+/**
+ * .what = the token usage of one request
+ * .why = tiers are decided per request, so usages are priced one by one
+ */
+export type BrainAtomUsage = {
+  tokens: BrainOutputMetrics['size']['tokens'];
+  sets: BrainCacheSetTokens;
+};
+
+/**
+ * .what = the prices an atom cost is computed from
+ * .why = a spec without per-ttl prices or tiers (e.g., of a foreign atom) may be priced too
+ */
+type BrainAtomCashPriceable = BrainSpec['cost']['cash'] & {
+  cache: Partial<Pick<BrainAtomSpec['cost']['cash']['cache'], 'setByTtl'>>;
+  tiered?: BrainAtomSpec['cost']['cash']['tiered'];
+  premium?: BrainAtomSpec['cost']['cash']['premium'];
+};
+
+/**
+ * .what = prices the tokens of one or more requests, with each cache write priced per its ttl and each request priced per its tier
+ * .why = calcBrainOutputCost knows a single price per kind of token, so 1h writes and long context requests would be underpriced
+ *
+ * .note = each usage is counted as the base-priced tokens which cost the same, so that the single price per kind prices them all
+ * .note = a request enters the tier once its input, cache reads and writes included, exceeds the threshold
+ * .note = a spec without per-ttl prices prices every write at cache.set
+ * .note = a premium multiplies every token, as if each were priced at the premium rate
+ */
+export const calcBrainAtomOutputCost = (input: {
+  usages: BrainAtomUsage[];
+  cash: BrainAtomCashPriceable;
+}): { cash: BrainOutputMetrics['cost']['cash'] } => {
+  const base = input.cash;
+  const premium = base.premium?.rate ?? 1;
+  const rate = (price: IsoPrice, of: IsoPrice): number =>
+    (asPriceAmount({ price }) / asPriceAmount({ price: of })) * premium;
+
+  // count each usage as base-priced tokens, at the prices of its tier
+  const tokens = input.usages.map(
+    (usage): BrainOutputMetrics['size']['tokens'] => {
+      const sizeInput =
+        usage.tokens.input + usage.tokens.cache.get + usage.tokens.cache.set;
+      const tier: BrainAtomCashPriceable =
+        base.tiered && sizeInput > base.tiered.above.tokens
+          ? base.tiered.cash
+          : base;
+      const setByTtl = tier.cache.setByTtl ?? {
+        '5m': tier.cache.set,
+        '1h': tier.cache.set,
+      };
+      return {
+        input: usage.tokens.input * rate(tier.input, base.input),
+        output: usage.tokens.output * rate(tier.output, base.output),
+        cache: {
+          get: usage.tokens.cache.get * rate(tier.cache.get, base.cache.get),
+          set:
+            usage.sets['5m'] * rate(setByTtl['5m'], base.cache.set) +
+            usage.sets['1h'] * rate(setByTtl['1h'], base.cache.set),
+        },
+      };
+    },
+  );
+
+  // price the sum at base prices; per-token prices are linear, so the price of the sum equals the sum of the prices
+  const sum = (
+    get: (tokens: BrainOutputMetrics['size']['tokens']) => number,
+  ): number => tokens.reduce((total, each) => total + get(each), 0);
+  return calcBrainOutputCost({
+    for: {
+      tokens: {
+        input: sum((each) => each.input),
+        output: sum((each) => each.output),
+        cache: {
+          get: sum((each) => each.cache.get),
+          set: sum((each) => each.cache.set),
+        },
+      },
+    },
+    with: { cost: { cash: base } },
+  });
+};
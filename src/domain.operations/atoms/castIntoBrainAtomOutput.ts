@@ -0,0 +1,250 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  type BrainEpisode,
+  type BrainOutput,
+  type BrainOutputMetrics,
+  genBrainContinuables,
+} from 'rhachet';
+import type { BrainPlugs } from 'rhachet/brains';
+import type { z } from 'zod';
+
+import {
+  BrainContextTooLongError,
+  BrainOutputTruncatedError,
+  BrainRefusalError,
+  BrainSchemaMismatchError,
+} from '../../domain.objects/BrainError';
+import {
+  type BrainCacheSetTokens,
+  castFromAnthropicCacheCreation,
+} from '../../infra/cast/castFromAnthropicCacheCreation';
+import { castFromAnthropicToolUse } from '../../infra/cast/castFromAnthropicToolUse';
+import { OUTPUT_TOOL_NAME } from '../../infra/cast/castIntoAnthropicOutputTool';
+import type { BrainRetryMetrics } from '../../infra/retry/invokeWithRetry';
+import type { BrainAtomSpec } from './BrainAtom.config';
+import {
+  type BrainAtomUsage,
+  calcBrainAtomOutputCost,
+} from './calcBrainAtomOutputCost';
+import type { BrainAtomThinkingObserver } from './genBrainAtom';
+import type {
+  BrainAtomAskRequest,
+  BrainAtomSetup,
+} from './genBrainAtomAskRequest';
+import type { BrainAtomCompactionMetrics } from './genBrainAtomEpisodeCompacted';
+import type { BrainAtomContextHeadroom } from './getBrainAtomContextHeadroom';
+
+/**
+ * .what = casts an anthropic response into the brain output of an atom ask
+ * .why = one translation of output, calls, thoughts, metrics, and episode, reused by ask and batch
+ *
+ * .note = cash is priced per the table given, so that batches may apply their discount
+ * .note = the usages of prior requests of the same ask (e.g., a compaction summary) are counted and priced into the metrics too
+ */
+export const castIntoBrainAtomOutput = async <
+  TOutput,
+  TPlugs extends BrainPlugs = BrainPlugs,
+>(input: {
+  atom: BrainAtomSetup;
+  ask: {
+    on?: { episode?: BrainEpisode; thinking?: BrainAtomThinkingObserver };
+    schema: { output: z.Schema<TOutput> };
+  };
+  request: Pick<BrainAtomAskRequest, 'chars' | 'exchange' | 'output'>;
+  response: Anthropic.Beta.Messages.BetaMessage & {
+    _request_id?: string | null;
+  };
+  metrics: {
+    elapsed: { milliseconds: number };
+    retries: BrainRetryMetrics;
+    headroom: BrainAtomContextHeadroom | null;
+    compaction: BrainAtomCompactionMetrics | null;
+    cash: BrainAtomSpec['cost']['cash'];
+    usages?: BrainAtomUsage[];
+  };
+}): Promise<BrainOutput<TOutput, 'atom', TPlugs>> => {
+  const { atom, ask, request, response } = input;
+
+  // fail-fast: refusals and context overflows leave no usable output
+  const failure = {
+    slug: atom.slug,
+    model: atom.config.model,
+    requestId: response._request_id ?? null,
+    stopReason: response.stop_reason,
+  };
+  if (response.stop_reason === 'refusal')
+    throw new BrainRefusalError('the model declined to respond', failure);
+  if (response.stop_reason === 'model_context_window_exceeded')
+    throw new BrainContextTooLongError(
+      'the response exceeded the context window of the model. shorten the prompt, briefs, or episode.',
+      failure,
+    );
+
+  // extract output and calls independently (they are NOT mutually exclusive)
+  // model may return both text output AND tool calls in the same response
+
+  // extract text block for structured output, or the output tool_use block if the output was emitted via tool
+  const textBlock = response.content.find(
+    (block): block is Anthropic.Beta.Messages.BetaTextBlock =>
+      block.type === 'text',
+  );
+  const outputToolBlock = response.content.find(
+    (block): block is Anthropic.Beta.Messages.BetaToolUseBlock =>
+      block.type === 'tool_use' && block.name === OUTPUT_TOOL_NAME,
+  );
+  const outputBlock =
+    request.output.via === 'tool' ? outputToolBlock : textBlock;
+  const outputText =
+    outputBlock?.type === 'tool_use'
+      ? JSON.stringify(outputBlock.input)
+      : outputBlock?.text;
+  const output = outputText
+    ? (() => {
+        try {
+          return ask.schema.output.parse(JSON.parse(outputText));
+        } catch (error) {
+          if (!(error instanceof Error)) throw error;
+          if (response.stop_reason === 'max_tokens')
+            throw new BrainOutputTruncatedError(
+              'the output was cut off at max tokens before it was complete. raise options.maxTokens or shorten the expected output.',
+              { ...failure, cause: error },
+            );
+          throw new BrainSchemaMismatchError(
+            'the output did not match the requested schema',
+            { ...failure, cause: error },
+          );
+        }
+      })()
+    : null;
+
+  // extract thinking blocks and expose them to the observer, if requested
+  const thinkingBlocks = response.content.filter(
+    (
+      block,
+    ): block is
+      | Anthropic.Beta.Messages.BetaThinkingBlock
+      | Anthropic.Beta.Messages.BetaRedactedThinkingBlock =>
+      block.type === 'thinking' || block.type === 'redacted_thinking',
+  );
+  if (ask.on?.thinking)
+    for (const block of thinkingBlocks)
+      ask.on.thinking(
+        block.type === 'thinking'
+          ? { redacted: false, text: block.thinking }
+          : { redacted: true, text: null },
+      );
+  const thinkingCharCount = thinkingBlocks.reduce(
+    (sum, block) =>
+      sum + (block.type === 'thinking' ? block.thinking.length : 0),
+    0,
+  );
+
+  // extract tool_use blocks for tool calls, except the output tool
+  const toolUseBlocks = response.content.filter(
+    (block): block is Anthropic.Messages.ToolUseBlock =>
+      block.type === 'tool_use' && block.name !== OUTPUT_TOOL_NAME,
+  );
+  const calls =
+    toolUseBlocks.length > 0
+      ? {
+          tools: toolUseBlocks.map((block) =>
+            castFromAnthropicToolUse({ block }),
+          ),
+        }
+      : null;
+
+  // compute metrics from response usage, plus that of prior requests
+  // note: thinking tokens are billed as output tokens, so usage.output_tokens already includes them
+  const usage = response.usage;
+  const usages: BrainAtomUsage[] = [
+    {
+      tokens: {
+        input: usage.input_tokens,
+        output: usage.output_tokens,
+        cache: {
+          get: usage.cache_read_input_tokens ?? 0,
+          set: usage.cache_creation_input_tokens ?? 0,
+        },
+      },
+      sets: castFromAnthropicCacheCreation({ usage }),
+    },
+    ...(input.metrics.usages ?? []),
+  ];
+  const sum = (get: (usage: BrainAtomUsage) => number): number =>
+    usages.reduce((total, usage) => total + get(usage), 0);
+  const size: BrainOutputMetrics['size'] = {
+    tokens: {
+      input: sum((usage) => usage.tokens.input),
+      output: sum((usage) => usage.tokens.output),
+      cache: {
+        get: sum((usage) => usage.tokens.cache.get),
+        set: sum((usage) => usage.tokens.cache.set),
+      },
+    },
+    chars: {
+      input: request.chars.input,
+      output: calls
+        ? JSON.stringify(response.content).length
+        : (outputText?.length ?? 0) + thinkingCharCount,
+      cache: { get: 0, set: 0 },
+    },
+  };
+
+  // calculate cash cost, with cache writes priced per their ttl and each request per its tier
+  const sets: BrainCacheSetTokens = {
+    '5m': sum((usage) => usage.sets['5m']),
+    '1h': sum((usage) => usage.sets['1h']),
+  };
+  const { cash } = calcBrainAtomOutputCost({
+    usages,
+    cash: input.metrics.cash,
+  });
+
+  const metrics: BrainOutputMetrics & {
+    cache: { set: { tokens: BrainCacheSetTokens } };
+    retries: BrainRetryMetrics;
+    headroom: BrainAtomContextHeadroom | null;
+    compaction: BrainAtomCompactionMetrics | null;
+  } = {
+    size,
+    cost: {
+      time: input.metrics.elapsed,
+      cash,
+    },
+    cache: { set: { tokens: sets } },
+    retries: input.metrics.retries,
+    headroom: input.metrics.headroom,
+    compaction: input.metrics.compaction,
+  };
+
+  // serialize exchange output for episode
+  // note: on tool calls, the full content is kept so that thinking + redacted_thinking blocks (with signatures)
+  //       replay verbatim; the api requires them to precede tool_use blocks when tool results continue the turn
+  // note: the output tool_use block is never kept, since no tool_result ever answers it; the output is kept as text instead
+  const exchangeOutput = calls
+    ? JSON.stringify(
+        response.content.filter((block) => block !== outputToolBlock),
+      )
+    : (outputText ?? '{}');
+
+  // generate continuables for episode
+  const continuables = await genBrainContinuables({
+    for: { grain: 'atom' },
+    on: { episode: ask.on?.episode ?? null },
+    with: {
+      exchange: {
+        input: request.exchange.input,
+        output: exchangeOutput,
+        exid: response.id,
+      },
+      episode: { exid: null },
+    },
+  });
+
+  return {
+    output,
+    calls,
+    metrics,
+    ...continuables,
+  } as BrainOutput<TOutput, 'atom', TPlugs>;
+};
@@ -7,7 +7,20 @@ import { getError, given, then, useThen, when } from 'test-fns';
 import { z } from 'zod';
 
 import { TEST_ASSETS_DIR } from '../../.test/assets/dir';
-import { genBrainAtom } from './genBrainAtom';
+import { genStandInServer } from '../../.test/genStandInServer';
+import {
+  BrainAuthInvalidError,
+  BrainBudgetExceededError,
+  BrainContextTooLongError,
+  type BrainError,
+} from '../../domain.objects/BrainError';
+import { OUTPUT_TOOL_NAME } from '../../infra/cast/castIntoAnthropicOutputTool';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import {
+  type BrainAtomStreamEvent,
+  type BrainAtomThought,
+  genBrainAtom,
+} from './genBrainAtom';
 
 const BRIEFS_DIR = path.join(TEST_ASSETS_DIR, '/example.briefs');
 const outputSchema = z.object({ content: z.string() });
@@ -23,7 +36,7 @@ describe('genBrainAtom.integration', () => {
   // use haiku for fast integration tests
   const brainAtomHaiku = genBrainAtom({ slug: 'claude/haiku' });
 
-  // use sonnet for continuation tests (haiku doesn't support it with structured outputs)
+  // use sonnet for continuation tests with native structured outputs (haiku continuations emit the output via tool)
   const brainAtomSonnet = genBrainAtom({ slug: 'claude/sonnet' });
 
   given('[case1] genBrainAtom({ slug: "claude/haiku" })', () => {
@@ -142,31 +155,93 @@ describe('genBrainAtom.integration', () => {
     });
   });
 
-  given('[case4] episode continuation with haiku (fail-fast)', () => {
+  given('[case4] episode continuation with haiku', () => {
     when('[t0] continuation is attempted with haiku', () => {
-      then('it throws BadRequestError', async () => {
+      const resultSecond = useThen('it succeeds', async () => {
         // first, get an episode from a haiku call
         const resultFirst = await brainAtomHaiku.ask({
           role: {},
-          prompt: 'say hello',
+          prompt: 'remember this code: MANGO77. respond with ok.',
           schema: { output: outputSchema },
         });
 
-        // then, attempt continuation with the same haiku atom
-        const error = await getError(
-          brainAtomHaiku.ask({
-            on: { episode: resultFirst.episode },
-            role: {},
-            prompt: 'what did you say?',
-            schema: { output: outputSchema },
-          }),
-        );
+        // then, continue with the same haiku atom
+        return brainAtomHaiku.ask({
+          on: { episode: resultFirst.episode },
+          role: {},
+          prompt: 'what was the code i told you to remember?',
+          schema: { output: outputSchema },
+        });
+      });
 
-        expect(error).toBeInstanceOf(BadRequestError);
-        expect(error.message).toContain('haiku');
-        expect(error.message).toContain('continuation');
+      then('output conforms to schema', () => {
+        expect(typeof resultSecond.output.content).toEqual('string');
+      });
+
+      then('it remembers the prior exchange', () => {
+        expect(resultSecond.output.content).toContain('MANGO77');
+      });
+
+      then('the output is not surfaced as a tool call', () => {
+        expect(resultSecond.calls).toBeNull();
+      });
+
+      then('episode accumulates exchanges', () => {
+        expect(resultSecond.episode.exchanges).toHaveLength(2);
+      });
+    });
+
+    when('[t1] continuation with tools is attempted with haiku', () => {
+      const resultFinal = useThen('it succeeds', async () => {
+        const result1 = await brainAtomHaiku.ask({
+          role: {},
+          prompt: 'multiply 7 by 8 with the calculator.',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+        const invocation = result1.calls?.tools[0];
+        if (!invocation) throw new Error('no tool invocation');
+        const execution = await calculatorTool.execute({ invocation }, {});
+        return brainAtomHaiku.ask({
+          on: { episode: result1.episode },
+          role: {},
+          prompt: [execution],
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      then('output conforms to schema', () => {
+        expect(resultFinal.output?.answer).toEqual(56);
       });
     });
+
+    when(
+      '[t2] continuation with extended thinking is attempted with haiku',
+      () => {
+        then('it throws BadRequestError', async () => {
+          const brainAtomHaikuThinking = genBrainAtom({
+            slug: 'claude/haiku',
+            thinking: { budget: { tokens: 1024 } },
+          });
+          const resultFirst = await brainAtomHaikuThinking.ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          });
+          const error = await getError(
+            brainAtomHaikuThinking.ask({
+              on: { episode: resultFirst.episode },
+              role: {},
+              prompt: 'what did you say?',
+              schema: { output: outputSchema },
+            }),
+          );
+          expect(error).toBeInstanceOf(BadRequestError);
+          expect(error.message).toContain('extended thinking');
+        });
+      },
+    );
   });
 
   // =========================================================================
@@ -541,4 +616,700 @@ describe('genBrainAtom.integration', () => {
       });
     });
   });
+
+  given('[case14] ask with on.stream observer', () => {
+    when('[t0] ask is called with a stream observer', () => {
+      const events: BrainAtomStreamEvent[] = [];
+      const result = useThen('it succeeds', async () =>
+        brainAtomHaiku.ask({
+          on: { stream: (event) => events.push(event) },
+          role: {},
+          prompt: 'write a haiku about the sea',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it emits text deltas', () => {
+        const texts = events.filter((event) => event.type === 'text');
+        expect(texts.length).toBeGreaterThan(0);
+      });
+
+      then('it emits partial output snapshots', () => {
+        const partials = events.filter((event) => event.type === 'output');
+        expect(partials.length).toBeGreaterThan(0);
+      });
+
+      then('it resolves to the same output shape as without stream', () => {
+        expect(result.output.content.length).toBeGreaterThan(0);
+        expect(result.metrics.size.tokens.output).toBeGreaterThan(0);
+        expect(result.episode.exchanges).toHaveLength(1);
+      });
+    });
+
+    when('[t1] brain requests a tool while streamed', () => {
+      const events: BrainAtomStreamEvent[] = [];
+      const result = useThen('it succeeds', async () =>
+        brainAtomSonnet.ask({
+          on: { stream: (event) => events.push(event) },
+          role: {},
+          prompt: 'use the calculator to compute 47 * 89. call the tool.',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        }),
+      );
+
+      then('it emits a tool event per invocation', () => {
+        const tools = events.filter((event) => event.type === 'tool');
+        expect(tools).toHaveLength(result.calls?.tools.length ?? 0);
+      });
+    });
+  });
+
+  given('[case15] extended thinking with sonnet', () => {
+    const brainAtomThinker = genBrainAtom({
+      slug: 'claude/sonnet',
+      thinking: { budget: { tokens: 2048 } },
+    });
+
+    when('[t0] ask is called with an on.thinking observer', () => {
+      const thoughts: BrainAtomThought[] = [];
+      const result = useThen('it succeeds', async () =>
+        brainAtomThinker.ask({
+          on: { thinking: (thought) => thoughts.push(thought) },
+          role: {},
+          prompt: 'what is 17 * 23? put the answer in the content field.',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it returns the answer', () => {
+        expect(result.output.content).toContain('391');
+      });
+
+      then('it exposes the thoughts', () => {
+        expect(thoughts.length).toBeGreaterThan(0);
+      });
+    });
+
+    when('[t1] tool result continuation is called with thinking', () => {
+      const resultFinal = useThen('flow completes', async () => {
+        const result1 = await brainAtomThinker.ask({
+          role: {},
+          prompt: 'use the calculator to multiply 12 by 34.',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+        const invocation = result1.calls?.tools[0];
+        if (!invocation) throw new Error('no tool invocation');
+        const execution = await calculatorTool.execute({ invocation }, {});
+        return brainAtomThinker.ask({
+          on: { episode: result1.episode },
+          prompt: [execution],
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+          role: {},
+        });
+      });
+
+      then('thinking blocks replay and the answer is correct', () => {
+        expect(resultFinal.output!.answer).toEqual(408);
+      });
+    });
+  });
+
+  given('[case16] extended thinking with haiku v3.5', () => {
+    when('[t0] the atom is generated', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          genBrainAtom({
+            slug: 'claude/haiku/v3.5',
+            thinking: { budget: { tokens: 2048 } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('thinking');
+      });
+    });
+  });
+
+  given('[case17] ask with media attached', () => {
+    const MEDIA_DIR = path.join(TEST_ASSETS_DIR, '/example.media');
+
+    when('[t0] an image is attached by path', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomHaiku.ask({
+          role: {},
+          prompt: {
+            text: 'what color is this image? answer in one word in the content field.',
+            media: [{ path: path.join(MEDIA_DIR, 'red-square.png') }],
+          },
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it sees the image', () => {
+        expect(result.output.content.toLowerCase()).toContain('red');
+      });
+    });
+
+    when(
+      '[t1] a pdf is attached by artifact, then the episode continues',
+      () => {
+        const resultFirst = useThen('first ask succeeds', async () =>
+          brainAtomSonnet.ask({
+            role: {},
+            prompt: {
+              text: 'read this document. respond with "document read"',
+              media: [
+                {
+                  artifact: genArtifactGitFile({
+                    uri: path.join(MEDIA_DIR, 'secret-word.pdf'),
+                  }),
+                },
+              ],
+            },
+            schema: { output: outputSchema },
+          }),
+        );
+
+        const resultSecond = useThen('continuation succeeds', async () =>
+          brainAtomSonnet.ask({
+            on: { episode: resultFirst.episode },
+            role: {},
+            prompt: 'what was the secret word in the document?',
+            schema: { output: outputSchema },
+          }),
+        );
+
+        then('the document replays from the episode', () => {
+          expect(resultSecond.output.content.toUpperCase()).toContain(
+            'PELICAN',
+          );
+        });
+      },
+    );
+  });
+
+  given('[case18] inference options', () => {
+    const brainAtomTerse = genBrainAtom({
+      slug: 'claude/haiku',
+      options: { maxTokens: 256, temperature: 0.5 },
+    });
+
+    when('[t0] ask overrides the temperature via context', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomTerse.ask(
+          {
+            role: {},
+            prompt: 'classify "i love this" as positive or negative',
+            schema: { output: z.object({ label: z.string() }) },
+          },
+          { options: { temperature: 0 } },
+        ),
+      );
+
+      then('it returns output within the answer room', () => {
+        expect(result.output.label.toLowerCase()).toContain('positive');
+        expect(result.metrics.size.tokens.output).toBeLessThanOrEqual(256);
+      });
+    });
+
+    when('[t1] maxTokens exceeds the max output of the model', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          genBrainAtom({
+            slug: 'claude/haiku/v3.5',
+            options: { maxTokens: 20_000 },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('max output tokens');
+      });
+    });
+  });
+
+  given('[case19] context window preflight', () => {
+    const brainAtomChecked = genBrainAtom({
+      slug: 'claude/haiku',
+      preflight: true,
+    });
+
+    when('[t0] the prompt fits', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomChecked.ask({
+          role: {},
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it reports the headroom left in the context window', () => {
+        expect(result.metrics.headroom.tokens.context).toEqual(200_000);
+        expect(result.metrics.headroom.tokens.input).toBeGreaterThan(0);
+        expect(result.metrics.headroom.tokens.headroom).toBeGreaterThan(0);
+      });
+    });
+
+    when('[t1] the prompt overflows the context window', () => {
+      then('it throws BrainContextTooLongError before the call', async () => {
+        const error = await getError(() =>
+          brainAtomChecked.ask({
+            role: {},
+            prompt: 'hello world '.repeat(150_000),
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainContextTooLongError);
+        expect(error.message).toContain('after room for output');
+      });
+    });
+
+    when('[t2] preflight is disabled via context', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomChecked.ask(
+          {
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          },
+          { preflight: false },
+        ),
+      );
+
+      then('it reports no headroom', () => {
+        expect(result.metrics.headroom).toBeNull();
+      });
+    });
+  });
+
+  given('[case20] episode compaction', () => {
+    const brainAtomSonnet = genBrainAtom({ slug: 'claude/sonnet' });
+
+    when('[t0] the episode exceeds a tiny threshold', () => {
+      const resultFirst = useThen('first ask succeeds', async () =>
+        brainAtomSonnet.ask({
+          role: {},
+          prompt: 'remember that the secret color is teal. reply with ok.',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      const resultSecond = useThen('second ask succeeds', async () =>
+        brainAtomSonnet.ask({
+          on: { episode: resultFirst.episode },
+          role: {},
+          prompt: 'remember that the secret animal is otter. reply with ok.',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      const resultTruncated = useThen('truncated ask succeeds', async () =>
+        genBrainAtom({
+          slug: 'claude/sonnet',
+          compaction: {
+            strategy: 'truncate',
+            threshold: 0.0005,
+            keep: { exchanges: 1 },
+          },
+        }).ask({
+          on: { episode: resultSecond.episode },
+          role: {},
+          prompt: 'what is the secret animal?',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('truncate drops the oldest exchange and links back', () => {
+        expect(resultTruncated.metrics.compaction).toMatchObject({
+          strategy: 'truncate',
+          from: { episode: { hash: resultSecond.episode.hash } },
+          exchanges: { dropped: 1, kept: 1 },
+          summary: null,
+        });
+        expect(resultTruncated.episode.exchanges).toHaveLength(2);
+        expect(resultTruncated.output.content.toLowerCase()).toContain('otter');
+      });
+
+      const resultSummarized = useThen('summarized ask succeeds', async () =>
+        genBrainAtom({
+          slug: 'claude/sonnet',
+          compaction: {
+            strategy: 'summarize',
+            threshold: 0.0005,
+            keep: { exchanges: 1 },
+          },
+        }).ask({
+          on: { episode: resultSecond.episode },
+          role: {},
+          prompt: 'what is the secret color?',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('summarize keeps the dropped facts in a summary exchange', () => {
+        expect(resultSummarized.metrics.compaction).toMatchObject({
+          strategy: 'summarize',
+          exchanges: { dropped: 1, kept: 1 },
+        });
+        expect(resultSummarized.episode.exchanges).toHaveLength(3);
+        expect(resultSummarized.output.content.toLowerCase()).toContain('teal');
+      });
+    });
+  });
+
+  given('[case21] tool choice', () => {
+    when('[t0] a tool is forced on a prompt which needs none', () => {
+      const result = useThen('ask succeeds', async () =>
+        brainAtomSonnet.ask({
+          role: {},
+          prompt: 'say hello.',
+          schema: { output: outputSchema },
+          plugs: { tools: [calculatorTool] },
+          choice: { tool: { slug: 'test_calculator' } },
+        }),
+      );
+
+      then('the forced tool is called', () => {
+        expect(result.output).toBeNull();
+        expect(result.calls?.tools[0]?.slug).toEqual('test_calculator');
+      });
+    });
+
+    when('[t1] parallel tool use is disabled', () => {
+      const result = useThen('ask succeeds', async () =>
+        brainAtomSonnet.ask({
+          role: {},
+          prompt:
+            'i need TWO calculations done: add 10+20 AND multiply 5*6. use the calculator tool for both. call both tools in parallel.',
+          schema: {
+            output: z.object({ sum: z.number(), product: z.number() }),
+          },
+          plugs: { tools: [calculatorTool] },
+          choice: { tool: 'any', parallel: false },
+        }),
+      );
+
+      then('only one tool is called', () => {
+        expect(result.calls?.tools).toHaveLength(1);
+      });
+    });
+
+    when('[t2] tools are forbidden for the turn', () => {
+      const result = useThen('ask succeeds', async () =>
+        brainAtomSonnet.ask({
+          role: {},
+          prompt: 'multiply 7 by 8 with the calculator.',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+          choice: { tool: 'none' },
+        }),
+      );
+
+      then('no tool is called', () => {
+        expect(result.calls).toBeNull();
+        expect(result.output?.answer).toEqual(56);
+      });
+    });
+
+    when('[t3] the forced tool is not plugged in', () => {
+      then('it fails fast', async () => {
+        const error = await getError(async () =>
+          brainAtomSonnet.ask({
+            role: {},
+            prompt: 'say hello.',
+            schema: { output: outputSchema },
+            plugs: { tools: [calculatorTool] },
+            choice: { tool: { slug: 'test_search' } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('not in plugs.tools');
+      });
+    });
+  });
+
+  given('[case22] a model without native structured outputs', () => {
+    const brainAtomSonnetV4 = genBrainAtom({ slug: 'claude/sonnet/v4' });
+
+    when('[t0] ask is called', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomSonnetV4.ask({
+          role: {},
+          prompt: 'remember this code: MANGO77. respond with ok.',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('output conforms to schema', () => {
+        expect(typeof result.output.content).toEqual('string');
+      });
+
+      then('the output is not surfaced as a tool call', () => {
+        expect(result.calls).toBeNull();
+      });
+
+      then('the episode keeps the output as text', () => {
+        expect(JSON.parse(result.episode.exchanges[0]!.output)).toEqual(
+          result.output,
+        );
+      });
+    });
+
+    when('[t1] the episode is continued', () => {
+      const result = useThen('it succeeds', async () => {
+        const resultFirst = await brainAtomSonnetV4.ask({
+          role: {},
+          prompt: 'remember this code: MANGO77. respond with ok.',
+          schema: { output: outputSchema },
+        });
+        return brainAtomSonnetV4.ask({
+          on: { episode: resultFirst.episode },
+          role: {},
+          prompt: 'what was the code i told you to remember?',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it remembers the prior exchange', () => {
+        expect(result.output.content).toContain('MANGO77');
+      });
+    });
+
+    when('[t2] the atom is declared with extended thinking', () => {
+      then('it fails fast', async () => {
+        const error = await getError(async () =>
+          genBrainAtom({
+            slug: 'claude/sonnet/v4',
+            thinking: { budget: { tokens: 2000 } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('native structured outputs');
+      });
+    });
+  });
+
+  given('[case23] a cash budget', () => {
+    when('[t0] the budget covers only a short output', () => {
+      const result = useThen('it completes', async () =>
+        getError(async () =>
+          brainAtomHaiku.ask(
+            {
+              role: {},
+              prompt: 'write a 2000 word essay about the sea',
+              schema: { output: outputSchema },
+            },
+            { budget: { cash: '$0.002' } },
+          ),
+        ),
+      );
+
+      then('the output is cut off within the budget', () => {
+        expect(result).toBeInstanceOf(Error);
+        expect((result as BrainError).kind).toEqual('output-truncated');
+      });
+    });
+
+    when('[t1] the input alone exceeds the budget', () => {
+      then('it fails fast with a budget-exceeded error', async () => {
+        const error = await getError(async () =>
+          brainAtomHaiku.ask(
+            {
+              role: {},
+              prompt: 'respond with exactly: hello world',
+              schema: { output: outputSchema },
+            },
+            { budget: { cash: '$0.0000001' } },
+          ),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+        expect(error.message).toContain('input alone');
+      });
+    });
+
+    when('[t2] the budget covers the output', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomHaiku.ask(
+          {
+            role: {},
+            prompt: 'respond with exactly: hello world',
+            schema: { output: outputSchema },
+          },
+          { budget: { cash: '$0.10' } },
+        ),
+      );
+
+      then('it returns the output', () => {
+        expect(result.output.content.toLowerCase()).toContain('hello');
+      });
+    });
+  });
+
+  given('[case24] a long context slug', () => {
+    const brainAtomContext1m = genBrainAtom({
+      slug: 'claude/sonnet/1m',
+      preflight: true,
+    });
+
+    when('[t0] ask is called', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomContext1m.ask({
+          role: {},
+          prompt: 'respond with exactly: hello world',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it reports the 1m token context window', () => {
+        expect(result.metrics.headroom.tokens.context).toEqual(1_000_000);
+      });
+
+      then('it prices the request at the base prices, below the tier', () => {
+        expect(result.output.content.toLowerCase()).toContain('hello');
+        expect(result.metrics.cost.cash.total).toBeDefined();
+      });
+    });
+  });
+
+  given('[case25] client options', () => {
+    const brainAtomTenant = genBrainAtom({
+      slug: 'claude/haiku',
+      client: { apiKey: 'sk-ant-invalid', headers: { 'x-tenant': 'test' } },
+      retry: false,
+    });
+
+    when('[t0] the atom options carry an invalid api key', () => {
+      then('it throws BrainAuthInvalidError', async () => {
+        const error = await getError(async () =>
+          brainAtomTenant.ask({
+            role: {},
+            prompt: 'respond with exactly: hello world',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainAuthInvalidError);
+      });
+    });
+
+    when('[t1] the call overrides the api key', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomTenant.ask(
+          {
+            role: {},
+            prompt: 'respond with exactly: hello world',
+            schema: { output: outputSchema },
+          },
+          { client: { apiKey: process.env.ANTHROPIC_API_KEY } },
+        ),
+      );
+
+      then('it answers via the client of the call', () => {
+        expect(result.output.content.toLowerCase()).toContain('hello');
+      });
+    });
+  });
+
+  given('[case26] cloud backends, against a local stand-in server', () => {
+    // answers with the output tool, since structured output is emulated on cloud backends
+    const respond = () => ({
+      id: 'msg_standin',
+      type: 'message',
+      role: 'assistant',
+      model: 'stand-in',
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_standin',
+          name: OUTPUT_TOOL_NAME,
+          input: { content: 'hello world' },
+        },
+      ],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 1_000, output_tokens: 10 },
+    });
+    let standIn: Awaited<ReturnType<typeof genStandInServer>>;
+    beforeAll(async () => {
+      standIn = await genStandInServer({ respond });
+    });
+    afterAll(() => standIn.server.close());
+
+    when('[t0] asked via bedrock', () => {
+      const result = useThen('it succeeds', async () =>
+        genBrainAtom({
+          slug: 'claude/sonnet',
+          client: { baseURL: standIn.baseURL },
+          backend: { provider: 'bedrock', skipAuth: true },
+        }).ask({
+          role: {},
+          prompt: 'respond with exactly: hello world',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it invokes the bedrock model id of the slug', () => {
+        expect(result.output.content).toEqual('hello world');
+        expect(standIn.requests.at(-1)!.url).toEqual(
+          '/model/global.anthropic.claude-sonnet-4-5-20250929-v1:0/invoke',
+        );
+      });
+
+      then('it emits the output via the forced output tool', () => {
+        const { body } = standIn.requests.at(-1)!;
+        expect(body.output_format).toBeUndefined();
+        expect(body.tool_choice).toEqual({
+          type: 'tool',
+          name: OUTPUT_TOOL_NAME,
+        });
+      });
+    });
+
+    when('[t1] asked via a regional vertex endpoint', () => {
+      const atom = genBrainAtom({
+        slug: 'claude/sonnet',
+        client: { baseURL: standIn.baseURL },
+        backend: {
+          provider: 'vertex',
+          region: 'us-east5',
+          projectId: 'demo',
+          accessToken: 'ya29.test',
+        },
+      });
+      const result = useThen('it succeeds', async () =>
+        atom.ask({
+          role: {},
+          prompt: 'respond with exactly: hello world',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it invokes the vertex model id of the slug', () => {
+        expect(result.output.content).toEqual('hello world');
+        expect(standIn.requests.at(-1)!.url).toEqual(
+          '/projects/demo/locations/us-east5/publishers/anthropic/models/claude-sonnet-4-5@20250929:rawPredict',
+        );
+      });
+
+      then('it prices the call with the regional premium', () => {
+        // input: 1000 * $3.30/MTok = $0.0033; output: 10 * $16.50/MTok = $0.000165
+        expect(
+          asPriceAmount({ price: result.metrics.cost.cash.total }),
+        ).toBeCloseTo(0.003465, 6);
+      });
+    });
+
+    when('[t2] declared on bedrock with preflight', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          genBrainAtom({
+            slug: 'claude/sonnet',
+            backend: { provider: 'bedrock' },
+            preflight: true,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('can not count tokens');
+      });
+    });
+  });
 });
@@ -0,0 +1,776 @@
+import path from 'path';
+import { genBrainPlugToolDeclaration } from 'rhachet/brains';
+import { genArtifactGitFile } from 'rhachet-artifact-git';
+import { getError, given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import { TEST_ASSETS_DIR } from '../../.test/assets/dir';
+import {
+  genStandInServer,
+  type StandInServer,
+} from '../../.test/genStandInServer';
+import { useTestSpanExporter } from '../../.test/useTestSpanExporter';
+import {
+  BrainBudgetExceededError,
+  BrainOverloadedError,
+} from '../../domain.objects/BrainError';
+import { OUTPUT_TOOL_NAME } from '../../infra/cast/castIntoAnthropicOutputTool';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import {
+  type BrainAtomObserverEvent,
+  type BrainAtomObservers,
+  type BrainAtomStreamEvent,
+  genBrainAtom,
+} from './genBrainAtom';
+
+const BRIEFS_DIR = path.join(TEST_ASSETS_DIR, '/example.briefs');
+const outputSchema = z.object({ content: z.string() });
+
+const calculatorTool = genBrainPlugToolDeclaration({
+  slug: 'test_calculator',
+  name: 'Calculator',
+  description: 'multiplies two numbers',
+  schema: {
+    input: z.object({ a: z.number(), b: z.number() }),
+    output: z.object({ result: z.number() }),
+  },
+  execute: async ({ invocation }) => ({
+    result: invocation.input.a * invocation.input.b,
+  }),
+});
+
+describe('genBrainAtom', () => {
+  const fake = {} as StandInServer;
+  beforeAll(async () => {
+    Object.assign(fake, await genStandInServer());
+  });
+  afterAll(() => fake.close());
+
+  // caches nothing, so that requests read exactly as asked
+  const genAtom = (input?: Partial<Parameters<typeof genBrainAtom>[0]>) =>
+    genBrainAtom({
+      slug: 'claude/sonnet',
+      cache: false,
+      retry: false,
+      client: { baseURL: fake.baseURL, apiKey: 'sk-ant-fake' },
+      ...input,
+    });
+
+  given('[case1] an ask with briefs, against native structured outputs', () => {
+    when('[t0] the fake replies with structured output text', () => {
+      const result = useThen('it succeeds', async () => {
+        fake.script({ content: [{ output: { content: 'hello world' } }] });
+        return genAtom().ask({
+          role: {
+            briefs: [
+              genArtifactGitFile({
+                uri: path.join(BRIEFS_DIR, 'secret-code.brief.md'),
+              }),
+            ],
+          },
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it parses the output', () => {
+        expect(result.output).toEqual({ content: 'hello world' });
+      });
+
+      then('it sent the briefs as system, and the prompt as message', () => {
+        const { body } = fake.requests.at(-1)!;
+        expect(JSON.stringify(body.system)).toContain('ZEBRA42');
+        expect(body.messages).toEqual([{ role: 'user', content: 'say hello' }]);
+      });
+
+      then('it declared the output format, behind its beta', () => {
+        const request = fake.requests.at(-1)!;
+        expect(request.betas).toContain('structured-outputs-2025-11-13');
+        expect(request.body.output_format).toBeDefined();
+        expect(request.body.tools).toBeUndefined();
+      });
+    });
+  });
+
+  given('[case2] an episode continued', () => {
+    when('[t0] a second ask continues the episode of the first', () => {
+      const result = useThen('it succeeds', async () => {
+        fake.script(
+          { content: [{ output: { content: 'code received' } }] },
+          { content: [{ output: { content: 'MANGO77' } }] },
+        );
+        const first = await genAtom().ask({
+          role: {},
+          prompt: 'remember the code MANGO77',
+          schema: { output: outputSchema },
+        });
+        return genAtom().ask({
+          on: { episode: first.episode },
+          role: {},
+          prompt: 'what was the code?',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it replays the prior exchange before the prompt', () => {
+        expect(fake.requests.at(-1)!.body.messages).toEqual([
+          { role: 'user', content: 'remember the code MANGO77' },
+          { role: 'assistant', content: '{"content":"code received"}' },
+          { role: 'user', content: 'what was the code?' },
+        ]);
+      });
+
+      then('it extends the episode by the new exchange', () => {
+        expect(result.episode.exchanges).toHaveLength(2);
+        expect(result.output).toEqual({ content: 'MANGO77' });
+      });
+    });
+  });
+
+  given('[case3] an ask with a tool plugged', () => {
+    when('[t0] the fake calls the tool, then answers from its result', () => {
+      const resultFirst = useThen('the first ask succeeds', async () => {
+        fake.script({
+          content: [
+            {
+              tool: {
+                id: 'toolu_calc',
+                name: 'test_calculator',
+                input: { a: 12, b: 34 },
+              },
+            },
+          ],
+        });
+        return genAtom().ask({
+          role: {},
+          prompt: 'multiply 12 by 34',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      const resultSecond = useThen('the continuation succeeds', async () => {
+        const invocation = resultFirst.calls!.tools[0]!;
+        const execution = await calculatorTool.execute({ invocation }, {});
+        fake.script({ content: [{ output: { answer: 408 } }] });
+        return genAtom().ask({
+          on: { episode: resultFirst.episode },
+          role: {},
+          prompt: [execution],
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      then('it casts the tool_use block into an invocation', () => {
+        expect(resultFirst.output).toBeNull();
+        expect(resultFirst.calls?.tools).toEqual([
+          {
+            exid: 'toolu_calc',
+            slug: 'test_calculator',
+            input: { a: 12, b: 34 },
+          },
+        ]);
+      });
+
+      then('it sent the tool, by slug', () => {
+        const { body } = fake.requests.at(-2)!;
+        expect(
+          body.tools!.map((tool) => ('name' in tool ? tool.name : null)),
+        ).toEqual(['test_calculator']);
+      });
+
+      then('it casts the execution into a tool_result block', () => {
+        const messages = fake.requests.at(-1)!.body.messages!;
+        expect(messages[1]!.content).toEqual([
+          expect.objectContaining({ type: 'tool_use', id: 'toolu_calc' }),
+        ]);
+        expect(messages[2]).toEqual({
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_calc',
+              content: '{"result":408}',
+              is_error: false,
+            },
+          ],
+        });
+        expect(resultSecond.output).toEqual({ answer: 408 });
+        expect(resultSecond.calls).toBeNull();
+      });
+    });
+  });
+
+  given('[case4] a reply with cache reads and 1h cache writes', () => {
+    when('[t0] asked', () => {
+      const result = useThen('it succeeds', async () => {
+        fake.script({
+          content: [{ output: { content: 'hi' } }],
+          usage: {
+            input_tokens: 1_000_000,
+            output_tokens: 100_000,
+            cache_read_input_tokens: 1_000_000,
+            cache_creation_input_tokens: 1_000_000,
+            cache_creation: {
+              ephemeral_5m_input_tokens: 0,
+              ephemeral_1h_input_tokens: 1_000_000,
+            },
+          },
+        });
+        return genAtom().ask({
+          role: {},
+          prompt: 'say hi',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it reports the tokens of the usage', () => {
+        expect(result.metrics.size.tokens).toEqual({
+          input: 1_000_000,
+          output: 100_000,
+          cache: { get: 1_000_000, set: 1_000_000 },
+        });
+      });
+
+      then('it prices each kind of token, and the writes per their ttl', () => {
+        // input: $3; output: $1.50; cache reads: $0.30; 1h cache writes: $6
+        expect(
+          asPriceAmount({ price: result.metrics.cost.cash.total }),
+        ).toBeCloseTo(10.8, 6);
+      });
+    });
+  });
+
+  given('[case5] an overloaded api', () => {
+    when('[t0] asked without retries', () => {
+      then('it throws BrainOverloadedError', async () => {
+        fake.script({ error: { status: 529, type: 'overloaded_error' } });
+        const error = await getError(async () =>
+          genAtom().ask({
+            role: {},
+            prompt: 'say hi',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+      });
+    });
+
+    when('[t1] asked with retries, and the overload clears', () => {
+      then('it succeeds on the retry', async () => {
+        const before = fake.requests.length;
+        fake.script(
+          { error: { status: 529, type: 'overloaded_error' } },
+          { content: [{ output: { content: 'hi' } }] },
+        );
+        const result = await genAtom({
+          retry: {
+            attempts: 2,
+            backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+          },
+        }).ask({
+          role: {},
+          prompt: 'say hi',
+          schema: { output: outputSchema },
+        });
+        expect(result.output).toEqual({ content: 'hi' });
+        expect(fake.requests.length - before).toEqual(2);
+      });
+    });
+  });
+
+  given('[case6] an ask with a stream observer', () => {
+    when('[t0] the fake streams the reply', () => {
+      const events: BrainAtomStreamEvent[] = [];
+      const result = useThen('it succeeds', async () => {
+        fake.script({ content: [{ output: { content: 'a streamed reply' } }] });
+        return genAtom().ask({
+          on: { stream: (event) => events.push(event) },
+          role: {},
+          prompt: 'say something',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it requested a stream', () => {
+        expect(fake.requests.at(-1)!.body.stream).toEqual(true);
+      });
+
+      then('it emits the text deltas, which add up to the output', () => {
+        const texts = events.flatMap((event) =>
+          event.type === 'text' ? [event] : [],
+        );
+        expect(texts.length).toBeGreaterThan(1);
+        expect(JSON.parse(texts.at(-1)!.snapshot)).toEqual(result.output);
+      });
+
+      then(
+        'it emits each distinct partial output, with partial strings',
+        () => {
+          const partials = events.flatMap((event) =>
+            event.type === 'output' ? [JSON.stringify(event.partial)] : [],
+          );
+          expect(new Set(partials).size).toEqual(partials.length);
+          expect(partials).toContain(JSON.stringify({ content: 'a st' }));
+          expect(partials.at(-1)).toEqual(JSON.stringify(result.output));
+        },
+      );
+    });
+
+    when('[t1] the fake streams the output via the output tool', () => {
+      const events: BrainAtomStreamEvent[] = [];
+      const result = useThen('it succeeds', async () => {
+        fake.script({
+          content: [
+            {
+              tool: {
+                name: OUTPUT_TOOL_NAME,
+                input: { content: 'a streamed reply' },
+              },
+            },
+          ],
+        });
+        return genAtom({ slug: 'claude/haiku/v3.5' }).ask({
+          on: { stream: (event) => events.push(event) },
+          role: {},
+          prompt: 'say something',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it emits no tool event for the output tool', () => {
+        expect(result.output).toEqual({ content: 'a streamed reply' });
+        expect(events.filter((event) => event.type === 'tool')).toEqual([]);
+      });
+
+      then(
+        'it emits each distinct partial output, from the input of the output tool',
+        () => {
+          const partials = events.flatMap((event) =>
+            event.type === 'output' ? [JSON.stringify(event.partial)] : [],
+          );
+          expect(new Set(partials).size).toEqual(partials.length);
+          expect(partials).toContain(JSON.stringify({ content: 'a st' }));
+          expect(partials.at(-1)).toEqual(JSON.stringify(result.output));
+        },
+      );
+    });
+
+    when('[t2] the fake streams a call of a plugged tool', () => {
+      const events: BrainAtomStreamEvent[] = [];
+      useThen('it succeeds', async () => {
+        fake.script({
+          content: [
+            {
+              tool: {
+                id: 'toolu_calc',
+                name: 'test_calculator',
+                input: { a: 2, b: 3 },
+              },
+            },
+          ],
+        });
+        return genAtom({ slug: 'claude/haiku/v3.5' }).ask({
+          on: { stream: (event) => events.push(event) },
+          role: {},
+          prompt: 'multiply 2 by 3',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      then('it emits the call as a tool event, with no partial output', () => {
+        expect(events.filter((event) => event.type === 'tool')).toEqual([
+          {
+            type: 'tool',
+            invocation: {
+              exid: 'toolu_calc',
+              slug: 'test_calculator',
+              input: { a: 2, b: 3 },
+            },
+          },
+        ]);
+        expect(events.filter((event) => event.type === 'output')).toEqual([]);
+      });
+    });
+  });
+
+  given('[case7] an ask with a tracer provider registered', () => {
+    const spans = useTestSpanExporter();
+
+    when('[t0] the fake calls a tool, after an overload', () => {
+      useThen('it succeeds', async () => {
+        fake.script(
+          { error: { status: 529, type: 'overloaded_error' } },
+          {
+            content: [
+              {
+                tool: {
+                  id: 'toolu_calc',
+                  name: 'test_calculator',
+                  input: { a: 6, b: 7 },
+                },
+              },
+            ],
+            usage: {
+              input_tokens: 100,
+              output_tokens: 20,
+              cache_read_input_tokens: 1_000,
+            },
+          },
+        );
+        return genAtom({
+          options: { temperature: 0 },
+          retry: {
+            attempts: 2,
+            backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+          },
+        }).ask({
+          role: {},
+          prompt: 'multiply 6 by 7',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      then('it emits one chat span, of the model and slug', () => {
+        expect(spans.get()).toHaveLength(1);
+        const [span] = spans.get();
+        expect(span!.name).toMatch(/^chat claude-sonnet-/);
+        expect(span!.attributes).toMatchObject({
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.provider.name': 'anthropic',
+          'gen_ai.request.temperature': 0,
+          'rhachet.brain.slug': 'claude/sonnet',
+        });
+      });
+
+      then('it records the response, its usage, and its cost', () => {
+        const [span] = spans.get();
+        expect(span!.attributes).toMatchObject({
+          'gen_ai.response.finish_reasons': ['tool_use'],
+          'gen_ai.usage.input_tokens': 1_100,
+          'gen_ai.usage.output_tokens': 20,
+          'gen_ai.usage.cache_read.input_tokens': 1_000,
+          'gen_ai.usage.cache_creation.input_tokens': 0,
+          'rhachet.brain.retries': 1,
+        });
+        expect(span!.attributes['gen_ai.response.id']).toMatch(/^msg_fake_/);
+        expect(span!.attributes['rhachet.brain.cost.usd']).toBeGreaterThan(0);
+      });
+
+      then('it records the retry and the tool call as events', () => {
+        const [span] = spans.get();
+        expect(span!.events.map((event) => event.name)).toEqual([
+          'retry',
+          'gen_ai.tool.call',
+        ]);
+        expect(span!.events[1]!.attributes).toEqual({
+          'gen_ai.tool.name': 'test_calculator',
+          'gen_ai.tool.call.id': 'toolu_calc',
+        });
+      });
+    });
+  });
+
+  given('[case8] an atom with lifecycle observers', () => {
+    // records the name of each lifecycle event, with the event, in the order observed
+    const genObserved = () => {
+      const events: BrainAtomObserverEvent[] = [];
+      const on: BrainAtomObservers = {
+        request: (event) => events.push({ name: 'request', event }),
+        response: (event) => events.push({ name: 'response', event }),
+        tools: (event) => events.push({ name: 'tools', event }),
+        output: (event) => events.push({ name: 'output', event }),
+        error: (event) => events.push({ name: 'error', event }),
+      };
+      // the event of the first observed of a name, narrowed to its type
+      const of = <TName extends keyof BrainAtomObservers>(
+        name: TName,
+      ): BrainAtomObserverEvent<TName>['event'] =>
+        events.find(
+          (each): each is BrainAtomObserverEvent<TName> => each.name === name,
+        )!.event;
+      return { events, on, of };
+    };
+
+    when('[t0] the fake replies with structured output', () => {
+      const observed = genObserved();
+      useThen('it succeeds', async () => {
+        fake.script({
+          content: [{ output: { content: 'hello' } }],
+          usage: { input_tokens: 42, output_tokens: 7 },
+        });
+        return genAtom({ on: observed.on }).ask({
+          role: {},
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        });
+      });
+
+      then('it tells of the request, the response, then the output', () => {
+        expect(observed.events.map(({ name }) => name)).toEqual([
+          'request',
+          'response',
+          'output',
+        ]);
+      });
+
+      then('it tells of the final messages of the request', () => {
+        const request = observed.of('request');
+        expect(request.brain.slug).toEqual('claude/sonnet');
+        const { body } = fake.requests.at(-1)!;
+        expect(request.params.system).toEqual(body.system);
+        expect(request.params.messages).toEqual(body.messages);
+      });
+
+      then('it tells of the raw response, its usage, and request id', () => {
+        const response = observed.of('response');
+        expect(response.response.usage.input_tokens).toEqual(42);
+        expect(response.response.stop).toEqual('end_turn');
+        expect(response.response.requestId).toMatch(/^req_fake_/);
+      });
+
+      then('it tells of the parsed output, with its metrics', () => {
+        const output = observed.of('output');
+        expect(output.output).toEqual({ content: 'hello' });
+        expect(output.metrics.size.tokens.input).toEqual(42);
+      });
+    });
+
+    when('[t1] the fake calls a tool', () => {
+      const observed = genObserved();
+      useThen('it succeeds', async () => {
+        fake.script({
+          content: [
+            {
+              tool: {
+                id: 'toolu_calc',
+                name: 'test_calculator',
+                input: { a: 2, b: 3 },
+              },
+            },
+          ],
+        });
+        return genAtom({ on: observed.on }).ask({
+          role: {},
+          prompt: 'multiply 2 by 3',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        });
+      });
+
+      then('it tells of the tool calls, instead of an output', () => {
+        expect(observed.events.map(({ name }) => name)).toEqual([
+          'request',
+          'response',
+          'tools',
+        ]);
+        expect(observed.of('tools').calls).toEqual([
+          {
+            exid: 'toolu_calc',
+            slug: 'test_calculator',
+            input: { a: 2, b: 3 },
+          },
+        ]);
+      });
+    });
+
+    when('[t2] the fake is overloaded', () => {
+      then('it tells of the error it throws', async () => {
+        const observed = genObserved();
+        fake.script({ error: { status: 529, type: 'overloaded_error' } });
+        const error = await getError(async () =>
+          genAtom({ on: observed.on }).ask({
+            role: {},
+            prompt: 'say hi',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(observed.events.map(({ name }) => name)).toEqual([
+          'request',
+          'error',
+        ]);
+        expect(observed.of('error').error).toBe(error);
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+      });
+    });
+  });
+
+  given(
+    '[case9] an episode with tool use, which nears the context window',
+    () => {
+      // counts every request far past the context window, so that the episode is always compacted
+      const standIn = {} as StandInServer;
+      beforeAll(async () => {
+        Object.assign(
+          standIn,
+          await genStandInServer({ tokens: { count: 2_000_000 } }),
+        );
+      });
+      afterAll(() => standIn.close());
+
+      when('[t0] asked with compaction by summary', () => {
+        const result = useThen('it succeeds', async () => {
+          const genAtomOnStandIn = (
+            input?: Partial<Parameters<typeof genBrainAtom>[0]>,
+          ) =>
+            genAtom({
+              client: { baseURL: standIn.baseURL, apiKey: 'sk-ant-fake' },
+              ...input,
+            });
+
+          // build an episode of a tool use, its result, then a plain exchange
+          standIn.script({
+            content: [
+              {
+                tool: {
+                  id: 'toolu_calc',
+                  name: 'test_calculator',
+                  input: { a: 12, b: 34 },
+                },
+              },
+            ],
+          });
+          const first = await genAtomOnStandIn().ask({
+            role: {},
+            prompt: 'multiply 12 by 34',
+            schema: { output: z.object({ answer: z.number() }) },
+            plugs: { tools: [calculatorTool] },
+          });
+          const execution = await calculatorTool.execute(
+            { invocation: first.calls!.tools[0]! },
+            {},
+          );
+          standIn.script({ content: [{ output: { answer: 408 } }] });
+          const second = await genAtomOnStandIn().ask({
+            on: { episode: first.episode },
+            role: {},
+            prompt: [execution],
+            schema: { output: z.object({ answer: z.number() }) },
+            plugs: { tools: [calculatorTool] },
+          });
+          standIn.script({ content: [{ output: { content: 'noted' } }] });
+          const third = await genAtomOnStandIn().ask({
+            on: { episode: second.episode },
+            role: {},
+            prompt: 'note the product',
+            schema: { output: outputSchema },
+          });
+
+          // compact the episode into a summary, then ask
+          standIn.script(
+            {
+              content: [{ text: 'the product of 12 and 34 is 408' }],
+              usage: { input_tokens: 1_000, output_tokens: 100 },
+            },
+            {
+              content: [{ output: { content: '408' } }],
+              usage: { input_tokens: 100, output_tokens: 10 },
+            },
+          );
+          return genAtomOnStandIn({
+            compaction: { strategy: 'summarize', keep: { exchanges: 1 } },
+          }).ask({
+            on: { episode: third.episode },
+            role: {},
+            prompt: 'what was the product?',
+            schema: { output: outputSchema },
+          });
+        });
+
+        then('it summarizes the tool use, flattened into text', () => {
+          const { body } = standIn.requests.at(-2)!;
+          expect(body.tools).toBeUndefined();
+          const blocks = body.messages!.flatMap((message) =>
+            typeof message.content === 'string' ? [] : message.content,
+          );
+          expect(blocks.filter((block) => block.type !== 'text')).toEqual([]);
+          expect(JSON.stringify(body.messages)).toContain(
+            '[tool_use test_calculator] {\\"a\\":12,\\"b\\":34}',
+          );
+          expect(JSON.stringify(body.messages)).toContain(
+            '[tool_result] {\\"result\\":408}',
+          );
+        });
+
+        then('it replaces the dropped exchanges with the summary', () => {
+          const messages = standIn.requests.at(-1)!.body.messages!;
+          expect(messages[1]).toEqual({
+            role: 'assistant',
+            content: 'the product of 12 and 34 is 408',
+          });
+          expect(messages.at(-1)).toEqual({
+            role: 'user',
+            content: 'what was the product?',
+          });
+          expect(result.metrics.compaction?.exchanges).toEqual({
+            dropped: 2,
+            kept: 1,
+          });
+          expect(result.output).toEqual({ content: '408' });
+        });
+
+        then('it counts and prices the summary into the metrics', () => {
+          expect(result.metrics.size.tokens.input).toEqual(1_100);
+          expect(result.metrics.size.tokens.output).toEqual(110);
+          // input: 1100 at $3/M = $0.0033; output: 110 at $15/M = $0.00165
+          expect(
+            asPriceAmount({ price: result.metrics.cost.cash.total }),
+          ).toBeCloseTo(0.00495, 8);
+        });
+      });
+
+      when('[t1] asked with compaction by summary, under a budget', () => {
+        then(
+          'it throws BrainBudgetExceededError, before the summary is requested',
+          async () => {
+            const genAtomOnStandIn = (
+              input?: Partial<Parameters<typeof genBrainAtom>[0]>,
+            ) =>
+              genAtom({
+                client: { baseURL: standIn.baseURL, apiKey: 'sk-ant-fake' },
+                ...input,
+              });
+            standIn.script(
+              { content: [{ output: { content: 'one' } }] },
+              { content: [{ output: { content: 'two' } }] },
+            );
+            const first = await genAtomOnStandIn().ask({
+              role: {},
+              prompt: 'say one',
+              schema: { output: outputSchema },
+            });
+            const second = await genAtomOnStandIn().ask({
+              on: { episode: first.episode },
+              role: {},
+              prompt: 'say two',
+              schema: { output: outputSchema },
+            });
+
+            // every request counts 2M tokens, so the summary's input alone costs $6, past the budget of $1
+            const asked = standIn.requests.length;
+            const error = await getError(async () =>
+              genAtomOnStandIn({
+                compaction: { strategy: 'summarize', keep: { exchanges: 1 } },
+                budget: { cash: '$1.00' },
+              }).ask({
+                on: { episode: second.episode },
+                role: {},
+                prompt: 'say three',
+                schema: { output: outputSchema },
+              }),
+            );
+            expect(error).toBeInstanceOf(BrainBudgetExceededError);
+            expect(
+              standIn.requests
+                .slice(asked)
+                .filter((request) => request.path === '/v1/messages'),
+            ).toEqual([]);
+          },
+        );
+      });
+    },
+  );
+});
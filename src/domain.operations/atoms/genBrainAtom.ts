@@ -1,5 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { betaZodOutputFormat } from '@anthropic-ai/sdk/helpers/beta/zod';
+import type Anthropic from '@anthropic-ai/sdk';
 import { BadRequestError } from 'helpful-errors';
 import {
   type AsBrainPromptFor,
@@ -7,32 +6,307 @@ import {
   type BrainEpisode,
   type BrainOutput,
   type BrainOutputMetrics,
-  calcBrainOutputCost,
-  castBriefsToPrompt,
-  genBrainContinuables,
 } from 'rhachet';
-import type { BrainPlugs, BrainPlugToolExecution } from 'rhachet/brains';
+import type { BrainPlugs, BrainPlugToolInvocation } from 'rhachet/brains';
 import type { Artifact } from 'rhachet-artifact';
 import type { GitFile } from 'rhachet-artifact-git';
-import type { Empty } from 'type-fns';
 import type { z } from 'zod';
 
+import { castFromAnthropicError } from '../../infra/cast/castFromAnthropicError';
 import { castFromAnthropicToolUse } from '../../infra/cast/castFromAnthropicToolUse';
-import { castIntoAnthropicToolDef } from '../../infra/cast/castIntoAnthropicToolDef';
-import { castIntoAnthropicToolResult } from '../../infra/cast/castIntoAnthropicToolResult';
+import type { AnthropicCacheTtl } from '../../infra/cast/castIntoAnthropicCacheBreakpoints';
+import type { BrainAtomInferenceOptions } from '../../infra/cast/castIntoAnthropicInferenceParams';
+import type {
+  BrainAtomMedia,
+  BrainAtomMediaMime,
+} from '../../infra/cast/castIntoAnthropicMediaBlock';
+import { OUTPUT_TOOL_NAME } from '../../infra/cast/castIntoAnthropicOutputTool';
+import type { BrainAtomToolChoice } from '../../infra/cast/castIntoAnthropicToolChoice';
+import {
+  type AnthropicBackend,
+  type AnthropicBedrockProfile,
+  type AnthropicClient,
+  type AnthropicClientOptions,
+  genAnthropicClientGetter,
+} from '../../infra/client/genAnthropicClient';
+import { getRetryHint } from '../../infra/retry/getRetryHint';
+import {
+  type BrainRetryMetrics,
+  type BrainRetryPolicy,
+  invokeWithRetry,
+  RETRY_POLICY_DEFAULT,
+} from '../../infra/retry/invokeWithRetry';
+import { asPartialJson } from '../../infra/schema/asPartialJson';
+import { castIntoBrainSpanAttributes } from '../../infra/trace/castIntoBrainSpanAttributes';
+import {
+  genBrainSpanRetryObserver,
+  invokeWithBrainSpan,
+} from '../../infra/trace/invokeWithBrainSpan';
+import { assertBrainAtomSetup } from './assertBrainAtomSetup';
 import {
   type AnthropicBrainAtomModel,
   type AnthropicBrainAtomSlug,
   type BrainAtomConfig,
   CONFIG_BY_ATOM_SLUG,
 } from './BrainAtom.config';
+import { calcBrainAtomOutputCost } from './calcBrainAtomOutputCost';
+import { castIntoBrainAtomOutput } from './castIntoBrainAtomOutput';
+import {
+  type BrainAtomSetup,
+  genBrainAtomAskRequest,
+} from './genBrainAtomAskRequest';
+import {
+  assertBrainAtomCompactionPolicy,
+  type BrainAtomCompactionMetrics,
+  type BrainAtomCompactionPolicy,
+  COMPACTION_POLICY_DEFAULT,
+  genBrainAtomEpisodeCompacted,
+} from './genBrainAtomEpisodeCompacted';
+import {
+  type BrainCallBudget,
+  getBrainAtomBudgetMaxTokens,
+} from './getBrainAtomBudgetMaxTokens';
+import { getBrainAtomConfigForBackend } from './getBrainAtomConfigForBackend';
+import {
+  type BrainAtomContextHeadroom,
+  countBrainAtomRequestTokens,
+  getBrainAtomContextHeadroom,
+} from './getBrainAtomContextHeadroom';
 
 // re-export types and config for consumers
 export {
   CONFIG_BY_ATOM_SLUG,
   type AnthropicBrainAtomSlug,
   type AnthropicBrainAtomModel,
+  type AnthropicBackend,
+  type AnthropicBedrockProfile,
+  type AnthropicClientOptions,
+  type BrainAtomCompactionMetrics,
+  type BrainAtomCompactionPolicy,
   type BrainAtomConfig,
+  type BrainAtomContextHeadroom,
+  type BrainAtomInferenceOptions,
+  type BrainAtomMedia,
+  type BrainAtomMediaMime,
+  type BrainAtomToolChoice,
+  type BrainCallBudget,
+  type BrainRetryMetrics,
+  type BrainRetryPolicy,
+};
+
+/**
+ * .what = per-call context for an atom ask
+ * .why = enables per-call overrides of the atom's defaults
+ */
+export type BrainAtomAskContext = {
+  /**
+   * .what = anthropic client to use for this call
+   * .note = defaults to the atom's client
+   * .note = must be a client of the atom's backend, since the model id of each request depends on it
+   */
+  anthropic?: AnthropicClient;
+
+  /**
+   * .what = options to construct the anthropic client of this call from
+   * .note = override the atom's client options, key by key; e.g., to route this call per customer
+   */
+  client?: AnthropicClientOptions;
+
+  /**
+   * .what = inference options for this call
+   * .note = override the atom's default options, key by key
+   */
+  options?: BrainAtomInferenceOptions;
+
+  /**
+   * .what = whether to count tokens and check the context window before this call
+   * .note = overrides the atom's default preflight
+   */
+  preflight?: boolean;
+
+  /**
+   * .what = the max cash this call may spend
+   * .note = overrides the atom's default budget
+   */
+  budget?: BrainCallBudget | null;
+};
+
+/**
+ * .what = a text prompt with images and pdfs attached
+ * .why = enables vision and document asks, beyond plain string prompts
+ */
+export type BrainAtomPromptWithMedia = {
+  text: string;
+  media: BrainAtomMedia[];
+};
+
+/**
+ * .what = events emitted while an atom response streams in
+ * .why = enables callers to render progress before the final output resolves
+ *
+ * .note
+ *   - text = raw text delta of the structured output, plus the full snapshot so far
+ *   - thinking = raw delta of an extended thinking block, plus its snapshot so far
+ *   - output = best-effort partial parse of the structured output snapshot, with partial strings kept; emitted only when it changes
+ *     - parsed from the text, else from the input json of the output tool, on models which emit the output via tool
+ *   - tool = a tool invocation, emitted once its tool_use block completes; never the output tool
+ */
+export type BrainAtomStreamEvent =
+  | { type: 'text'; delta: string; snapshot: string }
+  | { type: 'thinking'; delta: string; snapshot: string }
+  | { type: 'output'; partial: unknown }
+  | { type: 'tool'; invocation: BrainPlugToolInvocation };
+
+/**
+ * .what = observer which receives stream events for a single ask
+ * .why = opt-in to the streaming api via `on.stream` without a separate method
+ */
+export type BrainAtomStreamObserver = (event: BrainAtomStreamEvent) => void;
+
+/**
+ * .what = a thought the model produced via extended thinking
+ * .why = exposes reasoning to callers for debug, without a change to the output contract
+ *
+ * .note = redacted thoughts are encrypted by the api; their text is not human readable
+ */
+export type BrainAtomThought =
+  | { redacted: false; text: string }
+  | { redacted: true; text: null };
+
+/**
+ * .what = observer which receives each thought once the response completes
+ * .why = opt-in to see extended thinking via `on.thinking`, with or without stream
+ */
+export type BrainAtomThinkingObserver = (thought: BrainAtomThought) => void;
+
+/**
+ * .what = observers of the lifecycle of each ask of an atom
+ * .why = lets callers plug in logs, audits, metrics, and debug uis, without a fork of the atom
+ *
+ * .note
+ *   - request = the final params of the request, after compaction and budget caps; e.g., its system, messages, and tools
+ *   - response = the raw response of the api, with its content, usage, stop reason, and request id
+ *   - tools = the tool calls the response asks for, if any
+ *   - output = the structured output, once parsed, with the metrics of the ask
+ *   - error = the error the ask throws, after retries are exhausted
+ * .note = observers are called synchronously, so an observer which throws fails the ask
+ */
+export type BrainAtomObservers = {
+  request?: (event: {
+    brain: { slug: AnthropicBrainAtomSlug; model: string };
+    params: Anthropic.Beta.Messages.MessageCreateParamsNonStreaming;
+  }) => void;
+  response?: (event: {
+    brain: { slug: AnthropicBrainAtomSlug; model: string };
+    response: {
+      id: string;
+      content: Anthropic.Beta.Messages.BetaContentBlock[];
+      usage: Anthropic.Beta.Messages.BetaUsage;
+      stop: Anthropic.Beta.Messages.BetaStopReason | null;
+      requestId: string | null;
+    };
+  }) => void;
+  tools?: (event: {
+    brain: { slug: AnthropicBrainAtomSlug; model: string };
+    calls: BrainPlugToolInvocation[];
+  }) => void;
+  output?: (event: {
+    brain: { slug: AnthropicBrainAtomSlug; model: string };
+    output: unknown;
+    metrics: BrainOutputMetrics;
+  }) => void;
+  error?: (event: {
+    brain: { slug: AnthropicBrainAtomSlug; model: string };
+    error: unknown;
+  }) => void;
+};
+
+/**
+ * .what = one lifecycle event of an atom, tagged by the name of its observer
+ * .why = lets callers record the events of every observer in one list, type-checked per name
+ *
+ * .note = narrow to the event of one observer via its name; e.g., BrainAtomObserverEvent<'output'>
+ */
+export type BrainAtomObserverEvent<
+  TName extends keyof BrainAtomObservers = keyof BrainAtomObservers,
+> = {
+  [TEach in keyof BrainAtomObservers]-?: {
+    name: TEach;
+    event: Parameters<NonNullable<BrainAtomObservers[TEach]>>[0];
+  };
+}[TName];
+
+/**
+ * .what = invokes the messages api via the streaming endpoint
+ * .why = emits text deltas, partial outputs, and tool calls as they arrive, then resolves to the same final message as create
+ */
+const invokeMessageStream = async (input: {
+  anthropic: AnthropicClient;
+  params: Anthropic.Beta.Messages.MessageCreateParamsNonStreaming;
+  observer: BrainAtomStreamObserver;
+}): Promise<
+  Anthropic.Beta.Messages.BetaMessage & { _request_id?: string | null }
+> => {
+  const stream = input.anthropic.beta.messages.stream(input.params);
+
+  // emit the partial structured output which a snapshot implies
+  // note: a delta may not change the partial output (e.g., one which only opens a key), so repeats are skipped
+  let partialPrior: string | null = null;
+  const emitPartial = (snapshot: string) => {
+    const partial = asPartialJson({ snapshot });
+    if (partial === undefined) return;
+    const partialNow = JSON.stringify(partial);
+    if (partialNow === partialPrior) return;
+    partialPrior = partialNow;
+    input.observer({ type: 'output', partial });
+  };
+
+  // emit text deltas, and the partial output of native structured outputs
+  stream.on('text', (delta, snapshot) => {
+    input.observer({ type: 'text', delta, snapshot });
+    emitPartial(snapshot);
+  });
+
+  // emit the partial output of the output tool, as its input json streams
+  // note: the block of each delta is only known by index, so the index of the output tool's block is tracked from its start
+  let outputToolIndex: number | null = null;
+  let outputToolSnapshot = '';
+  stream.on('streamEvent', (event) => {
+    if (
+      event.type === 'content_block_start' &&
+      event.content_block.type === 'tool_use' &&
+      event.content_block.name === OUTPUT_TOOL_NAME
+    ) {
+      outputToolIndex = event.index;
+      outputToolSnapshot = '';
+    }
+    if (
+      event.type === 'content_block_delta' &&
+      event.index === outputToolIndex &&
+      event.delta.type === 'input_json_delta'
+    ) {
+      outputToolSnapshot += event.delta.partial_json;
+      emitPartial(outputToolSnapshot);
+    }
+  });
+
+  // emit extended thinking deltas, if enabled
+  stream.on('thinking', (delta, snapshot) => {
+    input.observer({ type: 'thinking', delta, snapshot });
+  });
+
+  // emit tool invocations once each tool_use block is complete; the output tool is no invocation, since its input is the output
+  stream.on('contentBlock', (block) => {
+    if (block.type !== 'tool_use' || block.name === OUTPUT_TOOL_NAME) return;
+    input.observer({
+      type: 'tool',
+      invocation: castFromAnthropicToolUse({ block }),
+    });
+  });
+
+  // attach the request id, as create does, for error metadata
+  const message = await stream.finalMessage();
+  return Object.assign(message, { _request_id: stream.request_id });
 };
 
 /**
@@ -43,11 +317,92 @@ export {
  *   genBrainAtom({ slug: 'claude/haiku' }) // fast + cheap
  *   genBrainAtom({ slug: 'claude/sonnet' }) // balanced
  *   genBrainAtom({ slug: 'claude/opus/v4.5' }) // highest quality
+ *   genBrainAtom({ slug: 'claude/sonnet', cache: { ttl: '1h' } }) // cache briefs + history for an hour
+ *   genBrainAtom({ slug: 'claude/opus', thinking: { budget: { tokens: 8000 } } }) // extended thinking
+ *   genBrainAtom({ slug: 'claude/haiku', options: { temperature: 0 } }) // deterministic classifier
+ *   genBrainAtom({ slug: 'claude/opus', retry: { attempts: 8 } }) // ride out longer overloads
+ *   genBrainAtom({ slug: 'claude/sonnet', preflight: true }) // count tokens and check the context window before each ask
+ *   genBrainAtom({ slug: 'claude/sonnet', compaction: { strategy: 'summarize' } }) // summarize older exchanges as the episode nears the context window
+ *   genBrainAtom({ slug: 'claude/opus', budget: { cash: '$0.25' } }) // cap the worst-case cost of each ask
+ *   genBrainAtom({ slug: 'claude/haiku', client: { baseURL: 'http://localhost:4010' } }) // point at a local stand-in server
+ *   genBrainAtom({ slug: 'claude/sonnet', backend: { provider: 'bedrock', region: 'us-west-2' } }) // serve via aws bedrock
+ *   genBrainAtom({ slug: 'claude/sonnet', backend: { provider: 'vertex', projectId: 'my-project' } }) // serve via gcp vertex ai
+ *   genBrainAtom({ slug: 'claude/sonnet', on: { response: ({ response }) => log.debug(response.usage) } }) // observe each ask
+ *
+ * .note = prompt cache breakpoints are placed on briefs, tools, and episode tail by default (5m ttl); pass `cache: false` to opt out
+ * .note = rate limits, overloads, and transient server errors are retried per RETRY_POLICY_DEFAULT; pass `retry: false` to opt out
+ * .note = each ask is traced as an opentelemetry `chat` span, if a tracer provider is registered
  */
 export const genBrainAtom = (input: {
   slug: AnthropicBrainAtomSlug;
+  cache?: { ttl: AnthropicCacheTtl } | false;
+  thinking?: { budget: { tokens: number } };
+  options?: BrainAtomInferenceOptions;
+  retry?: Partial<BrainRetryPolicy> | false;
+  preflight?: boolean;
+  compaction?: Pick<BrainAtomCompactionPolicy, 'strategy'> &
+    Partial<BrainAtomCompactionPolicy>;
+  budget?: BrainCallBudget;
+  anthropic?: AnthropicClient;
+  client?: AnthropicClientOptions;
+  backend?: AnthropicBackend;
+  on?: BrainAtomObservers;
 }): BrainAtom => {
-  const config = CONFIG_BY_ATOM_SLUG[input.slug];
+  const { config, model, backend } = getBrainAtomConfigForBackend({
+    config: CONFIG_BY_ATOM_SLUG[input.slug],
+    backend: input.backend ?? { provider: 'anthropic' },
+  });
+  const getAnthropic = genAnthropicClientGetter({
+    anthropic: input.anthropic,
+    client: input.client,
+    backend,
+  });
+  const cache = input.cache ?? { ttl: '5m' };
+  const retry: BrainRetryPolicy =
+    input.retry === false
+      ? { ...RETRY_POLICY_DEFAULT, attempts: 1 }
+      : { ...RETRY_POLICY_DEFAULT, ...input.retry };
+
+  // fail-fast: extended thinking must be supported by the backend
+  if (input.thinking && backend.provider !== 'anthropic')
+    throw new BadRequestError(
+      'extended thinking is not supported on the bedrock and vertex backends, since their output must be emitted via a forced tool. use the anthropic backend instead.',
+      { slug: input.slug, provider: backend.provider },
+    );
+
+  // fail-fast: thinking and default options must fit the model
+  assertBrainAtomSetup({
+    slug: input.slug,
+    config,
+    thinking: input.thinking ?? null,
+    options: input.options,
+  });
+
+  // fail-fast: compaction policy must be able to compact
+  const compaction: BrainAtomCompactionPolicy | null = input.compaction
+    ? { ...COMPACTION_POLICY_DEFAULT, ...input.compaction }
+    : null;
+  if (compaction) assertBrainAtomCompactionPolicy({ policy: compaction });
+
+  // fail-fast: preflight, budgets, and compaction count tokens, which bedrock can not
+  if (
+    backend.provider === 'bedrock' &&
+    (input.preflight || input.budget || compaction)
+  )
+    throw new BadRequestError(
+      'preflight, budgets, and compaction are not supported on the bedrock backend, since it can not count tokens. use the anthropic or vertex backend instead.',
+      { slug: input.slug, provider: backend.provider },
+    );
+
+  const brain = { slug: input.slug, model };
+  const atom: BrainAtomSetup = {
+    slug: input.slug,
+    config,
+    model,
+    cache,
+    thinking: input.thinking ?? null,
+    options: input.options,
+  };
 
   return new BrainAtom({
     repo: 'anthropic',
@@ -61,195 +416,202 @@ export const genBrainAtom = (input: {
      */
     ask: async <TOutput, TPlugs extends BrainPlugs = BrainPlugs>(
       askInput: {
-        on?: { episode: BrainEpisode };
+        on?: {
+          episode?: BrainEpisode;
+          stream?: BrainAtomStreamObserver;
+          thinking?: BrainAtomThinkingObserver;
+        };
         plugs?: TPlugs;
+        choice?: BrainAtomToolChoice;
         role: { briefs?: Artifact<typeof GitFile>[] };
-        prompt: AsBrainPromptFor<TPlugs>;
+        prompt: AsBrainPromptFor<TPlugs> | BrainAtomPromptWithMedia;
         schema: { output: z.Schema<TOutput> };
       },
-      context?: Empty,
-    ): Promise<BrainOutput<TOutput, 'atom', TPlugs>> => {
-      // fail-fast: haiku doesn't support continuation with structured outputs
-      if (askInput.on?.episode && config.model.includes('haiku')) {
-        throw new BadRequestError(
-          'episode continuation is not supported with haiku models when using structured outputs. use sonnet or opus instead.',
-          { slug: input.slug, model: config.model },
-        );
-      }
-
-      const startTime = Date.now();
-      const systemPrompt = askInput.role.briefs
-        ? await castBriefsToPrompt({ briefs: askInput.role.briefs })
-        : undefined;
-
-      // get anthropic client from context or create new one
-      const anthropic =
-        (context?.anthropic as Anthropic | undefined) ??
-        new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
-      // detect if prompt is tool results (continuation) vs string (initial/follow-up)
-      const isToolResultContinuation = Array.isArray(askInput.prompt);
-
-      // build current prompt content
-      const currentPromptContent: Anthropic.MessageParam['content'] =
-        isToolResultContinuation
-          ? (askInput.prompt as BrainPlugToolExecution[]).map((exec) =>
-              castIntoAnthropicToolResult({ execution: exec }),
-            )
-          : (askInput.prompt as string);
-
-      // build messages array from prior episode exchanges + current prompt
-      // note: exchange.input/output are always strings, but may be JSON-serialized content blocks
-      const parseExchangeContent = (
-        content: string,
-      ): Anthropic.MessageParam['content'] => {
-        // if starts with '[', it's likely a JSON array of content blocks (tool_use or tool_result)
-        if (content.startsWith('[')) {
-          try {
-            return JSON.parse(content) as Anthropic.MessageParam['content'];
-          } catch (error) {
-            // allowlist SyntaxError: invalid JSON means it's plain text, not a content block array
-            if (error instanceof SyntaxError) return content;
-            throw error;
-          }
-        }
-        return content;
-      };
-      const priorMessages: Anthropic.MessageParam[] =
-        askInput.on?.episode?.exchanges.flatMap((exchange) => [
-          {
-            role: 'user' as const,
-            content: parseExchangeContent(exchange.input),
-          },
-          {
-            role: 'assistant' as const,
-            content: parseExchangeContent(exchange.output),
-          },
-        ]) ?? [];
-      const messages: Anthropic.MessageParam[] = [
-        ...priorMessages,
-        { role: 'user', content: currentPromptContent },
-      ];
-
-      // translate tool definitions to anthropic format
-      const tools: Anthropic.Messages.Tool[] | undefined =
-        askInput.plugs?.tools?.map((tool) =>
-          castIntoAnthropicToolDef({ definition: tool }),
-        );
-
-      // call anthropic api with native structured output (constrained decoding)
-      const response = await anthropic.beta.messages.create({
-        model: config.model,
-        max_tokens: 16384,
-        betas: ['structured-outputs-2025-11-13'],
-        system: systemPrompt,
-        messages,
-        ...(tools && { tools }),
-        output_format: betaZodOutputFormat(askInput.schema.output),
-      });
-
-      // extract output and calls independently (they are NOT mutually exclusive)
-      // model may return both text output AND tool calls in the same response
-
-      // extract text block for structured output
-      const textBlock = response.content.find(
-        (block): block is Anthropic.TextBlock => block.type === 'text',
-      );
-      const output = textBlock
-        ? askInput.schema.output.parse(JSON.parse(textBlock.text))
-        : null;
-
-      // extract tool_use blocks for tool calls
-      const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === 'tool_use',
-      );
-      const calls =
-        toolUseBlocks.length > 0
-          ? {
-              tools: toolUseBlocks.map((block) =>
-                castFromAnthropicToolUse({ block }),
-              ),
-            }
-          : null;
-
-      // compute metrics from response usage
-      const elapsedMs = Date.now() - startTime;
-      const usage = response.usage;
-      const inputTokens = usage.input_tokens;
-      const outputTokens = usage.output_tokens;
-      const cacheGetTokens =
-        'cache_read_input_tokens' in usage
-          ? (usage.cache_read_input_tokens as number)
-          : 0;
-      const cacheSetTokens =
-        'cache_creation_input_tokens' in usage
-          ? (usage.cache_creation_input_tokens as number)
-          : 0;
-
-      // compute prompt char count (handle both string and array)
-      const promptCharCount = isToolResultContinuation
-        ? JSON.stringify(askInput.prompt).length
-        : (askInput.prompt as string).length;
-
-      // build size metrics
-      const size: BrainOutputMetrics['size'] = {
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          cache: { get: cacheGetTokens, set: cacheSetTokens },
-        },
-        chars: {
-          input: promptCharCount + (systemPrompt?.length ?? 0),
-          output: calls
-            ? JSON.stringify(response.content).length
-            : (textBlock?.text?.length ?? 0),
-          cache: { get: 0, set: 0 },
-        },
-      };
-
-      // calculate cash cost using rhachet helper
-      const { cash } = calcBrainOutputCost({
-        for: { tokens: size.tokens },
-        with: { cost: { cash: config.spec.cost.cash } },
-      });
-
-      const metrics: BrainOutputMetrics = {
-        size,
-        cost: {
-          time: { milliseconds: elapsedMs },
-          cash,
-        },
-      };
-
-      // serialize exchange content for episode (handle both string and content blocks)
-      const exchangeInput = isToolResultContinuation
-        ? JSON.stringify(currentPromptContent)
-        : (askInput.prompt as string);
-      const exchangeOutput = calls
-        ? JSON.stringify(response.content)
-        : (textBlock?.text ?? '{}');
-
-      // generate continuables for episode
-      const continuables = await genBrainContinuables({
-        for: { grain: 'atom' },
-        on: { episode: askInput.on?.episode ?? null },
-        with: {
-          exchange: {
-            input: exchangeInput,
-            output: exchangeOutput,
-            exid: response.id,
-          },
-          episode: { exid: null },
+      context?: BrainAtomAskContext,
+    ): Promise<BrainOutput<TOutput, 'atom', TPlugs>> =>
+      invokeWithBrainSpan({
+        operation: 'chat',
+        brain: { slug: input.slug, model, provider: backend.provider },
+        invoke: async (span) => {
+          const startTime = Date.now();
+          const requestFull = await genBrainAtomAskRequest({
+            atom,
+            ask: askInput,
+            options: context?.options,
+          });
+
+          // get anthropic client from context, else the atom's
+          const anthropic = getAnthropic(context);
+
+          // compact the episode, if enabled and it nears the context window
+          // note: the compaction summary, if any, is capped to the budget, since it spends from it too
+          const budget =
+            context?.budget === undefined ? input.budget : context.budget;
+          const compacted =
+            compaction && askInput.on?.episode?.exchanges.length
+              ? await genBrainAtomEpisodeCompacted({
+                  atom,
+                  request: requestFull,
+                  episode: askInput.on.episode,
+                  policy: compaction,
+                  retry,
+                  anthropic,
+                  budget: budget ?? null,
+                })
+              : null;
+          const ask = compacted
+            ? {
+                ...askInput,
+                on: { ...askInput.on, episode: compacted.episode },
+              }
+            : askInput;
+          const requestCompacted = compacted
+            ? await genBrainAtomAskRequest({
+                atom,
+                ask,
+                options: context?.options,
+              })
+            : requestFull;
+
+          // fail-fast: the request must fit the context window, if preflight is enabled
+          const headroom =
+            (context?.preflight ?? input.preflight)
+              ? await getBrainAtomContextHeadroom({
+                  atom,
+                  request: requestCompacted,
+                  anthropic,
+                })
+              : null;
+
+          // cap max tokens, so that the worst-case cost fits the budget, if declared
+          // note: the cost of the compaction summary, if any, is spent from the same budget
+          const request = budget
+            ? {
+                ...requestCompacted,
+                params: {
+                  ...requestCompacted.params,
+                  max_tokens: getBrainAtomBudgetMaxTokens({
+                    brain: { slug: input.slug, model: config.model },
+                    budget,
+                    cash: config.spec.cost.cash,
+                    cache: atom.cache,
+                    tokens: {
+                      input:
+                        headroom?.tokens.input ??
+                        (
+                          await countBrainAtomRequestTokens({
+                            atom,
+                            request: requestCompacted,
+                            anthropic,
+                          })
+                        ).input,
+                      output: requestCompacted.params.max_tokens,
+                    },
+                    thinking: atom.thinking,
+                    ...(compacted?.usages.length && {
+                      spent: {
+                        cash: calcBrainAtomOutputCost({
+                          usages: compacted.usages,
+                          cash: config.spec.cost.cash,
+                        }).cash.total,
+                      },
+                    }),
+                  }),
+                },
+              }
+            : requestCompacted;
+
+          input.on?.request?.({ brain, params: request.params });
+          span.setAttributes({
+            'gen_ai.request.max_tokens': request.params.max_tokens,
+            ...(request.params.temperature !== undefined && {
+              'gen_ai.request.temperature': request.params.temperature,
+            }),
+          });
+
+          // call anthropic api, streamed if observed
+          // note: a retried stream restarts, so observers may see events from the failed attempt first
+          // note: sdk errors are cast into brain errors only after retries are exhausted
+          const { result: response, retries } = await invokeWithRetry({
+            policy: retry,
+            getHint: getRetryHint,
+            on: { retry: genBrainSpanRetryObserver({ span }) },
+            invoke: () =>
+              askInput.on?.stream
+                ? invokeMessageStream({
+                    anthropic,
+                    params: request.params,
+                    observer: askInput.on.stream,
+                  })
+                : anthropic.beta.messages.create(request.params),
+          }).catch((error) => {
+            throw castFromAnthropicError({
+              error,
+              slug: input.slug,
+              model: config.model,
+            });
+          });
+
+          input.on?.response?.({
+            brain,
+            response: {
+              id: response.id,
+              content: response.content,
+              usage: response.usage,
+              stop: response.stop_reason,
+              requestId: response._request_id ?? null,
+            },
+          });
+
+          // record the response and each tool call on the span
+          span.setAttributes({
+            'gen_ai.response.id': response.id,
+            'gen_ai.response.model': response.model,
+            ...(response.stop_reason && {
+              'gen_ai.response.finish_reasons': [response.stop_reason],
+            }),
+          });
+          for (const block of response.content)
+            if (block.type === 'tool_use' && block.name !== OUTPUT_TOOL_NAME)
+              span.addEvent('gen_ai.tool.call', {
+                'gen_ai.tool.name': block.name,
+                'gen_ai.tool.call.id': block.id,
+              });
+
+          const output = await castIntoBrainAtomOutput<TOutput, TPlugs>({
+            atom,
+            ask,
+            request,
+            response,
+            metrics: {
+              elapsed: { milliseconds: Date.now() - startTime },
+              retries,
+              headroom,
+              compaction: compacted?.metrics ?? null,
+              cash: config.spec.cost.cash,
+              usages: compacted?.usages,
+            },
+          });
+          span.setAttributes(
+            castIntoBrainSpanAttributes({
+              metrics: { ...output.metrics, retries },
+            }),
+          );
+
+          // tell observers of the tool calls, else of the output
+          if (output.calls)
+            input.on?.tools?.({ brain, calls: output.calls.tools });
+          if (output.output !== null)
+            input.on?.output?.({
+              brain,
+              output: output.output,
+              metrics: output.metrics,
+            });
+          return output;
         },
-      });
-
-      return {
-        output,
-        calls,
-        metrics,
-        ...continuables,
-      } as BrainOutput<TOutput, 'atom', TPlugs>;
-    },
+      }).catch((error) => {
+        input.on?.error?.({ brain, error });
+        throw error;
+      }),
   });
 };
@@ -0,0 +1,281 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { betaZodOutputFormat } from '@anthropic-ai/sdk/helpers/beta/zod';
+import { BadRequestError } from 'helpful-errors';
+import {
+  type AsBrainPromptFor,
+  type BrainEpisode,
+  castBriefsToPrompt,
+} from 'rhachet';
+import type { BrainPlugs, BrainPlugToolExecution } from 'rhachet/brains';
+import type { Artifact } from 'rhachet-artifact';
+import type { GitFile } from 'rhachet-artifact-git';
+import type { z } from 'zod';
+
+import {
+  type AnthropicCacheTtl,
+  castIntoAnthropicCacheBreakpoints,
+} from '../../infra/cast/castIntoAnthropicCacheBreakpoints';
+import {
+  type BrainAtomInferenceOptions,
+  castIntoAnthropicInferenceParams,
+} from '../../infra/cast/castIntoAnthropicInferenceParams';
+import { castIntoAnthropicMediaBlock } from '../../infra/cast/castIntoAnthropicMediaBlock';
+import {
+  castIntoAnthropicOutputTool,
+  OUTPUT_TOOL_NAME,
+} from '../../infra/cast/castIntoAnthropicOutputTool';
+import {
+  type BrainAtomToolChoice,
+  castIntoAnthropicToolChoice,
+} from '../../infra/cast/castIntoAnthropicToolChoice';
+import { castIntoAnthropicToolDef } from '../../infra/cast/castIntoAnthropicToolDef';
+import { castIntoAnthropicToolResult } from '../../infra/cast/castIntoAnthropicToolResult';
+import type {
+  AnthropicBrainAtomSlug,
+  BrainAtomConfig,
+} from './BrainAtom.config';
+import type { BrainAtomPromptWithMedia } from './genBrainAtom';
+
+/**
+ * .what = the setup of an atom, as declared on its factory
+ * .why = shared by every request the atom builds, whether asked directly or in a batch
+ *
+ * .note = model = the model id sent on the wire, which differs from config.model on cloud backends
+ */
+export type BrainAtomSetup = {
+  slug: AnthropicBrainAtomSlug;
+  config: BrainAtomConfig;
+  model: string;
+  cache: { ttl: AnthropicCacheTtl } | false;
+  thinking: { budget: { tokens: number } } | null;
+  options: BrainAtomInferenceOptions | undefined;
+};
+
+/**
+ * .what = an ask, translated into anthropic request params
+ * .why = carries what the response cast needs to rebuild the output, episode, and metrics
+ *
+ * .note = output.via = 'format' for native structured output; 'tool' when it is emulated via a forced output tool
+ */
+export type BrainAtomAskRequest = {
+  params: Anthropic.Beta.Messages.MessageCreateParamsNonStreaming;
+  chars: { input: number };
+  exchange: { input: string };
+  output: { via: 'format' | 'tool' };
+};
+
+/**
+ * .what = parses an exchange of a prior episode back into message content
+ * .why = exchange.input/output are always strings, but may be JSON-serialized content blocks
+ */
+export const parseExchangeContent = (
+  content: string,
+): Anthropic.MessageParam['content'] => {
+  // if starts with '[', it's likely a JSON array of content blocks (tool_use, tool_result, image, or document)
+  if (content.startsWith('[')) {
+    try {
+      return JSON.parse(content) as Anthropic.MessageParam['content'];
+    } catch (error) {
+      // allowlist SyntaxError: invalid JSON means it's plain text, not a content block array
+      if (error instanceof SyntaxError) return content;
+      throw error;
+    }
+  }
+  return content;
+};
+
+/**
+ * .what = generates the anthropic request params for an atom ask
+ * .why = one translation of briefs, episode, prompt, tools, and options, reused by ask and batch
+ */
+export const genBrainAtomAskRequest = async <
+  TOutput,
+  TPlugs extends BrainPlugs = BrainPlugs,
+>(input: {
+  atom: BrainAtomSetup;
+  ask: {
+    on?: { episode?: BrainEpisode };
+    plugs?: TPlugs;
+    choice?: BrainAtomToolChoice;
+    role: { briefs?: Artifact<typeof GitFile>[] };
+    prompt: AsBrainPromptFor<TPlugs> | BrainAtomPromptWithMedia;
+    schema: { output: z.Schema<TOutput> };
+  };
+  options?: BrainAtomInferenceOptions;
+}): Promise<BrainAtomAskRequest> => {
+  const { atom, ask } = input;
+
+  // decide how to constrain the output, per the model's support for native structured outputs
+  // note: where unsupported, the output is emitted via a forced tool instead, with the same output shape
+  const { structured } = atom.config.supports;
+  const outputVia: BrainAtomAskRequest['output']['via'] =
+    structured.outputs && (!ask.on?.episode || structured.episodes)
+      ? 'format'
+      : 'tool';
+
+  // fail-fast: a forced tool can not be combined with extended thinking, per the api
+  if (outputVia === 'tool' && atom.thinking)
+    throw new BadRequestError(
+      'episode continuation with extended thinking is not supported on this model, since its output must be emitted via a forced tool. drop the thinking budget, or use an atom with native structured outputs on episodes.',
+      { slug: atom.slug, model: atom.config.model },
+    );
+
+  const systemPrompt = ask.role.briefs
+    ? await castBriefsToPrompt({ briefs: ask.role.briefs })
+    : undefined;
+
+  // resolve inference params from atom defaults + per-call overrides
+  const inference = castIntoAnthropicInferenceParams({
+    options: { atom: atom.options, ask: input.options },
+    limits: atom.config.limits,
+    supports: atom.config.supports,
+    thinking: atom.thinking,
+  });
+
+  // detect if prompt is tool results (continuation), text with media, or string (initial/follow-up)
+  const isToolResultContinuation = Array.isArray(ask.prompt);
+  const promptWithMedia =
+    !isToolResultContinuation && typeof ask.prompt === 'object'
+      ? (ask.prompt as BrainAtomPromptWithMedia)
+      : null;
+
+  // fail-fast: media requires a model with vision
+  if (promptWithMedia && !atom.config.spec.gain.skills.vision)
+    throw new BadRequestError(
+      'media prompts require a model with vision support',
+      { slug: atom.slug, model: atom.config.model },
+    );
+
+  // build current prompt content
+  // note: media blocks precede the text, per anthropic's vision guidance
+  const currentPromptContent: Anthropic.Beta.Messages.BetaMessageParam['content'] =
+    isToolResultContinuation
+      ? (ask.prompt as BrainPlugToolExecution[]).map((exec) =>
+          castIntoAnthropicToolResult({ execution: exec }),
+        )
+      : promptWithMedia
+        ? [
+            ...(await Promise.all(
+              promptWithMedia.media.map((media) =>
+                castIntoAnthropicMediaBlock({ media }),
+              ),
+            )),
+            { type: 'text', text: promptWithMedia.text },
+          ]
+        : (ask.prompt as string);
+
+  // build messages array from prior episode exchanges + current prompt
+  const priorMessages: Anthropic.Beta.Messages.BetaMessageParam[] =
+    ask.on?.episode?.exchanges.flatMap((exchange) => [
+      {
+        role: 'user' as const,
+        content: parseExchangeContent(exchange.input),
+      },
+      {
+        role: 'assistant' as const,
+        content: parseExchangeContent(exchange.output),
+      },
+    ]) ?? [];
+
+  // translate tool definitions to anthropic format
+  const toolDefs: Anthropic.Messages.Tool[] | undefined = ask.plugs?.tools?.map(
+    (tool) => castIntoAnthropicToolDef({ definition: tool }),
+  );
+
+  // resolve tool choice, if declared, against the plugged tools
+  const toolChoiceDeclared = ask.choice
+    ? castIntoAnthropicToolChoice({
+        choice: ask.choice,
+        tools: ask.plugs?.tools ?? [],
+        thinking: atom.thinking,
+      })
+    : undefined;
+
+  // when the output is emitted via tool, some tool must always be called; 'none' and no plugs force the output tool itself
+  const toolChoice: Anthropic.Beta.Messages.BetaToolChoice | undefined =
+    outputVia === 'format'
+      ? toolChoiceDeclared
+      : !toolDefs?.length || toolChoiceDeclared?.type === 'none'
+        ? { type: 'tool', name: OUTPUT_TOOL_NAME }
+        : toolChoiceDeclared?.type === 'tool'
+          ? toolChoiceDeclared
+          : {
+              type: 'any',
+              ...(toolChoiceDeclared?.disable_parallel_tool_use && {
+                disable_parallel_tool_use: true,
+              }),
+            };
+
+  // place prompt cache breakpoints on briefs, tools, and episode tail, if enabled
+  const cached = atom.cache
+    ? castIntoAnthropicCacheBreakpoints({
+        system: systemPrompt,
+        tools: toolDefs,
+        history: priorMessages,
+        ttl: atom.cache.ttl,
+      })
+    : { system: systemPrompt, tools: toolDefs, history: priorMessages };
+  const messages: Anthropic.Beta.Messages.BetaMessageParam[] = [
+    ...cached.history,
+    { role: 'user', content: currentPromptContent },
+  ];
+
+  // declare the output tool, after the plugged tools, if the output is emitted via tool
+  const tools =
+    outputVia === 'tool'
+      ? [
+          ...(cached.tools ?? []),
+          castIntoAnthropicOutputTool({ schema: ask.schema.output }),
+        ]
+      : cached.tools;
+
+  // declare native structured output (constrained decoding), unless the output is emitted via tool
+  const params: Anthropic.Beta.Messages.MessageCreateParamsNonStreaming = {
+    model: atom.model,
+    ...inference,
+    betas: [
+      ...(atom.config.betas ?? []),
+      ...(outputVia === 'format' ? ['structured-outputs-2025-11-13'] : []),
+      ...(atom.cache && atom.cache.ttl === '1h'
+        ? ['extended-cache-ttl-2025-04-11']
+        : []),
+      ...(atom.thinking && cached.tools
+        ? ['interleaved-thinking-2025-05-14']
+        : []),
+    ],
+    system: cached.system,
+    messages,
+    ...(tools && { tools }),
+    ...(toolChoice && { tool_choice: toolChoice }),
+    ...(atom.thinking && {
+      thinking: {
+        type: 'enabled',
+        budget_tokens: atom.thinking.budget.tokens,
+      },
+    }),
+    ...(outputVia === 'format' && {
+      output_format: betaZodOutputFormat(ask.schema.output),
+    }),
+  };
+
+  // compute prompt char count (handle string, array, and text with media)
+  const promptCharCount = isToolResultContinuation
+    ? JSON.stringify(ask.prompt).length
+    : promptWithMedia
+      ? promptWithMedia.text.length
+      : (ask.prompt as string).length;
+
+  // serialize exchange input for episode (handle both string and content blocks)
+  // note: media is persisted as base64 content blocks, so the episode replays it verbatim
+  const exchangeInput =
+    isToolResultContinuation || promptWithMedia
+      ? JSON.stringify(currentPromptContent)
+      : (ask.prompt as string);
+
+  return {
+    params,
+    chars: { input: promptCharCount + (systemPrompt?.length ?? 0) },
+    exchange: { input: exchangeInput },
+    output: { via: outputVia },
+  };
+};
@@ -0,0 +1,313 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError } from 'helpful-errors';
+import { type BrainEpisode, genBrainContinuables } from 'rhachet';
+
+import { castFromAnthropicCacheCreation } from '../../infra/cast/castFromAnthropicCacheCreation';
+import { castFromAnthropicError } from '../../infra/cast/castFromAnthropicError';
+import type { AnthropicClient } from '../../infra/client/genAnthropicClient';
+import { getRetryHint } from '../../infra/retry/getRetryHint';
+import {
+  type BrainRetryPolicy,
+  invokeWithRetry,
+} from '../../infra/retry/invokeWithRetry';
+import type { BrainAtomUsage } from './calcBrainAtomOutputCost';
+import {
+  type BrainAtomAskRequest,
+  type BrainAtomSetup,
+  parseExchangeContent,
+} from './genBrainAtomAskRequest';
+import {
+  type BrainCallBudget,
+  getBrainAtomBudgetMaxTokens,
+} from './getBrainAtomBudgetMaxTokens';
+import { countBrainAtomRequestTokens } from './getBrainAtomContextHeadroom';
+import { getEpisodeCompactionCut } from './getEpisodeCompactionCut';
+
+/**
+ * .what = policy for compaction of an episode which nears the context window
+ * .why = lets long-running agents built on atoms keep going instead of overflow
+ *
+ * .note
+ *   - strategy = truncate drops the oldest exchanges; summarize replaces them with a summary exchange
+ *   - threshold = fraction of the context window, after room for output, at which to compact
+ *   - keep = the latest exchanges, which are always kept verbatim
+ */
+export type BrainAtomCompactionPolicy = {
+  strategy: 'truncate' | 'summarize';
+  threshold: number;
+  keep: { exchanges: number };
+};
+
+/**
+ * .what = the default compaction policy, less the strategy
+ * .why = compacts with room to spare, and keeps the latest turn and its tool results intact
+ */
+export const COMPACTION_POLICY_DEFAULT: Omit<
+  BrainAtomCompactionPolicy,
+  'strategy'
+> = {
+  threshold: 0.8,
+  keep: { exchanges: 2 },
+};
+
+/**
+ * .what = what a compaction did to an episode
+ * .why = surfaced in output metrics, so callers can trace the new episode back to the original
+ */
+export type BrainAtomCompactionMetrics = {
+  strategy: BrainAtomCompactionPolicy['strategy'];
+  from: { episode: { hash: string } };
+  exchanges: { dropped: number; kept: number };
+  tokens: { before: number };
+  summary: { tokens: { input: number; output: number } } | null;
+};
+
+/**
+ * .what = the prompt which asks the model to summarize the dropped exchanges
+ * .why = the summary takes the place of the dropped exchanges, so it must carry what later turns rely on
+ */
+const SUMMARY_PROMPT =
+  'summarize the conversation so far, so that it can continue without the original messages. keep every fact, decision, tool result, and open question that later turns may rely on. respond with the summary only.';
+
+/**
+ * .what = max tokens for the summary response
+ * .why = the summary must be far smaller than the exchanges it replaces
+ */
+const SUMMARY_MAX_TOKENS = 4_096;
+
+/**
+ * .what = flattens the tool blocks of an exchange's content into text
+ * .why = the summary request declares no tools, and the api rejects tool_use and tool_result blocks without them
+ *
+ * .note = the content of a tool result is kept as its text; any other block of it is named by its type
+ */
+const castIntoSummaryContent = (
+  content: Anthropic.MessageParam['content'],
+): Anthropic.Beta.Messages.BetaMessageParam['content'] => {
+  if (typeof content === 'string') return content;
+  return content.map((block): Anthropic.Beta.Messages.BetaContentBlockParam => {
+    if (block.type === 'tool_use')
+      return {
+        type: 'text',
+        text: `[tool_use ${block.name}] ${JSON.stringify(block.input)}`,
+      };
+    if (block.type === 'tool_result')
+      return {
+        type: 'text',
+        text: `[tool_result${block.is_error ? ', error' : ''}] ${
+          typeof block.content === 'string'
+            ? block.content
+            : (block.content ?? [])
+                .map((part) =>
+                  part.type === 'text' ? part.text : `[${part.type}]`,
+                )
+                .join('\n')
+        }`,
+      };
+    return block;
+  });
+};
+
+/**
+ * .what = validates a compaction policy
+ * .why = fail-fast on a threshold or keep which could never compact
+ */
+export const assertBrainAtomCompactionPolicy = (input: {
+  policy: BrainAtomCompactionPolicy;
+}): void => {
+  if (!(input.policy.threshold > 0 && input.policy.threshold <= 1))
+    throw new BadRequestError(
+      'compaction threshold must be a fraction of the context window, in (0, 1]',
+      { threshold: input.policy.threshold },
+    );
+  if (
+    !Number.isInteger(input.policy.keep.exchanges) ||
+    input.policy.keep.exchanges < 1
+  )
+    throw new BadRequestError(
+      'compaction must keep at least the latest exchange',
+      { keep: input.policy.keep },
+    );
+};
+
+/**
+ * .what = compacts an episode which nears the context window into a new, shorter episode
+ * .why = every prior exchange is replayed verbatim, so long episodes would otherwise grow until they overflow
+ *
+ * .note = returns null when the request is under the threshold, or when no valid cut would shed tokens
+ * .note = the new episode has a new hash; metrics.from.episode.hash links it back to the original
+ * .note = usages are of the requests the compaction made (i.e., the summary), so that the ask may count and price them too
+ */
+export const genBrainAtomEpisodeCompacted = async (input: {
+  atom: BrainAtomSetup;
+  request: BrainAtomAskRequest;
+  episode: BrainEpisode;
+  policy: BrainAtomCompactionPolicy;
+  retry: BrainRetryPolicy;
+  anthropic: AnthropicClient;
+  budget: BrainCallBudget | null;
+}): Promise<{
+  episode: BrainEpisode;
+  metrics: BrainAtomCompactionMetrics;
+  usages: BrainAtomUsage[];
+} | null> => {
+  // measure the request against the threshold
+  const count = await countBrainAtomRequestTokens(input);
+  const context = input.atom.config.spec.gain.size.context.tokens;
+  const output = input.request.params.max_tokens;
+  const limit = (context - output) * input.policy.threshold;
+  if (count.input <= limit) return null;
+
+  // decide which exchanges to drop; shed down to half the threshold, so that compaction does not recur on every ask
+  const exchanges: { input: string; output: string; exid?: string | null }[] =
+    input.episode.exchanges;
+  const requestChars = JSON.stringify(input.request.params.messages).length;
+  const cut = getEpisodeCompactionCut({
+    exchanges,
+    tokens: {
+      perChar: count.input / Math.max(1, requestChars),
+      excess: count.input - limit / 2,
+    },
+    keep: input.policy.keep,
+  });
+  if (cut === 0) return null;
+  const dropped = exchanges.slice(0, cut);
+  const kept = exchanges.slice(cut);
+
+  // summarize the dropped exchanges, if requested
+  // note: tool blocks are flattened into text, since the tools they refer to are not declared
+  const summaryParams: BrainAtomAskRequest['params'] = {
+    model: input.atom.model,
+    max_tokens: SUMMARY_MAX_TOKENS,
+    ...(input.request.params.system && {
+      system: input.request.params.system,
+    }),
+    messages: [
+      ...dropped.flatMap((exchange) => [
+        {
+          role: 'user' as const,
+          content: castIntoSummaryContent(parseExchangeContent(exchange.input)),
+        },
+        {
+          role: 'assistant' as const,
+          content: castIntoSummaryContent(
+            parseExchangeContent(exchange.output),
+          ),
+        },
+      ]),
+      { role: 'user', content: SUMMARY_PROMPT },
+    ],
+  };
+
+  // cap the summary's max tokens, so that its worst-case cost fits the budget, if declared
+  // note: throws BrainBudgetExceededError before the summary is requested, if its input alone would exceed the budget
+  const summaryMaxTokens =
+    input.policy.strategy === 'summarize' && input.budget
+      ? getBrainAtomBudgetMaxTokens({
+          brain: { slug: input.atom.slug, model: input.atom.config.model },
+          budget: input.budget,
+          cash: input.atom.config.spec.cost.cash,
+          cache: false,
+          tokens: {
+            input: (
+              await countBrainAtomRequestTokens({
+                atom: input.atom,
+                request: { ...input.request, params: summaryParams },
+                anthropic: input.anthropic,
+              })
+            ).input,
+            output: SUMMARY_MAX_TOKENS,
+          },
+          thinking: null,
+        })
+      : SUMMARY_MAX_TOKENS;
+  const summary =
+    input.policy.strategy === 'summarize'
+      ? await invokeWithRetry({
+          policy: input.retry,
+          getHint: getRetryHint,
+          invoke: () =>
+            input.anthropic.beta.messages.create({
+              ...summaryParams,
+              max_tokens: summaryMaxTokens,
+            }),
+        })
+          .then(({ result }) => result)
+          .catch((error) => {
+            throw castFromAnthropicError({
+              error,
+              slug: input.atom.slug,
+              model: input.atom.config.model,
+            });
+          })
+      : null;
+
+  // rebuild the episode from the summary, if any, then the kept exchanges
+  const exchangesCompacted = [
+    ...(summary
+      ? [
+          {
+            input: SUMMARY_PROMPT,
+            output: summary.content
+              .filter(
+                (block): block is Anthropic.Beta.Messages.BetaTextBlock =>
+                  block.type === 'text',
+              )
+              .map((block) => block.text)
+              .join('\n'),
+            exid: summary.id,
+          },
+        ]
+      : []),
+    ...kept,
+  ];
+  let episode: BrainEpisode | null = null;
+  for (const exchange of exchangesCompacted) {
+    const continuables = await genBrainContinuables({
+      for: { grain: 'atom' },
+      on: { episode },
+      with: {
+        exchange: {
+          input: exchange.input,
+          output: exchange.output,
+          exid: exchange.exid ?? null,
+        },
+        episode: { exid: null },
+      },
+    });
+    episode = continuables.episode;
+  }
+
+  return {
+    episode: episode!,
+    metrics: {
+      strategy: input.policy.strategy,
+      from: { episode: { hash: input.episode.hash } },
+      exchanges: { dropped: dropped.length, kept: kept.length },
+      tokens: { before: count.input },
+      summary: summary
+        ? {
+            tokens: {
+              input: summary.usage.input_tokens,
+              output: summary.usage.output_tokens,
+            },
+          }
+        : null,
+    },
+    usages: summary
+      ? [
+          {
+            tokens: {
+              input: summary.usage.input_tokens,
+              output: summary.usage.output_tokens,
+              cache: {
+                get: summary.usage.cache_read_input_tokens ?? 0,
+                set: summary.usage.cache_creation_input_tokens ?? 0,
+              },
+            },
+            sets: castFromAnthropicCacheCreation({ usage: summary.usage }),
+          },
+        ]
+      : [],
+  };
+};
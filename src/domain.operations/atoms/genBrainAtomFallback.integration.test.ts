@@ -0,0 +1,154 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError } from 'helpful-errors';
+import { getError, given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import { BrainOverloadedError } from '../../domain.objects/BrainError';
+import { CONFIG_BY_ATOM_SLUG } from './BrainAtom.config';
+import { genBrainAtomFallback } from './genBrainAtomFallback';
+
+if (!process.env.ANTHROPIC_API_KEY)
+  throw new BadRequestError(
+    'ANTHROPIC_API_KEY is required for integration tests',
+  );
+
+/**
+ * .what = generates an anthropic client whose requests for the given models are answered with 529 overloaded
+ * .why = simulates an overload of one model, while the others are asked for real
+ */
+const genAnthropicOverloadedFor = (input: { models: string[] }) =>
+  new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    maxRetries: 0,
+    fetch: async (url, init) => {
+      const body = JSON.parse(String(init?.body ?? '{}')) as { model?: string };
+      if (body.model && input.models.includes(body.model))
+        return new Response(
+          JSON.stringify({
+            type: 'error',
+            error: { type: 'overloaded_error', message: 'Overloaded' },
+          }),
+          { status: 529, headers: { 'content-type': 'application/json' } },
+        );
+      return fetch(url, init);
+    },
+  });
+
+const outputSchema = z.object({ content: z.string() });
+
+describe('genBrainAtomFallback.integration', () => {
+  jest.setTimeout(60000);
+
+  // retries are disabled, so that the chain falls through at once
+  const brainAtomChain = genBrainAtomFallback({
+    slugs: ['claude/sonnet', 'claude/haiku'],
+    retry: false,
+  });
+
+  given('[case1] the primary atom is available', () => {
+    when('[t0] ask is called', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomChain.ask({
+          role: {},
+          prompt: 'respond with exactly: hello world',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('the primary answered', () => {
+        expect(result.metrics.fallback).toEqual({
+          slug: 'claude/sonnet',
+          skipped: [],
+        });
+      });
+    });
+  });
+
+  given('[case2] the primary atom is overloaded', () => {
+    when('[t0] ask is called', () => {
+      const result = useThen('it succeeds', async () =>
+        brainAtomChain.ask(
+          {
+            role: {},
+            prompt: 'respond with exactly: hello world',
+            schema: { output: outputSchema },
+          },
+          {
+            anthropic: genAnthropicOverloadedFor({
+              models: [CONFIG_BY_ATOM_SLUG['claude/sonnet'].model],
+            }),
+          },
+        ),
+      );
+
+      then('the next atom answered', () => {
+        expect(result.output.content.toLowerCase()).toContain('hello');
+        expect(result.metrics.fallback).toEqual({
+          slug: 'claude/haiku',
+          skipped: [{ slug: 'claude/sonnet', kind: 'overloaded' }],
+        });
+      });
+
+      then('cost is priced per the atom which answered', () => {
+        expect(result.metrics.cost.cash.total).toBeDefined();
+      });
+    });
+  });
+
+  given('[case3] every atom is overloaded', () => {
+    when('[t0] ask is called', () => {
+      then('it throws the error of the last atom', async () => {
+        const error = await getError(async () =>
+          brainAtomChain.ask(
+            {
+              role: {},
+              prompt: 'respond with exactly: hello world',
+              schema: { output: outputSchema },
+            },
+            {
+              anthropic: genAnthropicOverloadedFor({
+                models: [
+                  CONFIG_BY_ATOM_SLUG['claude/sonnet'].model,
+                  CONFIG_BY_ATOM_SLUG['claude/haiku'].model,
+                ],
+              }),
+            },
+          ),
+        );
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+        expect((error as BrainOverloadedError).metadata.slug).toEqual(
+          'claude/haiku',
+        );
+      });
+    });
+  });
+
+  given('[case4] the primary fails on a kind which is not declared', () => {
+    when('[t0] the chain falls through on timeouts only', () => {
+      then('it throws the error of the primary', async () => {
+        const error = await getError(async () =>
+          genBrainAtomFallback({
+            slugs: ['claude/sonnet', 'claude/haiku'],
+            retry: false,
+            on: { kinds: ['timeout'] },
+          }).ask(
+            {
+              role: {},
+              prompt: 'respond with exactly: hello world',
+              schema: { output: outputSchema },
+            },
+            {
+              anthropic: genAnthropicOverloadedFor({
+                models: [CONFIG_BY_ATOM_SLUG['claude/sonnet'].model],
+              }),
+            },
+          ),
+        );
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+        expect((error as BrainOverloadedError).metadata.slug).toEqual(
+          'claude/sonnet',
+        );
+      });
+    });
+  });
+});
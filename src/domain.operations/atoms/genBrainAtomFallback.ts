@@ -0,0 +1,141 @@
+import { BadRequestError, UnexpectedCodePathError } from 'helpful-errors';
+import {
+  type AsBrainPromptFor,
+  BrainAtom,
+  type BrainEpisode,
+  type BrainOutput,
+} from 'rhachet';
+import type { BrainPlugs } from 'rhachet/brains';
+import type { Artifact } from 'rhachet-artifact';
+import type { GitFile } from 'rhachet-artifact-git';
+import type { z } from 'zod';
+
+import {
+  BrainError,
+  type BrainErrorKind,
+} from '../../domain.objects/BrainError';
+import type { BrainAtomToolChoice } from '../../infra/cast/castIntoAnthropicToolChoice';
+import {
+  type AnthropicBrainAtomSlug,
+  CONFIG_BY_ATOM_SLUG,
+} from './BrainAtom.config';
+import {
+  type BrainAtomAskContext,
+  type BrainAtomPromptWithMedia,
+  type BrainAtomStreamObserver,
+  type BrainAtomThinkingObserver,
+  genBrainAtom,
+} from './genBrainAtom';
+
+/**
+ * .what = which atom of a fallback chain answered, and which were skipped before it
+ * .why = the cost and quality of an answer depend on the concrete model which produced it
+ */
+export type BrainAtomFallbackMetrics = {
+  slug: AnthropicBrainAtomSlug;
+  skipped: { slug: AnthropicBrainAtomSlug; kind: BrainErrorKind }[];
+};
+
+/**
+ * .what = the error kinds which fall through to the next atom, by default
+ * .why = these signal that the model is unavailable now, not that the ask is bad; any other error would recur on the next atom too
+ */
+export const FALLBACK_KINDS_DEFAULT: BrainErrorKind[] = [
+  'overloaded',
+  'rate-limited',
+  'timeout',
+];
+
+/**
+ * .what = generates a brain atom which asks several anthropic atoms in priority order
+ * .why = an answer from a lesser model beats no answer, when the primary is overloaded or unavailable
+ *
+ * .example
+ *   genBrainAtomFallback({ slugs: ['claude/opus', 'claude/sonnet'] }) // sonnet answers when opus is overloaded, rate limited, or timed out
+ *   genBrainAtomFallback({ slugs: ['claude/opus', 'claude/sonnet'], on: { kinds: ['overloaded'] } }) // fall through on overloads only
+ *
+ * .note = each atom retries per its own policy before the chain falls through; pass `retry: false` to fall through at once
+ * .note = the answered slug is recorded in metrics.fallback; cost is priced per that slug's spec
+ * .note = when the last atom fails too, its error is thrown
+ * .note = a streamed ask may emit events from a failed atom before the next one answers
+ */
+export const genBrainAtomFallback = (
+  input: {
+    slugs: AnthropicBrainAtomSlug[];
+    on?: { kinds?: BrainErrorKind[] };
+  } & Omit<Parameters<typeof genBrainAtom>[0], 'slug'>,
+): BrainAtom => {
+  const { slugs, on, ...setup } = input;
+  const kinds = on?.kinds ?? FALLBACK_KINDS_DEFAULT;
+
+  // fail-fast: a chain needs at least one atom, and each atom at most once
+  if (!slugs.length)
+    throw new BadRequestError('fallback chain requires at least one slug');
+  if (new Set(slugs).size !== slugs.length)
+    throw new BadRequestError('fallback chain must not repeat a slug', {
+      slugs,
+    });
+
+  // declare each atom of the chain; each fails fast on setup it does not support
+  const atoms = slugs.map((slug) => ({
+    slug,
+    atom: genBrainAtom({ slug, ...setup }),
+  }));
+  const primary = CONFIG_BY_ATOM_SLUG[slugs[0]!];
+
+  return new BrainAtom({
+    repo: 'anthropic',
+    slug: slugs.join('>'),
+    description: `fallback chain of ${slugs.join(', then ')}`,
+    spec: primary.spec,
+
+    /**
+     * .what = asks each atom in order, until one answers
+     * .why = falls through only on the declared error kinds; any other failure is thrown as-is
+     */
+    ask: async <TOutput, TPlugs extends BrainPlugs = BrainPlugs>(
+      askInput: {
+        on?: {
+          episode?: BrainEpisode;
+          stream?: BrainAtomStreamObserver;
+          thinking?: BrainAtomThinkingObserver;
+        };
+        plugs?: TPlugs;
+        choice?: BrainAtomToolChoice;
+        role: { briefs?: Artifact<typeof GitFile>[] };
+        prompt: AsBrainPromptFor<TPlugs> | BrainAtomPromptWithMedia;
+        schema: { output: z.Schema<TOutput> };
+      },
+      context?: BrainAtomAskContext,
+    ): Promise<BrainOutput<TOutput, 'atom', TPlugs>> => {
+      const skipped: BrainAtomFallbackMetrics['skipped'] = [];
+      for (const { slug, atom } of atoms) {
+        try {
+          const output: BrainOutput<TOutput, 'atom', TPlugs> = await atom.ask(
+            askInput,
+            context,
+          );
+          const fallback: BrainAtomFallbackMetrics = { slug, skipped };
+          return {
+            ...output,
+            metrics: { ...output.metrics, fallback },
+          } as BrainOutput<TOutput, 'atom', TPlugs>;
+        } catch (error) {
+          // fall through only on the declared kinds, and only while atoms remain
+          const isLast = slug === slugs[slugs.length - 1];
+          if (
+            isLast ||
+            !(error instanceof BrainError) ||
+            !kinds.includes(error.kind)
+          )
+            throw error;
+          skipped.push({ slug, kind: error.kind });
+        }
+      }
+      throw new UnexpectedCodePathError(
+        'fallback chain ended without an answer or an error',
+        { slugs, skipped },
+      );
+    },
+  });
+};
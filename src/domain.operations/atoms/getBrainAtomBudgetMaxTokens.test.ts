@@ -0,0 +1,205 @@
+import { getError, given, then, when } from 'test-fns';
+
+import { BrainBudgetExceededError } from '../../domain.objects/BrainError';
+import { getBrainAtomBudgetMaxTokens } from './getBrainAtomBudgetMaxTokens';
+
+const brain = { slug: 'claude/sonnet', model: 'claude-sonnet-4-5-20250929' };
+
+// $3/MTok input, $15/MTok output, $0.30/MTok cache read, $3.75/MTok cache write (5min), $6/MTok cache write (1h)
+const cash = {
+  per: 'token',
+  input: '$0.000003',
+  output: '$0.000015',
+  cache: {
+    get: '$0.0000003',
+    set: '$0.00000375',
+    setByTtl: { '5m': '$0.00000375', '1h': '$0.000006' },
+  },
+};
+
+describe('getBrainAtomBudgetMaxTokens', () => {
+  given('[case1] a budget which covers the requested output', () => {
+    when('[t0] decided', () => {
+      then('it keeps the requested max tokens', () => {
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$1.00' },
+          cash,
+          cache: false,
+          tokens: { input: 1_000, output: 4_000 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(4_000);
+      });
+    });
+  });
+
+  given('[case2] a budget which covers part of the output', () => {
+    when('[t0] decided without cache', () => {
+      then('it caps max tokens to the rest of the budget', () => {
+        // input: 1000 * $0.000003 = $0.003; rest: $0.007 / $0.000015 = 466
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$0.01' },
+          cash,
+          cache: false,
+          tokens: { input: 1_000, output: 16_384 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(466);
+      });
+    });
+
+    when('[t1] decided with cache', () => {
+      then('it prices input at the cache write price', () => {
+        // input: 1000 * $0.00000375 = $0.00375; rest: $0.00625 / $0.000015 = 416
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$0.01' },
+          cash,
+          cache: { ttl: '5m' },
+          tokens: { input: 1_000, output: 16_384 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(416);
+      });
+    });
+
+    when('[t2] decided with 1h cache', () => {
+      then('it prices input at the 1h cache write price', () => {
+        // input: 1000 * $0.000006 = $0.006; rest: $0.004 / $0.000015 = 266
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$0.01' },
+          cash,
+          cache: { ttl: '1h' },
+          tokens: { input: 1_000, output: 16_384 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(266);
+      });
+    });
+  });
+
+  given('[case3] a budget which the input alone exceeds', () => {
+    when('[t0] decided', () => {
+      then('it throws a budget-exceeded error', async () => {
+        const error = await getError(async () =>
+          getBrainAtomBudgetMaxTokens({
+            brain,
+            budget: { cash: '$0.001' },
+            cash,
+            cache: false,
+            tokens: { input: 1_000, output: 4_000 },
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+        expect(error.message).toContain('input alone');
+      });
+    });
+  });
+
+  given('[case4] a budget with no room beyond thinking', () => {
+    when('[t0] decided', () => {
+      then('it throws a budget-exceeded error', async () => {
+        const error = await getError(async () =>
+          getBrainAtomBudgetMaxTokens({
+            brain,
+            budget: { cash: '$0.01' },
+            cash,
+            cache: false,
+            tokens: { input: 1_000, output: 16_384 },
+            thinking: { budget: { tokens: 2_000 } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+        expect(error.message).toContain('no room for output');
+      });
+    });
+  });
+
+  given('[case5] a request above the tier threshold', () => {
+    when('[t0] decided', () => {
+      then('it prices input and output at the tiered prices', () => {
+        // input: 300_000 * $0.000006 = $1.80; rest: $0.20 / $0.0000225 = 8888
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$2.00' },
+          cash: {
+            ...cash,
+            tiered: {
+              above: { tokens: 200_000 },
+              cash: {
+                per: 'token',
+                input: '$0.000006',
+                output: '$0.0000225',
+                cache: {
+                  get: '$0.0000006',
+                  set: '$0.0000075',
+                  setByTtl: { '5m': '$0.0000075', '1h': '$0.000012' },
+                },
+              },
+            },
+          },
+          cache: false,
+          tokens: { input: 300_000, output: 16_384 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(8_888);
+      });
+    });
+  });
+
+  given('[case6] a spec with a regional premium', () => {
+    when('[t0] decided', () => {
+      then('it prices input and output at the premium rate', () => {
+        // input: 1000 * $0.0000033 = $0.0033; rest: $0.0067 / $0.0000165 = 406
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$0.01' },
+          cash: { ...cash, premium: { rate: 1.1 } },
+          cache: false,
+          tokens: { input: 1_000, output: 4_000 },
+          thinking: null,
+        });
+        expect(maxTokens).toEqual(406);
+      });
+    });
+  });
+
+  given('[case7] a budget of which part was already spent', () => {
+    when('[t0] decided', () => {
+      then('it caps max tokens to the rest of the unspent budget', () => {
+        // unspent: $0.01 - $0.004 = $0.006; input: 1000 * $0.000003 = $0.003; rest: $0.003 / $0.000015 = 200
+        const maxTokens = getBrainAtomBudgetMaxTokens({
+          brain,
+          budget: { cash: '$0.01' },
+          cash,
+          cache: false,
+          tokens: { input: 1_000, output: 16_384 },
+          thinking: null,
+          spent: { cash: '$0.004' },
+        });
+        expect(maxTokens).toEqual(200);
+      });
+    });
+
+    when('[t1] decided, with the budget spent in full', () => {
+      then('it throws BrainBudgetExceededError', async () => {
+        const error = await getError(async () =>
+          getBrainAtomBudgetMaxTokens({
+            brain,
+            budget: { cash: '$0.01' },
+            cash,
+            cache: false,
+            tokens: { input: 1_000, output: 16_384 },
+            thinking: null,
+            spent: { cash: '$0.01' },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { IsoPrice } from 'iso-price';
+
+import { BrainBudgetExceededError } from '../../domain.objects/BrainError';
+import type { AnthropicCacheTtl } from '../../infra/cast/castIntoAnthropicCacheBreakpoints';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import type { BrainAtomSpec } from './BrainAtom.config';
+
+/**
+ * .what = the max cash a single call may spend
+ * .why = caps what one ask can cost, whatever the model decides to write
+ */
+export type BrainCallBudget = { cash: IsoPrice };
+
+/**
+ * .what = decides the max output tokens which keep the worst-case cost of an ask within its budget
+ * .why = output is the only cost the caller can not know upfront, so it is capped instead
+ *
+ * .note
+ *   - input is priced at the higher of the input and cache write prices, when cached, since any input token may be written to cache at the ttl of the atom
+ *   - output is priced at the output price; thinking tokens are billed as output, so they are covered too
+ *   - both are priced at the tiered prices, when the input exceeds the tier threshold
+ *   - both are multiplied by the premium rate, if any
+ *   - the result never exceeds the max tokens already requested
+ *   - cash already spent on the ask (e.g., by a compaction summary) is taken off the budget first
+ */
+export const getBrainAtomBudgetMaxTokens = (input: {
+  brain: { slug: string; model: string };
+  budget: BrainCallBudget;
+  cash: BrainAtomSpec['cost']['cash'];
+  cache: { ttl: AnthropicCacheTtl } | false;
+  tokens: { input: number; output: number };
+  thinking: { budget: { tokens: number } } | null;
+  spent?: { cash: IsoPrice };
+}): number => {
+  const budget =
+    asPriceAmount({ price: input.budget.cash }) -
+    (input.spent ? asPriceAmount({ price: input.spent.cash }) : 0);
+  const cash =
+    input.cash.tiered && input.tokens.input > input.cash.tiered.above.tokens
+      ? input.cash.tiered.cash
+      : input.cash;
+  const premium = input.cash.premium?.rate ?? 1;
+  const priceInput =
+    Math.max(
+      asPriceAmount({ price: cash.input }),
+      input.cache
+        ? asPriceAmount({ price: cash.cache.setByTtl[input.cache.ttl] })
+        : 0,
+    ) * premium;
+  const priceOutput = asPriceAmount({ price: cash.output }) * premium;
+
+  // fail-fast: the input alone must fit the budget
+  const costInput = input.tokens.input * priceInput;
+  if (costInput > budget)
+    throw new BrainBudgetExceededError(
+      'the input alone would exceed the cash budget of this call. shorten the prompt, briefs, or episode, or raise the budget.',
+      {
+        ...input.brain,
+        budget: input.budget,
+        spent: input.spent ?? null,
+        tokens: input.tokens,
+      },
+    );
+
+  // cap the output to what the rest of the budget can pay for
+  const maxTokens = Math.min(
+    input.tokens.output,
+    Math.floor((budget - costInput) / priceOutput),
+  );
+
+  // fail-fast: the cap must leave room for an answer, beyond any thinking budget
+  const minTokens = (input.thinking?.budget.tokens ?? 0) + 1;
+  if (maxTokens < minTokens)
+    throw new BrainBudgetExceededError(
+      'the cash budget of this call leaves no room for output, after the input. raise the budget, or lower the thinking budget.',
+      {
+        ...input.brain,
+        budget: input.budget,
+        tokens: { ...input.tokens, max: maxTokens, min: minTokens },
+      },
+    );
+
+  return maxTokens;
+};
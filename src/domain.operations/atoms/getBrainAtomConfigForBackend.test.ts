@@ -0,0 +1,159 @@
+import { given, then, when } from 'test-fns';
+
+import { CONFIG_BY_ATOM_SLUG } from './BrainAtom.config';
+import { getBrainAtomConfigForBackend } from './getBrainAtomConfigForBackend';
+
+describe('getBrainAtomConfigForBackend', () => {
+  given('[case1] the anthropic backend', () => {
+    const config = CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5'];
+
+    when('[t0] derived', () => {
+      then('it keeps the config as declared', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'anthropic' },
+        });
+        expect(derived.config).toBe(config);
+        expect(derived.model).toEqual('claude-sonnet-4-5-20250929');
+      });
+    });
+  });
+
+  given('[case2] the bedrock backend', () => {
+    const config = CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5'];
+
+    when('[t0] derived without a profile', () => {
+      then('it defaults to the global profile, without premium', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'bedrock' },
+        });
+        expect(derived.model).toEqual(
+          'global.anthropic.claude-sonnet-4-5-20250929-v1:0',
+        );
+        expect(derived.backend).toEqual({
+          provider: 'bedrock',
+          profile: 'global',
+        });
+        expect(derived.config.spec.cost.cash.premium).toBeUndefined();
+      });
+
+      then('it emulates structured output via a forced tool', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'bedrock' },
+        });
+        expect(derived.config.supports.structured).toEqual({
+          outputs: false,
+          episodes: false,
+        });
+        expect(derived.config.model).toEqual(config.model);
+      });
+    });
+
+    when('[t1] derived with a geographic profile', () => {
+      then('it prefixes the profile and applies the premium', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'bedrock', profile: 'eu' },
+        });
+        expect(derived.model).toEqual(
+          'eu.anthropic.claude-sonnet-4-5-20250929-v1:0',
+        );
+        expect(derived.config.spec.cost.cash.premium).toEqual({ rate: 1.1 });
+      });
+    });
+
+    when('[t2] derived without any profile', () => {
+      then('it uses the in-region model id', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'bedrock', profile: null },
+        });
+        expect(derived.model).toEqual(
+          'anthropic.claude-sonnet-4-5-20250929-v1:0',
+        );
+        expect(derived.config.spec.cost.cash.premium).toEqual({ rate: 1.1 });
+      });
+    });
+  });
+
+  given('[case3] bedrock, for a model without a global profile', () => {
+    when('[t0] derived without a profile', () => {
+      then('it defaults to the us profile, without premium', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config: CONFIG_BY_ATOM_SLUG['claude/opus/v4'],
+          backend: { provider: 'bedrock' },
+        });
+        expect(derived.model).toEqual(
+          'us.anthropic.claude-opus-4-20250514-v1:0',
+        );
+        expect(derived.config.spec.cost.cash.premium).toBeUndefined();
+      });
+    });
+  });
+
+  given('[case4] the vertex backend', () => {
+    const config = CONFIG_BY_ATOM_SLUG['claude/haiku/v4.5'];
+
+    when('[t0] derived without a region', () => {
+      then('it defaults to the global region, without premium', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'vertex', projectId: 'demo' },
+        });
+        expect(derived.model).toEqual('claude-haiku-4-5@20251001');
+        expect(derived.backend).toEqual({
+          provider: 'vertex',
+          projectId: 'demo',
+          region: 'global',
+        });
+        expect(derived.config.spec.cost.cash.premium).toBeUndefined();
+      });
+    });
+
+    when('[t1] derived with a regional endpoint', () => {
+      then('it applies the premium', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config,
+          backend: { provider: 'vertex', region: 'europe-west1' },
+        });
+        expect(derived.config.spec.cost.cash.premium).toEqual({ rate: 1.1 });
+      });
+    });
+
+    when('[t2] derived for a model without a global endpoint', () => {
+      then('it defaults to a region which serves it', () => {
+        const derived = getBrainAtomConfigForBackend({
+          config: CONFIG_BY_ATOM_SLUG['claude/haiku/v3.5'],
+          backend: { provider: 'vertex' },
+        });
+        expect(derived.model).toEqual('claude-3-5-haiku@20241022');
+        expect(derived.backend).toEqual({
+          provider: 'vertex',
+          region: 'us-east5',
+        });
+        expect(derived.config.spec.cost.cash.premium).toBeUndefined();
+      });
+    });
+  });
+
+  given('[case5] every atom slug', () => {
+    when('[t0] derived on each cloud backend', () => {
+      then('each maps to a model id of that backend', () => {
+        for (const config of Object.values(CONFIG_BY_ATOM_SLUG)) {
+          const bedrock = getBrainAtomConfigForBackend({
+            config,
+            backend: { provider: 'bedrock', profile: null },
+          });
+          const vertex = getBrainAtomConfigForBackend({
+            config,
+            backend: { provider: 'vertex' },
+          });
+          expect(bedrock.model).toMatch(/^anthropic\.claude-[a-z0-9-]+-v1:0$/);
+          expect(vertex.model).toMatch(/^claude-[a-z0-9-]+@\d{8}$/);
+        }
+      });
+    });
+  });
+});
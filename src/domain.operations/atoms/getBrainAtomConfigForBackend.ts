@@ -0,0 +1,98 @@
+import type { AnthropicBackend } from '../../infra/client/genAnthropicClient';
+import type { BrainAtomConfig } from './BrainAtom.config';
+
+/**
+ * .what = the rate regional endpoints bill over global ones, on cloud backends
+ * .why = bedrock and vertex bill a 10% premium on regional endpoints, as from the 4.5 generation
+ *
+ * .citations
+ *   bedrock: https://platform.claude.com/docs/en/build-with-claude/claude-on-amazon-bedrock
+ *   vertex: https://platform.claude.com/docs/en/build-with-claude/claude-on-vertex-ai
+ */
+const PREMIUM_REGIONAL_RATE = 1.1;
+
+/**
+ * .what = the vertex region of models which are not served via the global endpoint
+ * .why = every claude model is served in us-east5, so it is a safe default
+ */
+const VERTEX_REGION_DEFAULT = 'us-east5';
+
+/**
+ * .what = derives the config, wire model id, and backend of an atom on a backend
+ * .why = each backend names the same model differently, prices its endpoints differently, and lacks some features
+ *
+ * .note
+ *   - model = the id sent on the wire; config.model stays the anthropic id, which identifies the model in errors and metrics
+ *   - backend = with its defaults resolved; bedrock defaults to the global profile, vertex to the global region, where the model is served there
+ *   - spec = with the regional premium, if the endpoint is regional and the model bills one
+ *   - supports.structured = emulated via a forced output tool on cloud backends, since native structured outputs are a beta of the anthropic api
+ */
+export const getBrainAtomConfigForBackend = (input: {
+  config: BrainAtomConfig;
+  backend: AnthropicBackend;
+}): { config: BrainAtomConfig; model: string; backend: AnthropicBackend } => {
+  const { config, backend } = input;
+
+  // on the anthropic api, the config applies as declared
+  if (backend.provider === 'anthropic')
+    return { config, model: config.model, backend };
+
+  // resolve the model id and whether the endpoint is regional
+  const resolved = ((): {
+    model: string;
+    regional: boolean;
+    backend: AnthropicBackend;
+  } => {
+    if (backend.provider === 'bedrock') {
+      const profile =
+        backend.profile === undefined
+          ? config.backends.bedrock.global
+            ? 'global'
+            : 'us'
+          : backend.profile;
+      return {
+        model: profile
+          ? `${profile}.${config.backends.bedrock.model}`
+          : config.backends.bedrock.model,
+        regional: profile !== 'global',
+        backend: { ...backend, profile },
+      };
+    }
+    const region =
+      backend.region ??
+      (config.backends.vertex.global ? 'global' : VERTEX_REGION_DEFAULT);
+    return {
+      model: config.backends.vertex.model,
+      regional: region !== 'global',
+      backend: { ...backend, region },
+    };
+  })();
+
+  // apply the regional premium, if the model bills one
+  const premium =
+    resolved.regional && config.backends.premium.regional
+      ? { rate: PREMIUM_REGIONAL_RATE }
+      : null;
+  const spec: BrainAtomConfig['spec'] = premium
+    ? {
+        ...config.spec,
+        cost: {
+          ...config.spec.cost,
+          cash: { ...config.spec.cost.cash, premium },
+        },
+      }
+    : config.spec;
+
+  return {
+    config: {
+      ...config,
+      spec,
+      supports: {
+        ...config.supports,
+        structured: { outputs: false, episodes: false },
+      },
+    },
+    model: resolved.model,
+    backend: resolved.backend,
+  };
+};
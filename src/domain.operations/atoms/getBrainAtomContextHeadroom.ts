@@ -0,0 +1,102 @@
+import { BadRequestError } from 'helpful-errors';
+
+import { BrainContextTooLongError } from '../../domain.objects/BrainError';
+import { castFromAnthropicError } from '../../infra/cast/castFromAnthropicError';
+import type { AnthropicClient } from '../../infra/client/genAnthropicClient';
+import type {
+  BrainAtomAskRequest,
+  BrainAtomSetup,
+} from './genBrainAtomAskRequest';
+
+/**
+ * .what = how much of the model's context window a request would leave unused
+ * .why = reveals how close briefs plus episode plus prompt come to the limit, before it is hit
+ *
+ * .note
+ *   - input = tokens the request would send, per the api's token count
+ *   - output = tokens reserved for the response (max_tokens, which includes any thinking budget)
+ *   - context = the model's context window, per spec.gain.size.context
+ *   - headroom = context - input - output; negative means the request cannot fit
+ */
+export type BrainAtomContextHeadroom = {
+  tokens: {
+    input: number;
+    output: number;
+    context: number;
+    headroom: number;
+  };
+};
+
+/**
+ * .what = counts the input tokens of the exact request an atom would send
+ * .why = the api's token count is exact, unlike a char based estimate
+ *
+ * .note = bedrock has no token count endpoint, so preflight, budgets, and compaction are unavailable there
+ */
+export const countBrainAtomRequestTokens = async (input: {
+  atom: BrainAtomSetup;
+  request: BrainAtomAskRequest;
+  anthropic: AnthropicClient;
+}): Promise<{ input: number }> => {
+  const { params } = input.request;
+
+  // fail-fast: the backend must be able to count tokens
+  const messages = input.anthropic.beta.messages;
+  if (!('countTokens' in messages))
+    throw new BadRequestError(
+      'this backend can not count tokens, which preflight, budgets, and compaction require. use the anthropic or vertex backend instead.',
+      { slug: input.atom.slug, model: input.atom.model },
+    );
+
+  const count = await messages
+    .countTokens({
+      model: params.model,
+      messages: params.messages,
+      ...(params.betas && { betas: params.betas }),
+      ...(params.system && { system: params.system }),
+      ...(params.tools && { tools: params.tools }),
+      ...(params.thinking && { thinking: params.thinking }),
+      ...(params.output_format && { output_format: params.output_format }),
+    })
+    .catch((error) => {
+      throw castFromAnthropicError({
+        error,
+        slug: input.atom.slug,
+        model: input.atom.config.model,
+      });
+    });
+  return { input: count.input_tokens };
+};
+
+/**
+ * .what = counts the tokens of the exact request an atom would send, and fails fast if they overflow the context window
+ * .why = a 400 after the full request latency is a slow way to learn that the prompt was too long
+ */
+export const getBrainAtomContextHeadroom = async (input: {
+  atom: BrainAtomSetup;
+  request: BrainAtomAskRequest;
+  anthropic: AnthropicClient;
+}): Promise<BrainAtomContextHeadroom> => {
+  const { params } = input.request;
+
+  // count the tokens of the request, as it would be sent
+  const count = await countBrainAtomRequestTokens(input);
+
+  // compare against the context window, less the output budget
+  const context = input.atom.config.spec.gain.size.context.tokens;
+  const tokens = {
+    input: count.input,
+    output: params.max_tokens,
+    context,
+    headroom: context - count.input - params.max_tokens,
+  };
+
+  // fail-fast: the request would overflow the context window
+  if (tokens.headroom < 0)
+    throw new BrainContextTooLongError(
+      'prompt exceeds the context window of the model, after room for output. shorten the prompt, briefs, or episode, or lower options.maxTokens.',
+      { slug: input.atom.slug, model: input.atom.config.model, tokens },
+    );
+
+  return { tokens };
+};
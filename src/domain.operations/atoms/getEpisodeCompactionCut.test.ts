@@ -0,0 +1,115 @@
+import { given, then, when } from 'test-fns';
+
+import { getEpisodeCompactionCut } from './getEpisodeCompactionCut';
+
+/**
+ * .what = generates an exchange of a given size
+ * .why = compaction cuts are decided by chars per exchange
+ */
+const genExchange = (input: { chars: number }) => ({
+  input: 'q'.repeat(input.chars / 2),
+  output: 'a'.repeat(input.chars / 2),
+});
+
+/**
+ * .what = generates an exchange whose input is a tool result
+ * .why = tool results must never open a compacted episode
+ */
+const genToolResultExchange = () => ({
+  input: JSON.stringify([
+    { type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' },
+  ]),
+  output: 'done',
+});
+
+describe('getEpisodeCompactionCut', () => {
+  given('[case1] an episode of plain exchanges', () => {
+    const exchanges = [
+      genExchange({ chars: 400 }),
+      genExchange({ chars: 400 }),
+      genExchange({ chars: 400 }),
+      genExchange({ chars: 400 }),
+    ];
+
+    when('[t0] the excess is less than one exchange', () => {
+      then('it drops only the oldest exchange', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges,
+          tokens: { perChar: 0.25, excess: 50 },
+          keep: { exchanges: 1 },
+        });
+        expect(cut).toEqual(1);
+      });
+    });
+
+    when('[t1] the excess spans two exchanges', () => {
+      then('it drops the two oldest exchanges', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges,
+          tokens: { perChar: 0.25, excess: 150 },
+          keep: { exchanges: 1 },
+        });
+        expect(cut).toEqual(2);
+      });
+    });
+
+    when('[t2] the excess exceeds all but the kept exchanges', () => {
+      then('it keeps the latest exchanges', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges,
+          tokens: { perChar: 0.25, excess: 10_000 },
+          keep: { exchanges: 2 },
+        });
+        expect(cut).toEqual(2);
+      });
+    });
+  });
+
+  given('[case2] an episode with a tool result after the cut', () => {
+    const exchanges = [
+      genExchange({ chars: 400 }),
+      genToolResultExchange(),
+      genExchange({ chars: 400 }),
+      genExchange({ chars: 400 }),
+    ];
+
+    when('[t0] the cut would land on the tool result', () => {
+      then('it advances past the tool result', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges,
+          tokens: { perChar: 0.25, excess: 50 },
+          keep: { exchanges: 1 },
+        });
+        expect(cut).toEqual(2);
+      });
+    });
+
+    when('[t1] the kept exchanges begin with a tool result', () => {
+      then('it backs off, so the tool result keeps its tool_use', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges: [
+            genExchange({ chars: 400 }),
+            genExchange({ chars: 400 }),
+            genToolResultExchange(),
+          ],
+          tokens: { perChar: 0.25, excess: 10_000 },
+          keep: { exchanges: 1 },
+        });
+        expect(cut).toEqual(1);
+      });
+    });
+  });
+
+  given('[case3] an episode shorter than the kept exchanges', () => {
+    when('[t0] a cut is requested', () => {
+      then('it drops none', () => {
+        const cut = getEpisodeCompactionCut({
+          exchanges: [genExchange({ chars: 400 })],
+          tokens: { perChar: 0.25, excess: 10_000 },
+          keep: { exchanges: 2 },
+        });
+        expect(cut).toEqual(0);
+      });
+    });
+  });
+});
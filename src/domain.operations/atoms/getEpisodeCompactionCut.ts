@@ -0,0 +1,53 @@
+/**
+ * .what = detects whether an exchange input carries tool results
+ * .why = a tool result must follow the tool_use it answers, so it can never open a compacted episode
+ */
+const isToolResultInput = (input: string): boolean => {
+  if (!input.startsWith('[')) return false;
+  try {
+    const blocks = JSON.parse(input) as { type?: unknown }[];
+    return blocks.some((block) => block?.type === 'tool_result');
+  } catch (error) {
+    // allowlist SyntaxError: invalid JSON means it's plain text, not a content block array
+    if (error instanceof SyntaxError) return false;
+    throw error;
+  }
+};
+
+/**
+ * .what = decides how many of the oldest exchanges to drop from an episode
+ * .why = sheds enough tokens to fit under the target, without a split of a tool_use from its tool_result
+ *
+ * .note
+ *   - tokens per exchange are estimated from its chars, at the ratio measured for the whole request
+ *   - the latest `keep.exchanges` exchanges are never dropped
+ *   - the cut only lands before an exchange whose input is not a tool result
+ *   - returns 0 when no valid cut sheds any tokens
+ */
+export const getEpisodeCompactionCut = (input: {
+  exchanges: { input: string; output: string }[];
+  tokens: { perChar: number; excess: number };
+  keep: { exchanges: number };
+}): number => {
+  const cutMax = Math.max(0, input.exchanges.length - input.keep.exchanges);
+
+  // drop the oldest exchanges until enough tokens are shed
+  let cut = 0;
+  let shed = 0;
+  while (cut < cutMax && shed < input.tokens.excess) {
+    const exchange = input.exchanges[cut]!;
+    shed +=
+      (exchange.input.length + exchange.output.length) * input.tokens.perChar;
+    cut += 1;
+  }
+
+  // advance past tool results, so that each one stays with its tool_use
+  while (cut < cutMax && isToolResultInput(input.exchanges[cut]!.input))
+    cut += 1;
+
+  // back off if the cut still lands on a tool result
+  while (cut > 0 && isToolResultInput(input.exchanges[cut]?.input ?? ''))
+    cut -= 1;
+
+  return cut;
+};
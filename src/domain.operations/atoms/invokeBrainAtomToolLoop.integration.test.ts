@@ -0,0 +1,160 @@
+import { BadRequestError } from 'helpful-errors';
+import { genBrainPlugToolDeclaration } from 'rhachet/brains';
+import { getError, given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import { genBrainAtom } from './genBrainAtom';
+import { invokeBrainAtomToolLoop } from './invokeBrainAtomToolLoop';
+
+if (!process.env.ANTHROPIC_API_KEY)
+  throw new BadRequestError(
+    'ANTHROPIC_API_KEY is required for integration tests',
+  );
+
+describe('invokeBrainAtomToolLoop.integration', () => {
+  jest.setTimeout(120000);
+
+  // use sonnet, since tool results continue the episode with native structured outputs
+  const brainAtomSonnet = genBrainAtom({ slug: 'claude/sonnet' });
+
+  const calculatorTool = genBrainPlugToolDeclaration({
+    slug: 'test_calculator',
+    name: 'Calculator',
+    description:
+      'performs arithmetic operations. supports add, subtract, multiply, divide.',
+    schema: {
+      input: z.object({
+        a: z.number().describe('first operand'),
+        b: z.number().describe('second operand'),
+        op: z
+          .enum(['add', 'subtract', 'multiply', 'divide'])
+          .describe('operation'),
+      }),
+      output: z.object({ result: z.number() }),
+    },
+    execute: async ({ invocation }) => {
+      const { a, b, op } = invocation.input;
+      switch (op) {
+        case 'add':
+          return { result: a + b };
+        case 'subtract':
+          return { result: a - b };
+        case 'multiply':
+          return { result: a * b };
+        case 'divide':
+          return { result: a / b };
+        default:
+          throw new BadRequestError(`unknown operation: ${op}`);
+      }
+    },
+  });
+
+  given('[case1] a prompt which requires tool use', () => {
+    when('[t0] the loop runs to a final output', () => {
+      const result = useThen('it succeeds', async () =>
+        invokeBrainAtomToolLoop({
+          atom: brainAtomSonnet,
+          ask: {
+            role: {},
+            prompt:
+              'compute (12 + 30) * 2 with the calculator. use the calculator for every step.',
+            schema: { output: z.object({ answer: z.number() }) },
+            plugs: { tools: [calculatorTool] },
+          },
+        }),
+      );
+
+      then('it stops at the output', () => {
+        expect(result.stopped).toEqual('output');
+        expect(result.calls).toBeNull();
+      });
+
+      then('the output is correct', () => {
+        expect(result.output?.answer).toEqual(84);
+      });
+
+      then('every tool call was executed', () => {
+        expect(result.executions.length).toBeGreaterThanOrEqual(2);
+        for (const execution of result.executions)
+          expect(execution.signal).toEqual('success');
+      });
+
+      then('metrics aggregate every round', () => {
+        expect(result.metrics.rounds).toBeGreaterThanOrEqual(2);
+        expect(result.metrics.size.tokens.input).toBeGreaterThan(0);
+        expect(result.metrics.cost.cash.total).toBeDefined();
+      });
+
+      then('episode spans every round', () => {
+        expect(result.episode.exchanges.length).toEqual(result.metrics.rounds);
+      });
+    });
+
+    when('[t1] the loop is limited to one round', () => {
+      const result = useThen('it succeeds', async () =>
+        invokeBrainAtomToolLoop({
+          atom: brainAtomSonnet,
+          ask: {
+            role: {},
+            prompt: 'multiply 7 by 8 with the calculator.',
+            schema: { output: z.object({ answer: z.number() }) },
+            plugs: { tools: [calculatorTool] },
+          },
+          limits: { rounds: 1 },
+        }),
+      );
+
+      then('it stops at the rounds limit', () => {
+        expect(result.stopped).toEqual('limit:rounds');
+        expect(result.output).toBeNull();
+      });
+
+      then('the unexecuted calls are returned', () => {
+        expect(result.calls?.tools.length).toBeGreaterThan(0);
+        expect(result.executions).toEqual([]);
+      });
+    });
+
+    when('[t2] the loop is limited to a cash budget below one round', () => {
+      const result = useThen('it succeeds', async () =>
+        invokeBrainAtomToolLoop({
+          atom: brainAtomSonnet,
+          ask: {
+            role: {},
+            prompt: 'multiply 7 by 8 with the calculator.',
+            schema: { output: z.object({ answer: z.number() }) },
+            plugs: { tools: [calculatorTool] },
+          },
+          limits: { cash: '$0.000001' },
+          parallel: false,
+        }),
+      );
+
+      then('it stops at the cash limit', () => {
+        expect(result.stopped).toEqual('limit:cash');
+        expect(result.metrics.rounds).toEqual(1);
+      });
+    });
+  });
+
+  given('[case2] a loop which could never ask', () => {
+    when('[t0] rounds is zero', () => {
+      then('it fails fast', async () => {
+        const error = await getError(async () =>
+          invokeBrainAtomToolLoop({
+            atom: brainAtomSonnet,
+            ask: {
+              role: {},
+              prompt: 'multiply 7 by 8 with the calculator.',
+              schema: { output: z.object({ answer: z.number() }) },
+              plugs: { tools: [calculatorTool] },
+            },
+            limits: { rounds: 0 },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('at least one round');
+      });
+    });
+  });
+});
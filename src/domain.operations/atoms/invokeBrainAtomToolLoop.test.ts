@@ -0,0 +1,204 @@
+import type { IsoPrice } from 'iso-price';
+import { genBrainPlugToolDeclaration } from 'rhachet/brains';
+import { given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import {
+  genStandInServer,
+  type StandInServer,
+} from '../../.test/genStandInServer';
+import { OUTPUT_TOOL_NAME } from '../../infra/cast/castIntoAnthropicOutputTool';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import { CONFIG_BY_ATOM_SLUG } from './BrainAtom.config';
+import { genBrainAtom } from './genBrainAtom';
+import { genBrainAtomFallback } from './genBrainAtomFallback';
+import {
+  type BrainAtomToolLoopOutput,
+  invokeBrainAtomToolLoop,
+} from './invokeBrainAtomToolLoop';
+
+const calculatorTool = genBrainPlugToolDeclaration({
+  slug: 'test_calculator',
+  name: 'Calculator',
+  description: 'multiplies two numbers',
+  schema: {
+    input: z.object({ a: z.number(), b: z.number() }),
+    output: z.object({ result: z.number() }),
+  },
+  execute: async ({ invocation }) => ({
+    result: invocation.input.a * invocation.input.b,
+  }),
+});
+
+describe('invokeBrainAtomToolLoop', () => {
+  const standIn = {} as StandInServer;
+  beforeAll(async () => {
+    Object.assign(standIn, await genStandInServer());
+  });
+  afterAll(() => standIn.close());
+
+  given(
+    '[case1] a fallback atom, whose every round is served by its fallback',
+    () => {
+      when('[t0] the loop calls a tool, then answers', () => {
+        const result = useThen('it succeeds', async () => {
+          const overloaded = {
+            error: { status: 529, type: 'overloaded_error' },
+          };
+          const usage = { input_tokens: 100_000, output_tokens: 1_000 };
+          standIn.script(
+            overloaded,
+            {
+              content: [
+                { tool: { name: 'test_calculator', input: { a: 7, b: 8 } } },
+              ],
+              usage,
+            },
+            overloaded,
+            // note: haiku emits the output of a continuation via the output tool
+            {
+              content: [
+                { tool: { name: OUTPUT_TOOL_NAME, input: { answer: 56 } } },
+              ],
+              usage,
+            },
+          );
+          return invokeBrainAtomToolLoop({
+            atom: genBrainAtomFallback({
+              slugs: ['claude/sonnet', 'claude/haiku'],
+              cache: false,
+              retry: false,
+              client: { baseURL: standIn.baseURL, apiKey: 'sk-ant-fake' },
+            }),
+            ask: {
+              role: {},
+              prompt: 'what is 7 * 8?',
+              schema: { output: z.object({ answer: z.number() }) },
+              plugs: { tools: [calculatorTool] },
+            },
+          });
+        });
+
+        then('it answers from the result of the tool', () => {
+          expect(result.stopped).toEqual('output');
+          expect(result.output).toEqual({ answer: 56 });
+          expect(result.metrics.rounds).toEqual(2);
+        });
+
+        then(
+          'it sums the cash of each round, as priced by the atom which served it',
+          () => {
+            const { cash } = CONFIG_BY_ATOM_SLUG['claude/haiku'].spec.cost;
+            const expected =
+              2 *
+              (100_000 * asPriceAmount({ price: cash.input }) +
+                1_000 * asPriceAmount({ price: cash.output }));
+            expect(
+              asPriceAmount({ price: result.metrics.cost.cash.total }),
+            ).toBeCloseTo(expected, 8);
+          },
+        );
+      });
+    },
+  );
+
+  given('[case2] a loop with a cash limit', () => {
+    // note: every input is counted at 100k tokens, i.e., $0.30 on sonnet
+    const standInCounted = {} as StandInServer;
+    beforeAll(async () => {
+      Object.assign(
+        standInCounted,
+        await genStandInServer({ tokens: { count: 100_000 } }),
+      );
+    });
+    afterAll(() => standInCounted.close());
+
+    /**
+     * .what = runs the loop with a cash limit, and captures the asks it sent
+     * .why = the stand-in is shared across cases, so only the asks of this loop are of interest
+     */
+    const askWithLimit = async (input: {
+      cash: IsoPrice;
+    }): Promise<{
+      result: BrainAtomToolLoopOutput<{ answer: number }>;
+      asks: typeof standInCounted.requests;
+    }> => {
+      const sentBefore = standInCounted.requests.length;
+      const result = await invokeBrainAtomToolLoop({
+        atom: genBrainAtom({
+          slug: 'claude/sonnet',
+          cache: false,
+          retry: false,
+          client: { baseURL: standInCounted.baseURL, apiKey: 'sk-ant-fake' },
+        }),
+        ask: {
+          role: {},
+          prompt: 'what is 7 * 8?',
+          schema: { output: z.object({ answer: z.number() }) },
+          plugs: { tools: [calculatorTool] },
+        },
+        limits: { cash: input.cash },
+      });
+      const asks = standInCounted.requests
+        .slice(sentBefore)
+        .filter((request) => request.path === '/v1/messages');
+      return { result, asks };
+    };
+
+    // note: the first round spends $0.30 of input and $0.15 of output
+    const usage = { input_tokens: 100_000, output_tokens: 10_000 };
+
+    when('[t0] the cash left can pay for the next round', () => {
+      const loop = useThen('it succeeds', async () => {
+        standInCounted.script(
+          {
+            content: [
+              { tool: { name: 'test_calculator', input: { a: 7, b: 8 } } },
+            ],
+            usage,
+          },
+          { content: [{ output: { answer: 56 } }], usage },
+        );
+        return askWithLimit({ cash: '$0.80' });
+      });
+
+      then('it answers from the result of the tool', () => {
+        expect(loop.result.stopped).toEqual('output');
+        expect(loop.result.output).toEqual({ answer: 56 });
+      });
+
+      then('it caps the next round to the cash left of the loop', () => {
+        expect(loop.asks.length).toEqual(2);
+
+        // $0.80 - $0.45 spent - $0.30 input = $0.05 of output, at $15/MTok
+        expect(loop.asks[1]!.body.max_tokens).toEqual(3_333);
+      });
+    });
+
+    when('[t1] the cash left can not pay for the next round', () => {
+      const loop = useThen('it succeeds', async () => {
+        standInCounted.script({
+          content: [
+            { tool: { name: 'test_calculator', input: { a: 7, b: 8 } } },
+          ],
+          usage,
+        });
+        return askWithLimit({ cash: '$0.60' });
+      });
+
+      then('it stops with limit:cash, before the next round is sent', () => {
+        expect(loop.result.stopped).toEqual('limit:cash');
+        expect(loop.result.output).toEqual(null);
+        expect(loop.result.calls?.tools.length).toEqual(1);
+        expect(loop.result.metrics.rounds).toEqual(1);
+        expect(loop.asks.length).toEqual(1);
+      });
+
+      then('it spends no more than the limit', () => {
+        expect(
+          asPriceAmount({ price: loop.result.metrics.cost.cash.total }),
+        ).toBeLessThanOrEqual(0.6);
+      });
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { BadRequestError, UnexpectedCodePathError } from 'helpful-errors';
+import { dividePrice, type IsoPrice, sumPrices } from 'iso-price';
+import type {
+  BrainAtom,
+  BrainEpisode,
+  BrainOutput,
+  BrainOutputMetrics,
+} from 'rhachet';
+import type {
+  BrainPlugs,
+  BrainPlugToolDefinition,
+  BrainPlugToolExecution,
+  BrainPlugToolInvocation,
+} from 'rhachet/brains';
+import type { Artifact } from 'rhachet-artifact';
+import type { GitFile } from 'rhachet-artifact-git';
+import type { z } from 'zod';
+
+import { BrainBudgetExceededError } from '../../domain.objects/BrainError';
+import type { BrainCacheSetTokens } from '../../infra/cast/castFromAnthropicCacheCreation';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import type {
+  BrainAtomAskContext,
+  BrainAtomStreamObserver,
+  BrainAtomThinkingObserver,
+} from './genBrainAtom';
+
+/**
+ * .what = limits which stop a tool loop before the brain reaches a final output
+ * .why = a brain which keeps on calling tools would otherwise spend without bound
+ *
+ * .note
+ *   - rounds = max asks of the atom; each round after the first carries the tool results of the one before
+ *   - cash = max total cost of all rounds; each round is asked with the cash left as its budget, so no round can overshoot it
+ */
+export type BrainAtomToolLoopLimits = {
+  rounds: number;
+  cash: IsoPrice | null;
+};
+
+/**
+ * .what = the default tool loop limits
+ * .why = enough rounds for multi-step tool use, without a cash cap unless the caller sets one
+ */
+export const TOOL_LOOP_LIMITS_DEFAULT: BrainAtomToolLoopLimits = {
+  rounds: 10,
+  cash: null,
+};
+
+/**
+ * .what = the result of a tool loop
+ * .why = exposes the final output plus every tool execution and the metrics of all rounds
+ *
+ * .note
+ *   - stopped = 'output' when the brain answered; otherwise the limit which stopped the loop, with output = null
+ *   - calls = the tool calls left unexecuted when a limit stopped the loop; null when the brain answered
+ *   - episode = the episode of the last round, to continue from
+ */
+export type BrainAtomToolLoopOutput<TOutput> = {
+  output: TOutput | null;
+  stopped: 'output' | 'limit:rounds' | 'limit:cash';
+  calls: { tools: BrainPlugToolInvocation[] } | null;
+  executions: BrainPlugToolExecution[];
+  episode: BrainEpisode;
+  metrics: BrainOutputMetrics & {
+    cache: { set: { tokens: BrainCacheSetTokens } };
+    rounds: number;
+  };
+};
+
+/**
+ * .what = asks an atom, executes the tools it calls, and feeds their results back, until it answers
+ * .why = every caller of an atom with plugs.tools would otherwise re-implement the same loop
+ *
+ * .note
+ *   - tools are executed via their own rhachet definitions; results reach the model via castIntoAnthropicToolResult
+ *   - the tool calls of one round run in parallel by default; pass `parallel: false` to run them in order
+ *   - metrics sum the tokens and cash of all rounds; time is the wall clock of the loop
+ *
+ * .example
+ *   const result = await invokeBrainAtomToolLoop({
+ *     atom: genBrainAtom({ slug: 'claude/sonnet' }),
+ *     ask: { role: {}, prompt: 'what is 7 * 8?', schema: { output }, plugs: { tools: [calculatorTool] } },
+ *     limits: { rounds: 5, cash: '$0.10' },
+ *   });
+ */
+export const invokeBrainAtomToolLoop = async <TOutput>(
+  input: {
+    atom: BrainAtom;
+    ask: {
+      on?: {
+        episode?: BrainEpisode;
+        stream?: BrainAtomStreamObserver;
+        thinking?: BrainAtomThinkingObserver;
+      };
+      plugs: { tools: BrainPlugToolDefinition[] };
+      role: { briefs?: Artifact<typeof GitFile>[] };
+      prompt: string;
+      schema: { output: z.Schema<TOutput> };
+    };
+    limits?: Partial<BrainAtomToolLoopLimits>;
+    parallel?: boolean;
+  },
+  context?: {
+    atom?: BrainAtomAskContext;
+    tools?: unknown;
+  },
+): Promise<BrainAtomToolLoopOutput<TOutput>> => {
+  const startTime = Date.now();
+  const limits: BrainAtomToolLoopLimits = {
+    ...TOOL_LOOP_LIMITS_DEFAULT,
+    ...input.limits,
+  };
+  const parallel = input.parallel ?? true;
+  const tools: BrainPlugToolDefinition[] = input.ask.plugs.tools;
+
+  // fail-fast: the loop must be able to ask at least once
+  if (!Number.isInteger(limits.rounds) || limits.rounds < 1)
+    throw new BadRequestError('tool loop must allow at least one round', {
+      rounds: limits.rounds,
+    });
+
+  // fail-fast: every tool must be executable, since the loop runs them
+  const toolsWithoutExecute = tools.filter(
+    (tool) => typeof tool.execute !== 'function',
+  );
+  if (toolsWithoutExecute.length)
+    throw new BadRequestError(
+      'tool loop requires tools with execute. declare them via genBrainPlugToolDeclaration.',
+      { tools: toolsWithoutExecute.map((tool) => tool.slug) },
+    );
+
+  /**
+   * .what = executes one tool invocation via its definition
+   * .why = looks up the definition the brain called by slug
+   */
+  const execute = async (
+    invocation: BrainPlugToolInvocation,
+  ): Promise<BrainPlugToolExecution> => {
+    const tool = tools.find((tool) => tool.slug === invocation.slug);
+    if (!tool)
+      throw new UnexpectedCodePathError(
+        'brain called a tool which was not plugged in',
+        { slug: invocation.slug, tools: tools.map((tool) => tool.slug) },
+      );
+    return tool.execute({ invocation }, context?.tools);
+  };
+
+  // ask, then execute calls and ask again, until an output or a limit
+  const rounds: BrainOutput<TOutput, 'atom', BrainPlugs>[] = [];
+  const executions: BrainPlugToolExecution[] = [];
+  let prompt: string | BrainPlugToolExecution[] = input.ask.prompt;
+  let episode: BrainEpisode | undefined = input.ask.on?.episode;
+  const getLoopOutput = (
+    stopped: BrainAtomToolLoopOutput<TOutput>['stopped'],
+  ): BrainAtomToolLoopOutput<TOutput> => {
+    const last = rounds[rounds.length - 1]!;
+    return {
+      output: stopped === 'output' ? last.output : null,
+      stopped,
+      calls: stopped === 'output' ? null : last.calls,
+      executions,
+      episode: last.episode,
+      metrics: {
+        size: getToolLoopSize({ rounds }),
+        cost: {
+          time: { milliseconds: Date.now() - startTime },
+          cash: getToolLoopCash({ rounds }),
+        },
+        cache: { set: { tokens: getToolLoopCacheSets({ rounds }) } },
+        rounds: rounds.length,
+      },
+    };
+  };
+  while (true) {
+    // ask with the cash left as the budget of this round, if the loop is capped
+    // note: stops with limit:cash, rather than throws, once the cash left can not afford the next round
+    const budget = getToolLoopRoundBudget({
+      cash: limits.cash,
+      rounds,
+      context: context?.atom,
+    });
+    const result: BrainOutput<TOutput, 'atom', BrainPlugs> | null =
+      await input.atom
+        .ask(
+          {
+            ...input.ask,
+            on: { ...input.ask.on, episode },
+            prompt,
+          },
+          budget ? { ...context?.atom, budget } : context?.atom,
+        )
+        .catch((error) => {
+          if (
+            budget &&
+            rounds.length &&
+            error instanceof BrainBudgetExceededError
+          )
+            return null;
+          throw error;
+        });
+    if (!result) return getLoopOutput('limit:cash');
+    rounds.push(result);
+    episode = result.episode;
+
+    // stop once the brain answers, or once a limit is hit
+    const stopped = ((): BrainAtomToolLoopOutput<TOutput>['stopped'] | null => {
+      if (!result.calls) return 'output';
+      if (rounds.length >= limits.rounds) return 'limit:rounds';
+      if (
+        limits.cash !== null &&
+        asPriceAmount({
+          price: getToolLoopCash({ rounds }).total,
+        }) >= asPriceAmount({ price: limits.cash })
+      )
+        return 'limit:cash';
+      return null;
+    })();
+    if (stopped) return getLoopOutput(stopped);
+
+    // execute the calls of this round, as the next round's prompt
+    const invocations: BrainPlugToolInvocation[] = result.calls?.tools ?? [];
+    const executed = parallel
+      ? await Promise.all(invocations.map(execute))
+      : await invocations.reduce<Promise<BrainPlugToolExecution[]>>(
+          async (prior, invocation) => [
+            ...(await prior),
+            await execute(invocation),
+          ],
+          Promise.resolve([]),
+        );
+    executions.push(...executed);
+    prompt = executed;
+  }
+};
+
+/**
+ * .what = decides the budget of the next round, from the cash left of the loop
+ * .why = caps each round's worst-case cost to what the loop has left, so the last round can not overshoot the limit
+ *
+ * .note
+ *   - null when the loop has no cash limit; the round keeps the caller's own budget, if any
+ *   - the caller's own budget applies instead, when it is the lower of the two
+ */
+const getToolLoopRoundBudget = (input: {
+  cash: IsoPrice | null;
+  rounds: { metrics: BrainOutputMetrics }[];
+  context: BrainAtomAskContext | undefined;
+}): { cash: IsoPrice } | null => {
+  if (input.cash === null) return null;
+  const spent = getToolLoopCash({ rounds: input.rounds }).total;
+  const left: IsoPrice = input.rounds.length
+    ? sumPrices(input.cash, dividePrice({ of: spent, by: -1 })) // subtract what was spent, as a negated sum
+    : input.cash;
+  const own = input.context?.budget;
+  if (
+    own &&
+    asPriceAmount({ price: own.cash }) < asPriceAmount({ price: left })
+  )
+    return own;
+  return { cash: left };
+};
+
+/**
+ * .what = sums the token and char sizes of every round
+ * .why = the loop is billed for every round, not just the last
+ */
+const getToolLoopSize = (input: {
+  rounds: { metrics: BrainOutputMetrics }[];
+}): BrainOutputMetrics['size'] => {
+  const sum = (get: (size: BrainOutputMetrics['size']) => number): number =>
+    input.rounds.reduce((total, round) => total + get(round.metrics.size), 0);
+  return {
+    tokens: {
+      input: sum((size) => size.tokens.input),
+      output: sum((size) => size.tokens.output),
+      cache: {
+        get: sum((size) => size.tokens.cache.get),
+        set: sum((size) => size.tokens.cache.set),
+      },
+    },
+    chars: {
+      input: sum((size) => size.chars.input),
+      output: sum((size) => size.chars.output),
+      cache: {
+        get: sum((size) => size.chars.cache.get),
+        set: sum((size) => size.chars.cache.set),
+      },
+    },
+  };
+};
+
+/**
+ * .what = reads the cache write tokens of a round, by ttl
+ * .why = 1h writes are priced higher than 5m writes
+ *
+ * .note = a round without the split (e.g., from a foreign atom) counts every write as 5m
+ */
+const getToolLoopRoundCacheSets = (input: {
+  round: { metrics: BrainOutputMetrics };
+}): BrainCacheSetTokens =>
+  (
+    input.round.metrics as Partial<{
+      cache: { set: { tokens: BrainCacheSetTokens } };
+    }>
+  ).cache?.set.tokens ?? {
+    '5m': input.round.metrics.size.tokens.cache.set,
+    '1h': 0,
+  };
+
+/**
+ * .what = sums the cache write tokens of every round, by ttl
+ * .why = the loop is billed for every round, not just the last
+ */
+const getToolLoopCacheSets = (input: {
+  rounds: { metrics: BrainOutputMetrics }[];
+}): BrainCacheSetTokens => {
+  const sets = input.rounds.map((round) =>
+    getToolLoopRoundCacheSets({ round }),
+  );
+  return {
+    '5m': sets.reduce((total, set) => total + set['5m'], 0),
+    '1h': sets.reduce((total, set) => total + set['1h'], 0),
+  };
+};
+
+/**
+ * .what = sums the cash cost of every round
+ * .why = each round was already priced by the atom which answered it; e.g., a fallback atom prices each round per the model which served it
+ */
+const getToolLoopCash = (input: {
+  rounds: { metrics: BrainOutputMetrics }[];
+}): BrainOutputMetrics['cost']['cash'] => {
+  const cashes = input.rounds.map((round) => round.metrics.cost.cash);
+  return {
+    total: sumPrices(...cashes.map((cash) => cash.total)),
+    deets: {
+      input: sumPrices(...cashes.map((cash) => cash.deets.input)),
+      output: sumPrices(...cashes.map((cash) => cash.deets.output)),
+      cache: {
+        get: sumPrices(...cashes.map((cash) => cash.deets.cache.get)),
+        set: sumPrices(...cashes.map((cash) => cash.deets.cache.set)),
+      },
+    },
+  };
+};
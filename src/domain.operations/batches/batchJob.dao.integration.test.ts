@@ -0,0 +1,113 @@
+import * as os from 'os';
+import * as path from 'path';
+import { given, then, when } from 'test-fns';
+
+import {
+  type BrainAtomBatchJob,
+  listBrainAtomBatchJobs,
+  readBrainAtomBatchJob,
+  writeBrainAtomBatchJob,
+} from './batchJob.dao';
+
+const genJob = (input: { exid: string }): BrainAtomBatchJob => ({
+  exid: input.exid,
+  slug: 'claude/haiku',
+  status: 'in_progress',
+  asks: {
+    'ticket-1': {
+      chars: { input: 12 },
+      exchange: { input: 'classify: hi' },
+      output: { via: 'format' },
+      episode: null,
+    },
+  },
+  submitted: { at: '2026-01-01T00:00:00.000Z' },
+  ended: null,
+  collected: null,
+});
+
+describe('batchJob.dao', () => {
+  given('[case1] an empty store (no directory)', () => {
+    const storeDir = path.join(
+      os.tmpdir(),
+      `batch-test-${Date.now()}-case1`,
+      'batches',
+    );
+
+    when('[t0] listBrainAtomBatchJobs is called', () => {
+      then('returns an empty list', async () => {
+        const jobs = await listBrainAtomBatchJobs({ from: storeDir });
+        expect(jobs).toEqual([]);
+      });
+    });
+
+    when('[t1] readBrainAtomBatchJob is called', () => {
+      then('returns null', async () => {
+        const job = await readBrainAtomBatchJob({
+          exid: 'msgbatch_absent',
+          from: storeDir,
+        });
+        expect(job).toBeNull();
+      });
+    });
+  });
+
+  given('[case2] a store with jobs written to it', () => {
+    const storeDir = path.join(
+      os.tmpdir(),
+      `batch-test-${Date.now()}-case2`,
+      'batches',
+    );
+
+    beforeAll(async () => {
+      await writeBrainAtomBatchJob({
+        job: genJob({ exid: 'msgbatch_a' }),
+        to: storeDir,
+      });
+      await writeBrainAtomBatchJob({
+        job: genJob({ exid: 'msgbatch_b' }),
+        to: storeDir,
+      });
+    });
+
+    when('[t0] readBrainAtomBatchJob is called by exid', () => {
+      then('returns the job as written', async () => {
+        const job = await readBrainAtomBatchJob({
+          exid: 'msgbatch_a',
+          from: storeDir,
+        });
+        expect(job).toEqual(genJob({ exid: 'msgbatch_a' }));
+      });
+    });
+
+    when('[t1] listBrainAtomBatchJobs is called', () => {
+      then('returns every job', async () => {
+        const jobs = await listBrainAtomBatchJobs({ from: storeDir });
+        expect(jobs.map((job) => job.exid)).toEqual([
+          'msgbatch_a',
+          'msgbatch_b',
+        ]);
+      });
+    });
+
+    when('[t2] a job is written again with a later status', () => {
+      then('the job is overwritten in place', async () => {
+        await writeBrainAtomBatchJob({
+          job: {
+            ...genJob({ exid: 'msgbatch_a' }),
+            status: 'ended',
+            ended: { at: '2026-01-01T00:30:00.000Z' },
+          },
+          to: storeDir,
+        });
+        const job = await readBrainAtomBatchJob({
+          exid: 'msgbatch_a',
+          from: storeDir,
+        });
+        expect(job?.status).toEqual('ended');
+        const jobs = await listBrainAtomBatchJobs({ from: storeDir });
+        expect(jobs).toHaveLength(2);
+      });
+    });
+  });
+});
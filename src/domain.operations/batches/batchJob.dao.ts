@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BrainEpisode } from 'rhachet';
+
+import type { AnthropicBrainAtomSlug } from '../atoms/BrainAtom.config';
+
+/**
+ * .what = the local state of a submitted message batch
+ * .why = enables a crashed process to resume collection of results it already paid for
+ *
+ * .note = asks are keyed by custom id; each keeps what the output cast needs to rebuild its episode and metrics
+ */
+export interface BrainAtomBatchJob {
+  exid: string; // anthropic message batch id
+  slug: AnthropicBrainAtomSlug;
+  status: 'in_progress' | 'canceling' | 'ended';
+  asks: Record<
+    string,
+    {
+      chars: { input: number };
+      exchange: { input: string };
+      output: { via: 'format' | 'tool' };
+      episode: BrainEpisode | null;
+    }
+  >;
+  submitted: { at: string };
+  ended: { at: string } | null;
+  collected: { at: string } | null;
+}
+
+/**
+ * .what = reads a batch job from the store directory
+ * .why = enables lookup of a job by its batch id, after a restart
+ */
+export const readBrainAtomBatchJob = async (input: {
+  exid: string;
+  from: string;
+}): Promise<BrainAtomBatchJob | null> => {
+  const jobPath = path.join(input.from, `${input.exid}.json`);
+
+  // check if file exists
+  try {
+    await fs.access(jobPath);
+  } catch {
+    return null;
+  }
+
+  // read and parse the file
+  const content = await fs.readFile(jobPath, 'utf-8');
+  return JSON.parse(content) as BrainAtomBatchJob;
+};
+
+/**
+ * .what = writes a batch job to the store directory
+ * .why = enables persistence of job state across processes
+ */
+export const writeBrainAtomBatchJob = async (input: {
+  job: BrainAtomBatchJob;
+  to: string;
+}): Promise<void> => {
+  // ensure store directory exists
+  await fs.mkdir(input.to, { recursive: true });
+
+  // write with 2-space indent and newline at end
+  const content = JSON.stringify(input.job, null, 2) + '\n';
+  await fs.writeFile(path.join(input.to, `${input.job.exid}.json`), content);
+};
+
+/**
+ * .what = lists all batch jobs in the store directory
+ * .why = enables discovery of jobs left uncollected by a crashed process
+ */
+export const listBrainAtomBatchJobs = async (input: {
+  from: string;
+}): Promise<BrainAtomBatchJob[]> => {
+  // check if directory exists
+  try {
+    await fs.access(input.from);
+  } catch {
+    return [];
+  }
+
+  // read each job file
+  const files = await fs.readdir(input.from);
+  return Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map(async (file) => {
+        const content = await fs.readFile(path.join(input.from, file), 'utf-8');
+        return JSON.parse(content) as BrainAtomBatchJob;
+      }),
+  );
+};
@@ -0,0 +1,163 @@
+import { BadRequestError } from 'helpful-errors';
+import * as os from 'os';
+import * as path from 'path';
+import { getError, given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import {
+  genStandInServer,
+  type StandInServer,
+} from '../../.test/genStandInServer';
+import {
+  BrainOverloadedError,
+  BrainSchemaMismatchError,
+} from '../../domain.objects/BrainError';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import { genBrainAtomBatch } from './genBrainAtomBatch';
+
+const outputSchema = z.object({ content: z.string() });
+
+describe('genBrainAtomBatch', () => {
+  const standIn = {} as StandInServer;
+  beforeAll(async () => {
+    Object.assign(standIn, await genStandInServer());
+  });
+  afterAll(() => standIn.close());
+
+  // caches nothing, and stores jobs apart per case, so that each case reads exactly as asked
+  const genBatch = (input: { store: string }) =>
+    genBrainAtomBatch({
+      slug: 'claude/sonnet',
+      cache: false,
+      store: {
+        dir: path.join(os.tmpdir(), `batch-test-${Date.now()}-${input.store}`),
+      },
+      client: { baseURL: standIn.baseURL, apiKey: 'sk-ant-fake' },
+    });
+
+  given('[case1] a batch whose asks succeed, error, and expire', () => {
+    when('[t0] submitted, polled, ended, and collected', () => {
+      const flow = useThen('it succeeds', async () => {
+        const batch = genBatch({ store: 'case1' });
+        standIn.script(
+          {
+            content: [{ output: { content: 'hello' } }],
+            usage: { input_tokens: 100_000, output_tokens: 100_000 },
+          },
+          { error: { status: 529, type: 'overloaded_error' } },
+          { unprocessed: 'expired' },
+        );
+        const job = await batch.submit({
+          asks: {
+            'ticket-1': { role: {}, prompt: 'say hello' },
+            'ticket-2': { role: {}, prompt: 'say hi' },
+            'ticket-3': { role: {}, prompt: 'say hey' },
+          },
+          schema: { output: outputSchema },
+        });
+        const request = standIn.requests.at(-1)!;
+        const polled = await batch.poll({ job });
+        standIn.batches.end();
+        const results = await batch.collect({
+          job,
+          schema: { output: outputSchema },
+        });
+        const resumable = await batch.resume();
+        return { job, request, polled, results, resumable };
+      });
+
+      then('it submits one batch, with one request per custom id', () => {
+        const { request, job } = flow;
+        expect(request.path).toEqual('/v1/messages/batches');
+        expect(request.betas).toContain('message-batches-2024-09-24');
+        expect(
+          request.body.requests.map(
+            (ask: { custom_id: string }) => ask.custom_id,
+          ),
+        ).toEqual(['ticket-1', 'ticket-2', 'ticket-3']);
+        expect(job.exid).toMatch(/^msgbatch_fake_/);
+        expect(job.status).toEqual('in_progress');
+      });
+
+      then('it polls the batch as in progress, until it ended', () => {
+        expect(flow.polled.status).toEqual('in_progress');
+        expect(flow.polled.ended).toBeNull();
+      });
+
+      then('it collects the output of the ask which succeeded', () => {
+        expect(flow.results.outputs['ticket-1']?.output).toEqual({
+          content: 'hello',
+        });
+      });
+
+      then('it prices the output at the batch discount of 50%', () => {
+        // input: 100k at $3/M = $0.30; output: 100k at $15/M = $1.50; halved
+        const { cash } = flow.results.outputs['ticket-1']!.metrics.cost;
+        expect(asPriceAmount({ price: cash.total })).toBeCloseTo(0.9, 6);
+      });
+
+      then('it collects the ask which errored as a brain error', () => {
+        expect(flow.results.errors['ticket-2']).toBeInstanceOf(
+          BrainOverloadedError,
+        );
+      });
+
+      then('it collects the ask which expired as an error', () => {
+        expect(flow.results.errors['ticket-3']?.message).toContain(
+          'batch ask was expired',
+        );
+        expect(Object.keys(flow.results.outputs)).toEqual(['ticket-1']);
+      });
+
+      then('it no longer resumes the job, once collected', () => {
+        expect(flow.resumable).toEqual([]);
+      });
+    });
+  });
+
+  given('[case2] a batch which has not ended yet', () => {
+    when('[t0] collected', () => {
+      then('it throws BadRequestError', async () => {
+        const batch = genBatch({ store: 'case2' });
+        standIn.script({ content: [{ output: { content: 'hello' } }] });
+        const job = await batch.submit({
+          asks: { 'ticket-1': { role: {}, prompt: 'say hello' } },
+          schema: { output: outputSchema },
+        });
+        const error = await getError(async () =>
+          batch.collect({ job, schema: { output: outputSchema } }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(await batch.resume()).toHaveLength(1);
+      });
+    });
+  });
+
+  given('[case3] a batch whose ask answers off schema', () => {
+    when('[t0] collected', () => {
+      then("it collects the schema mismatch as that ask's error", async () => {
+        const batch = genBatch({ store: 'case3' });
+        standIn.script(
+          { content: [{ output: { content: 'hello' } }] },
+          { content: [{ output: { content: 7 } }] },
+        );
+        const job = await batch.submit({
+          asks: {
+            'ticket-1': { role: {}, prompt: 'say hello' },
+            'ticket-2': { role: {}, prompt: 'say seven' },
+          },
+          schema: { output: outputSchema },
+        });
+        standIn.batches.end();
+        const results = await batch.collect({
+          job,
+          schema: { output: outputSchema },
+        });
+        expect(Object.keys(results.outputs)).toEqual(['ticket-1']);
+        expect(results.errors['ticket-2']).toBeInstanceOf(
+          BrainSchemaMismatchError,
+        );
+      });
+    });
+  });
+});
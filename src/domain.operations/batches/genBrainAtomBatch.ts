@@ -0,0 +1,475 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError, HelpfulError } from 'helpful-errors';
+import { dividePrice } from 'iso-price';
+import { homedir } from 'os';
+import * as path from 'path';
+import type { BrainEpisode, BrainOutput } from 'rhachet';
+import type { Artifact } from 'rhachet-artifact';
+import type { GitFile } from 'rhachet-artifact-git';
+import type { z } from 'zod';
+
+import {
+  BrainAuthInvalidError,
+  BrainContextTooLongError,
+  BrainOutputTruncatedError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainRefusalError,
+  BrainSchemaMismatchError,
+} from '../../domain.objects/BrainError';
+import { castFromAnthropicError } from '../../infra/cast/castFromAnthropicError';
+import type { AnthropicCacheTtl } from '../../infra/cast/castIntoAnthropicCacheBreakpoints';
+import type { BrainAtomInferenceOptions } from '../../infra/cast/castIntoAnthropicInferenceParams';
+import {
+  type AnthropicClientOptions,
+  genAnthropicClientGetter,
+} from '../../infra/client/genAnthropicClient';
+import { assertBrainAtomSetup } from '../atoms/assertBrainAtomSetup';
+import {
+  type AnthropicBrainAtomSlug,
+  type BrainAtomCash,
+  type BrainAtomSpec,
+  CONFIG_BY_ATOM_SLUG,
+} from '../atoms/BrainAtom.config';
+import { castIntoBrainAtomOutput } from '../atoms/castIntoBrainAtomOutput';
+import type {
+  BrainAtomAskContext,
+  BrainAtomPromptWithMedia,
+} from '../atoms/genBrainAtom';
+import {
+  type BrainAtomSetup,
+  genBrainAtomAskRequest,
+} from '../atoms/genBrainAtomAskRequest';
+import {
+  type BrainAtomBatchJob,
+  listBrainAtomBatchJobs,
+  readBrainAtomBatchJob,
+  writeBrainAtomBatchJob,
+} from './batchJob.dao';
+
+// re-export for consumers
+export type { BrainAtomBatchJob };
+
+/**
+ * .what = a single ask within a batch
+ * .why = the subset of an atom ask which a batch can carry (no streams, no observers)
+ */
+export type BrainAtomBatchAsk = {
+  on?: { episode?: BrainEpisode };
+  role: { briefs?: Artifact<typeof GitFile>[] };
+  prompt: string | BrainAtomPromptWithMedia;
+};
+
+/**
+ * .what = the collected results of a batch, keyed by custom id
+ * .why = a batch may partially succeed; each ask resolves to an output or an error
+ */
+export type BrainAtomBatchResults<TOutput> = {
+  outputs: Record<string, BrainOutput<TOutput, 'atom'>>;
+  errors: Record<string, Error>;
+};
+
+/**
+ * .what = the default directory for the local job-state store
+ * .why = survives restarts, so a crashed process can resume collection
+ */
+const STORE_DIR_DEFAULT = path.join(
+  homedir(),
+  '.rhachet',
+  'anthropic',
+  'batches',
+);
+
+/**
+ * .what = custom ids the batch api accepts
+ * .why = fail-fast before a whole batch is rejected for one bad id
+ */
+const CUSTOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * .what = max asks per message batch
+ * .src = https://platform.claude.com/docs/en/build-with-claude/batch-processing
+ */
+const ASKS_PER_BATCH_MAX = 100_000;
+
+/**
+ * .what = prices a cash table at the message batch discount
+ * .why = batches are billed at 50% of standard prices, for input, output, and cache alike
+ * .src = https://platform.claude.com/docs/en/about-claude/pricing#batch-processing
+ */
+const getCashAtBatchDiscount = (cash: BrainAtomCash): BrainAtomCash => ({
+  ...cash,
+  cache: {
+    get: dividePrice({ of: cash.cache.get, by: 2 }),
+    set: dividePrice({ of: cash.cache.set, by: 2 }),
+    setByTtl: {
+      '5m': dividePrice({ of: cash.cache.setByTtl['5m'], by: 2 }),
+      '1h': dividePrice({ of: cash.cache.setByTtl['1h'], by: 2 }),
+    },
+  },
+  input: dividePrice({ of: cash.input, by: 2 }),
+  output: dividePrice({ of: cash.output, by: 2 }),
+});
+
+/**
+ * .what = prices a spec's cash at the message batch discount, tiers included
+ * .why = the batch discount stacks with long context prices
+ */
+const getSpecCashAtBatchDiscount = (
+  cash: BrainAtomSpec['cost']['cash'],
+): BrainAtomSpec['cost']['cash'] => ({
+  ...getCashAtBatchDiscount(cash),
+  ...(cash.tiered && {
+    tiered: {
+      above: cash.tiered.above,
+      cash: getCashAtBatchDiscount(cash.tiered.cash),
+    },
+  }),
+});
+
+/**
+ * .what = casts a failed batch result into an error
+ * .why = errored asks surface the same brain errors as a direct ask would
+ */
+const castFromBatchResultFailure = (input: {
+  customId: string;
+  result: Exclude<
+    Anthropic.Beta.Messages.Batches.BetaMessageBatchResult,
+    { type: 'succeeded' }
+  >;
+  atom: BrainAtomSetup;
+}): Error => {
+  const metadata = {
+    slug: input.atom.slug,
+    model: input.atom.config.model,
+    customId: input.customId,
+  };
+  if (input.result.type !== 'errored')
+    return new HelpfulError(`batch ask was ${input.result.type}`, metadata);
+  const error = input.result.error.error;
+  if (
+    error.type === 'authentication_error' ||
+    error.type === 'permission_error'
+  )
+    return new BrainAuthInvalidError(error.message, metadata);
+  if (error.type === 'rate_limit_error')
+    return new BrainRateLimitedError(error.message, metadata);
+  if (error.type === 'overloaded_error')
+    return new BrainOverloadedError(error.message, metadata);
+  return new HelpfulError(`batch ask errored: ${error.message}`, {
+    ...metadata,
+    error,
+  });
+};
+
+/**
+ * .what = whether an error is a failure of one ask's output, rather than of the batch or of the code
+ * .why = such failures are collected per ask, so that one refusal, truncation, or schema mismatch does not sink the batch
+ */
+const isBatchAskOutputFailure = (
+  error: unknown,
+): error is
+  | BrainRefusalError
+  | BrainOutputTruncatedError
+  | BrainSchemaMismatchError
+  | BrainContextTooLongError =>
+  error instanceof BrainRefusalError ||
+  error instanceof BrainOutputTruncatedError ||
+  error instanceof BrainSchemaMismatchError ||
+  error instanceof BrainContextTooLongError;
+
+/**
+ * .what = factory to generate a message batch api for a claude brain atom
+ * .why = bulk offline asks at the 50% batch discount, with a local job-state store to resume after a crash
+ *
+ * .example
+ *   const batch = genBrainAtomBatch({ slug: 'claude/haiku' });
+ *   const job = await batch.submit({ asks: { 'ticket-1': { role: {}, prompt: '...' } }, schema: { output } });
+ *   while ((await batch.poll({ job })).status !== 'ended') await sleep(60_000);
+ *   const { outputs, errors } = await batch.collect({ job, schema: { output } });
+ *
+ * .note = results are typically ready within an hour, and always within 24 hours
+ * .note = on restart, `batch.resume()` lists jobs of this slug which were submitted but not yet collected
+ */
+export const genBrainAtomBatch = (input: {
+  slug: AnthropicBrainAtomSlug;
+  cache?: { ttl: AnthropicCacheTtl } | false;
+  thinking?: { budget: { tokens: number } };
+  options?: BrainAtomInferenceOptions;
+  store?: { dir: string };
+  anthropic?: Anthropic;
+  client?: AnthropicClientOptions;
+}) => {
+  const config = CONFIG_BY_ATOM_SLUG[input.slug];
+  const store = input.store ?? { dir: STORE_DIR_DEFAULT };
+  const atom: BrainAtomSetup = {
+    slug: input.slug,
+    config,
+    model: config.model,
+    cache: input.cache ?? { ttl: '5m' },
+    thinking: input.thinking ?? null,
+    options: input.options,
+  };
+
+  // fail-fast: thinking and default options must fit the model
+  assertBrainAtomSetup({
+    slug: input.slug,
+    config,
+    thinking: atom.thinking,
+    options: input.options,
+  });
+
+  // get anthropic client from context, else the batch's
+  // note: sdk retries are disabled, so that a retried create never submits a batch twice
+  const getAnthropic = genAnthropicClientGetter({
+    anthropic: input.anthropic,
+    client: input.client,
+  });
+
+  // get the batches api of the client from context, else the batch's
+  // note: only the anthropic api serves batches; a bedrock or vertex client injected per call lacks them
+  const getBatches = (context?: BrainAtomAskContext) => {
+    const messages = getAnthropic(context).beta.messages;
+    if (!('batches' in messages))
+      throw new BadRequestError(
+        'batches are only supported on the anthropic backend. pass an anthropic client instead.',
+        { slug: input.slug },
+      );
+    return messages.batches;
+  };
+
+  // get the latest state of a job, from the api, and persist it
+  const poll = async (
+    pollInput: { job: Pick<BrainAtomBatchJob, 'exid'> },
+    context?: BrainAtomAskContext,
+  ): Promise<BrainAtomBatchJob> => {
+    const job = await readBrainAtomBatchJob({
+      exid: pollInput.job.exid,
+      from: store.dir,
+    });
+    if (!job)
+      throw new BadRequestError('batch job not found in store', {
+        exid: pollInput.job.exid,
+        store,
+      });
+    const batch = await getBatches(context)
+      .retrieve(job.exid)
+      .catch((error) => {
+        throw castFromAnthropicError({
+          error,
+          slug: input.slug,
+          model: config.model,
+        });
+      });
+    const jobLatest: BrainAtomBatchJob = {
+      ...job,
+      status: batch.processing_status,
+      ended: batch.ended_at ? { at: batch.ended_at } : null,
+    };
+    await writeBrainAtomBatchJob({ job: jobLatest, to: store.dir });
+    return jobLatest;
+  };
+
+  // stream the results of a job, from the api
+  // note: results are fetched as they are iterated, so a failure may arrive mid-iteration, and is cast the same as one of create or retrieve
+  async function* streamResults(
+    streamInput: { job: Pick<BrainAtomBatchJob, 'exid'> },
+    context?: BrainAtomAskContext,
+  ): AsyncGenerator<Anthropic.Beta.Messages.Batches.BetaMessageBatchIndividualResponse> {
+    try {
+      const decoder = await getBatches(context).results(streamInput.job.exid);
+      for await (const item of decoder) yield item;
+    } catch (error) {
+      throw castFromAnthropicError({
+        error,
+        slug: input.slug,
+        model: config.model,
+      });
+    }
+  }
+
+  return {
+    slug: input.slug,
+
+    /**
+     * .what = submits many asks, which share one schema, as a single message batch
+     * .why = one call to enqueue thousands of asks at the batch discount
+     */
+    submit: async <TOutput>(
+      submitInput: {
+        asks: Record<string, BrainAtomBatchAsk>;
+        schema: { output: z.Schema<TOutput> };
+      },
+      context?: BrainAtomAskContext,
+    ): Promise<BrainAtomBatchJob> => {
+      // fail-fast: the batch api limits how many asks and which custom ids it accepts
+      const customIds = Object.keys(submitInput.asks);
+      if (customIds.length === 0)
+        throw new BadRequestError('a batch requires at least one ask');
+      if (customIds.length > ASKS_PER_BATCH_MAX)
+        throw new BadRequestError('too many asks for one batch', {
+          count: customIds.length,
+          max: ASKS_PER_BATCH_MAX,
+        });
+      const customIdsInvalid = customIds.filter(
+        (customId) => !CUSTOM_ID_PATTERN.test(customId),
+      );
+      if (customIdsInvalid.length)
+        throw new BadRequestError(
+          'batch custom ids must be 1 to 64 letters, digits, underscores, or dashes',
+          { customIdsInvalid },
+        );
+
+      // build one request per ask
+      const requests = await Promise.all(
+        customIds.map(async (customId) => ({
+          customId,
+          request: await genBrainAtomAskRequest({
+            atom,
+            ask: { ...submitInput.asks[customId]!, schema: submitInput.schema },
+            options: context?.options,
+          }),
+        })),
+      );
+
+      // submit the batch; betas are declared once, for the batch as a whole
+      const betas = [
+        'message-batches-2024-09-24',
+        ...new Set(
+          requests.flatMap(({ request }) => request.params.betas ?? []),
+        ),
+      ];
+      const batch = await getBatches(context)
+        .create({
+          betas,
+          requests: requests.map(({ customId, request }) => {
+            const { betas: _betas, ...params } = request.params;
+            return { custom_id: customId, params };
+          }),
+        })
+        .catch((error) => {
+          throw castFromAnthropicError({
+            error,
+            slug: input.slug,
+            model: config.model,
+          });
+        });
+
+      // persist the job, so that a crashed process can resume collection
+      const job: BrainAtomBatchJob = {
+        exid: batch.id,
+        slug: input.slug,
+        status: batch.processing_status,
+        asks: Object.fromEntries(
+          requests.map(({ customId, request }) => [
+            customId,
+            {
+              chars: request.chars,
+              exchange: request.exchange,
+              output: request.output,
+              episode: submitInput.asks[customId]!.on?.episode ?? null,
+            },
+          ]),
+        ),
+        submitted: { at: batch.created_at },
+        ended: null,
+        collected: null,
+      };
+      await writeBrainAtomBatchJob({ job, to: store.dir });
+      return job;
+    },
+
+    /**
+     * .what = refreshes the processing status of a submitted batch
+     * .why = results may only be collected once the batch has ended
+     */
+    poll,
+
+    /**
+     * .what = collects the typed outputs of an ended batch, keyed by custom id
+     * .why = each output is parsed against the schema and priced at the batch discount
+     */
+    collect: async <TOutput>(
+      collectInput: {
+        job: Pick<BrainAtomBatchJob, 'exid'>;
+        schema: { output: z.Schema<TOutput> };
+      },
+      context?: BrainAtomAskContext,
+    ): Promise<BrainAtomBatchResults<TOutput>> => {
+      // fail-fast: results only exist once the batch has ended
+      const job = await poll({ job: collectInput.job }, context);
+      if (job.status !== 'ended')
+        throw new BadRequestError(
+          'batch has not ended yet. poll until its status is ended, then collect.',
+          { exid: job.exid, status: job.status },
+        );
+
+      // batch time is measured from submission until the batch ended
+      const elapsed = {
+        milliseconds:
+          Date.parse(job.ended?.at ?? job.submitted.at) -
+          Date.parse(job.submitted.at),
+      };
+      const cash = getSpecCashAtBatchDiscount(config.spec.cost.cash);
+
+      // cast each result into an output or an error
+      const results: BrainAtomBatchResults<TOutput> = {
+        outputs: {},
+        errors: {},
+      };
+      for await (const item of streamResults({ job }, context)) {
+        const ask = job.asks[item.custom_id];
+        if (!ask) continue; // skip results which this job did not submit
+        if (item.result.type !== 'succeeded') {
+          results.errors[item.custom_id] = castFromBatchResultFailure({
+            customId: item.custom_id,
+            result: item.result,
+            atom,
+          });
+          continue;
+        }
+        try {
+          results.outputs[item.custom_id] =
+            await castIntoBrainAtomOutput<TOutput>({
+              atom,
+              ask: {
+                on: { episode: ask.episode ?? undefined },
+                schema: collectInput.schema,
+              },
+              request: ask,
+              response: item.result.message,
+              metrics: {
+                elapsed,
+                retries: { count: 0, waited: { milliseconds: 0 } },
+                headroom: null,
+                compaction: null,
+                cash,
+              },
+            });
+        } catch (error) {
+          // allowlist per-ask output failures, so one does not sink the batch; any other error is a defect, and is thrown
+          if (!isBatchAskOutputFailure(error)) throw error;
+          results.errors[item.custom_id] = error;
+        }
+      }
+
+      // mark the job as collected, so it is no longer resumed
+      await writeBrainAtomBatchJob({
+        job: { ...job, collected: { at: new Date().toISOString() } },
+        to: store.dir,
+      });
+      return results;
+    },
+
+    /**
+     * .what = lists the jobs of this slug which were submitted but not yet collected
+     * .why = enables a restarted process to pick up where a crashed one left off
+     */
+    resume: async (): Promise<BrainAtomBatchJob[]> => {
+      const jobs = await listBrainAtomBatchJobs({ from: store.dir });
+      return jobs.filter(
+        (job) => job.slug === input.slug && job.collected === null,
+      );
+    },
+  };
+};
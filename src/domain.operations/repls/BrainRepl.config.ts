@@ -14,6 +14,9 @@ export type AnthropicBrainReplSlug =
   | 'claude/code/sonnet'
   | 'claude/code/sonnet/v4'
   | 'claude/code/sonnet/v4.5'
+  | 'claude/code/sonnet/1m'
+  | 'claude/code/sonnet/v4/1m'
+  | 'claude/code/sonnet/v4.5/1m'
   | 'claude/code/opus'
   | 'claude/code/opus/v4.5';
 
@@ -31,6 +34,9 @@ export const CONFIG_BY_REPL_SLUG: Record<
   'claude/code/sonnet': CONFIG_BY_ATOM_SLUG['claude/sonnet'],
   'claude/code/sonnet/v4': CONFIG_BY_ATOM_SLUG['claude/sonnet/v4'],
   'claude/code/sonnet/v4.5': CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5'],
+  'claude/code/sonnet/1m': CONFIG_BY_ATOM_SLUG['claude/sonnet/1m'],
+  'claude/code/sonnet/v4/1m': CONFIG_BY_ATOM_SLUG['claude/sonnet/v4/1m'],
+  'claude/code/sonnet/v4.5/1m': CONFIG_BY_ATOM_SLUG['claude/sonnet/v4.5/1m'],
   'claude/code/opus': CONFIG_BY_ATOM_SLUG['claude/opus'],
   'claude/code/opus/v4.5': CONFIG_BY_ATOM_SLUG['claude/opus/v4.5'],
 };
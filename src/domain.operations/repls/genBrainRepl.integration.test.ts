@@ -5,6 +5,8 @@ import { getError, given, then, useThen, when } from 'test-fns';
 import { z } from 'zod';
 
 import { TEST_ASSETS_DIR } from '../../.test/assets/dir';
+import { getTestCassette } from '../../.test/getTestCassette';
+import { BrainBudgetExceededError } from '../../domain.objects/BrainError';
 import { genBrainRepl } from './genBrainRepl';
 
 const BRIEFS_DIR = path.join(TEST_ASSETS_DIR, '/example.briefs');
@@ -20,7 +22,10 @@ describe('genBrainRepl.integration', () => {
   jest.setTimeout(60000);
 
   // use haiku for fast integration tests
-  const brainRepl = genBrainRepl({ slug: 'claude/code/haiku' });
+  const brainRepl = genBrainRepl({
+    slug: 'claude/code/haiku',
+    cassette: getTestCassette() ?? undefined,
+  });
 
   given('[case1] genBrainRepl({ slug: "claude/code/haiku" })', () => {
     when('[t0] inspecting the repl', () => {
@@ -159,4 +164,45 @@ describe('genBrainRepl.integration', () => {
       });
     });
   });
+
+  given('[case6] a cash budget', () => {
+    when('[t0] the session reaches the budget', () => {
+      then('it aborts with a budget-exceeded error', async () => {
+        const error = await getError(async () =>
+          brainRepl.ask(
+            {
+              role: {},
+              prompt: 'list the files in the current directory',
+              schema: { output: outputSchema },
+            },
+            { budget: { cash: '$0.000001' } },
+          ),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+        expect(
+          (error as BrainBudgetExceededError).metadata.metrics,
+        ).toMatchObject({
+          size: { tokens: { output: expect.any(Number) } },
+          cost: { cash: { total: expect.anything() } },
+        });
+      });
+    });
+
+    when('[t1] the session stays within the budget', () => {
+      const result = useThen('it succeeds', async () =>
+        brainRepl.ask(
+          {
+            role: {},
+            prompt: 'respond with exactly: hello world',
+            schema: { output: outputSchema },
+          },
+          { budget: { cash: '$1.00' } },
+        ),
+      );
+
+      then('it returns the output', () => {
+        expect(result.output.content.toLowerCase()).toContain('hello');
+      });
+    });
+  });
 });
@@ -0,0 +1,671 @@
+import { getError, given, then, useThen, when } from 'test-fns';
+import { z } from 'zod';
+
+import { genFakeReplQuery } from '../../.test/genFakeReplQuery';
+import { useTestSpanExporter } from '../../.test/useTestSpanExporter';
+import {
+  BrainAuthInvalidError,
+  BrainBudgetExceededError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainReplExecutionError,
+  BrainReplMaxTurnsError,
+  BrainSchemaMismatchError,
+} from '../../domain.objects/BrainError';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import {
+  type BrainReplObserverEvent,
+  type BrainReplObservers,
+  CONFIG_BY_REPL_SLUG,
+  genBrainRepl,
+} from './genBrainRepl';
+
+const outputSchema = z.object({ content: z.string() });
+
+describe('genBrainRepl', () => {
+  given('[case1] a session which succeeds', () => {
+    const fake = genFakeReplQuery({
+      sessions: [
+        [
+          { text: 'let me look' },
+          { tools: [{ name: 'Read', input: { file_path: 'readme.md' } }] },
+          { result: { output: { content: 'hello' } } },
+        ],
+      ],
+    });
+    const brainRepl = genBrainRepl({ slug: 'claude/code', query: fake.query });
+
+    when('[t0] asked', () => {
+      const result = useThen('it succeeds', async () =>
+        brainRepl.ask({
+          role: {},
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it returns the structured output of the result', () => {
+        expect(result.output).toEqual({ content: 'hello' });
+      });
+
+      then('it queried the model of the slug, readonly, per the schema', () => {
+        const { prompt, options } = fake.calls[0]!;
+        expect(prompt).toEqual('say hello');
+        expect(options?.model).toEqual(
+          CONFIG_BY_REPL_SLUG['claude/code'].model,
+        );
+        expect(options?.disallowedTools).toContain('Write');
+        expect(options?.outputFormat?.type).toEqual('json_schema');
+      });
+
+      then('it records the session id in the episode exid', () => {
+        expect(result.episode.exid).toMatch(/\/fake-session-1$/);
+      });
+    });
+  });
+
+  given('[case2] a session with parallel tool uses', () => {
+    // the two tool uses share one message, so their usage is counted once
+    const fake = genFakeReplQuery({
+      sessions: [
+        [
+          {
+            text: 'let me look',
+            usage: { input_tokens: 1_000_000, output_tokens: 100_000 },
+          },
+          {
+            tools: [
+              { name: 'Read', input: { file_path: 'a.md' } },
+              { name: 'Read', input: { file_path: 'b.md' } },
+            ],
+            usage: { input_tokens: 1_000_000, output_tokens: 0 },
+          },
+          { result: { output: { content: 'done' } } },
+        ],
+      ],
+    });
+    const brainRepl = genBrainRepl({ slug: 'claude/code', query: fake.query });
+
+    when('[t0] acted', () => {
+      const result = useThen('it succeeds', async () =>
+        brainRepl.act({
+          role: {},
+          prompt: 'read both',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it grants the tools of act', () => {
+        expect(fake.calls[0]!.options?.allowedTools).toContain('Write');
+      });
+
+      then('it reports the tokens of each distinct message', () => {
+        expect(result.metrics.size.tokens).toEqual({
+          input: 2_000_000,
+          output: 100_000,
+          cache: { get: 0, set: 0 },
+        });
+      });
+
+      then('it prices the tokens of each distinct message', () => {
+        // input: 2M * $3/MTok = $6; output: 100K * $15/MTok = $1.50
+        expect(
+          asPriceAmount({ price: result.metrics.cost.cash.total }),
+        ).toBeCloseTo(7.5, 6);
+      });
+    });
+  });
+
+  given('[case3] a session which ends in an error result', () => {
+    when('[t0] the session hits its max turns', () => {
+      then('it throws BrainReplMaxTurnsError', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [{ text: 'hmm' }, { error: { subtype: 'error_max_turns' } }],
+          ],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({ slug: 'claude/code', query: fake.query }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainReplMaxTurnsError);
+      });
+    });
+
+    when('[t1] the session fails during execution', () => {
+      then('it throws BrainReplExecutionError, with the errors', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [
+              {
+                error: {
+                  subtype: 'error_during_execution',
+                  errors: ['tool crashed'],
+                },
+              },
+            ],
+          ],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({ slug: 'claude/code', query: fake.query }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainReplExecutionError);
+        expect(error.message).toContain('error_during_execution');
+        expect(error.message).toContain('tool crashed');
+      });
+    });
+  });
+
+  given('[case4] a session whose result can not be extracted', () => {
+    when('[t0] the result is not json', () => {
+      then('it throws BrainSchemaMismatchError', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [[{ result: { text: 'hello, in prose' } }]],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({ slug: 'claude/code', query: fake.query }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainSchemaMismatchError);
+      });
+    });
+
+    when('[t1] the session ends without a result', () => {
+      then('it throws BrainReplExecutionError', async () => {
+        const fake = genFakeReplQuery({ sessions: [[{ text: 'bye' }]] });
+        const error = await getError(async () =>
+          genBrainRepl({ slug: 'claude/code', query: fake.query }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainReplExecutionError);
+        expect(error.message).toContain('no result message');
+      });
+    });
+  });
+
+  given('[case5] a session which reports an api failure', () => {
+    when('[t0] authentication failed', () => {
+      then('it throws BrainAuthInvalidError, without retry', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [[{ failure: 'authentication_failed' }]],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({ slug: 'claude/code', query: fake.query }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainAuthInvalidError);
+        expect(fake.calls).toHaveLength(1);
+      });
+    });
+
+    when('[t1] rate limited, then not', () => {
+      then('it restarts the session, and succeeds', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [{ failure: 'rate_limit' }],
+            [{ result: { output: { content: 'hello' } } }],
+          ],
+        });
+        const result = await genBrainRepl({
+          slug: 'claude/code',
+          query: fake.query,
+          retry: {
+            attempts: 2,
+            backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+          },
+        }).ask({
+          role: {},
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        });
+        expect(result.output).toEqual({ content: 'hello' });
+        expect(fake.calls).toHaveLength(2);
+      });
+    });
+
+    when('[t2] overloaded on every attempt', () => {
+      then('it throws BrainOverloadedError, after retries', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [{ failure: 'server_error' }],
+            [{ failure: 'server_error' }],
+          ],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({
+            slug: 'claude/code',
+            query: fake.query,
+            retry: {
+              attempts: 2,
+              backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+            },
+          }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+        expect(fake.calls).toHaveLength(2);
+      });
+    });
+
+    when('[t3] rate limited during an act, after a tool was used', () => {
+      then('it throws BrainRateLimitedError, without retry', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [
+              { tools: [{ name: 'Write', input: { file_path: 'a.md' } }] },
+              { failure: 'rate_limit' },
+            ],
+            [{ result: { output: { content: 'hello' } } }],
+          ],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({
+            slug: 'claude/code',
+            query: fake.query,
+            retry: {
+              attempts: 2,
+              backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+            },
+          }).act({
+            role: {},
+            prompt: 'write a.md',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainRateLimitedError);
+        expect(fake.calls).toHaveLength(1);
+      });
+    });
+
+    when('[t4] rate limited during an act, before any tool was used', () => {
+      then('it restarts the session, and succeeds', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [{ text: 'let me write' }, { failure: 'rate_limit' }],
+            [{ result: { output: { content: 'hello' } } }],
+          ],
+        });
+        const result = await genBrainRepl({
+          slug: 'claude/code',
+          query: fake.query,
+          retry: {
+            attempts: 2,
+            backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+          },
+        }).act({
+          role: {},
+          prompt: 'write a.md',
+          schema: { output: outputSchema },
+        });
+        expect(result.output).toEqual({ content: 'hello' });
+        expect(fake.calls).toHaveLength(2);
+      });
+    });
+
+    when('[t5] the query itself loses its connection, then not', () => {
+      then('it restarts the session, and succeeds', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [
+              {
+                throws: Object.assign(new Error('read ECONNRESET'), {
+                  code: 'ECONNRESET',
+                }),
+              },
+            ],
+            [{ result: { output: { content: 'hello' } } }],
+          ],
+        });
+        const result = await genBrainRepl({
+          slug: 'claude/code',
+          query: fake.query,
+          retry: {
+            attempts: 2,
+            backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+          },
+        }).ask({
+          role: {},
+          prompt: 'say hello',
+          schema: { output: outputSchema },
+        });
+        expect(result.output).toEqual({ content: 'hello' });
+        expect(fake.calls).toHaveLength(2);
+      });
+    });
+
+    when('[t6] the query itself throws, as its subprocess exited', () => {
+      then('it throws BrainReplExecutionError, without retry', async () => {
+        const cause = new Error('Claude Code process exited with code 1');
+        const fake = genFakeReplQuery({
+          sessions: [[{ throws: cause }], [{ throws: cause }]],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({
+            slug: 'claude/code',
+            query: fake.query,
+            retry: {
+              attempts: 2,
+              backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+            },
+          }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainReplExecutionError);
+        expect((error as BrainReplExecutionError).metadata.cause).toBe(cause);
+        expect(fake.calls).toHaveLength(1);
+      });
+    });
+  });
+
+  given('[case6] a session which reaches the cash budget', () => {
+    when('[t0] asked', () => {
+      then('it aborts the session, and throws', async () => {
+        const fake = genFakeReplQuery({
+          sessions: [
+            [
+              { text: 'step one', usage: { input_tokens: 1_000_000 } },
+              { text: 'step two' },
+              { result: { output: { content: 'hello' } } },
+            ],
+          ],
+        });
+        const error = await getError(async () =>
+          genBrainRepl({
+            slug: 'claude/code',
+            query: fake.query,
+            budget: { cash: '$1.00' },
+          }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainBudgetExceededError);
+        expect(fake.calls[0]!.options?.abortController?.signal.aborted).toEqual(
+          true,
+        );
+      });
+    });
+
+    when('[t1] asked, with a retry after part of the budget was spent', () => {
+      then(
+        'it carries the spend into the retry, then throws without another retry',
+        async () => {
+          // $3 per million input tokens; the first attempt spends $0.75, the retry another $0.75
+          const fake = genFakeReplQuery({
+            sessions: [
+              [
+                { text: 'step one', usage: { input_tokens: 250_000 } },
+                { failure: 'rate_limit' },
+              ],
+              [
+                { text: 'step one', usage: { input_tokens: 250_000 } },
+                { result: { output: { content: 'hello' } } },
+              ],
+              [{ result: { output: { content: 'hello' } } }],
+            ],
+          });
+          const error = await getError(async () =>
+            genBrainRepl({
+              slug: 'claude/code',
+              query: fake.query,
+              budget: { cash: '$1.00' },
+              retry: {
+                attempts: 3,
+                backoff: {
+                  base: { milliseconds: 1 },
+                  cap: { milliseconds: 1 },
+                },
+              },
+            }).ask({
+              role: {},
+              prompt: 'say hello',
+              schema: { output: outputSchema },
+            }),
+          );
+          expect(error).toBeInstanceOf(BrainBudgetExceededError);
+          expect(fake.calls).toHaveLength(2);
+          // both attempts spent 250k input tokens, at $3/M each
+          const { metrics } = (error as BrainBudgetExceededError).metadata;
+          const { cash } = (metrics as { cost: { cash: { total: string } } })
+            .cost;
+          expect(asPriceAmount({ price: cash.total })).toBeGreaterThanOrEqual(
+            1.5,
+          );
+        },
+      );
+    });
+
+    when('[t2] asked, with a retry, within the budget', () => {
+      then(
+        'it reports the spend of every attempt, as the budget counted it',
+        async () => {
+          const fake = genFakeReplQuery({
+            sessions: [
+              [
+                { text: 'step one', usage: { input_tokens: 100_000 } },
+                { failure: 'rate_limit' },
+              ],
+              [
+                { text: 'step one', usage: { input_tokens: 100_000 } },
+                { result: { output: { content: 'hello' } } },
+              ],
+            ],
+          });
+          const result = await genBrainRepl({
+            slug: 'claude/code',
+            query: fake.query,
+            budget: { cash: '$10.00' },
+            retry: {
+              attempts: 2,
+              backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 1 } },
+            },
+          }).ask({
+            role: {},
+            prompt: 'say hello',
+            schema: { output: outputSchema },
+          });
+          expect(fake.calls).toHaveLength(2);
+          expect(result.metrics.size.tokens.input).toEqual(200_000);
+          expect(result.metrics.size.tokens.output).toEqual(20);
+          // input: 200k * $3/MTok = $0.60; output: 20 * $15/MTok = $0.0003
+          expect(
+            asPriceAmount({ price: result.metrics.cost.cash.total }),
+          ).toBeCloseTo(0.6003, 6);
+        },
+      );
+    });
+  });
+
+  given('[case7] a session with a tracer provider registered', () => {
+    const spans = useTestSpanExporter();
+    const fake = genFakeReplQuery({
+      sessions: [
+        [
+          { text: 'let me look', usage: { input_tokens: 100 } },
+          {
+            tools: [
+              { name: 'Read', input: { file_path: 'a.md' } },
+              { name: 'Grep', input: { pattern: 'todo' } },
+            ],
+          },
+          { result: { output: { content: 'done' } } },
+        ],
+      ],
+    });
+    const brainRepl = genBrainRepl({ slug: 'claude/code', query: fake.query });
+
+    when('[t0] acted', () => {
+      useThen('it succeeds', async () =>
+        brainRepl.act({
+          role: {},
+          prompt: 'look around',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it emits an invoke_agent span, of the session', () => {
+        const agent = spans
+          .get()
+          .find((span) => span.name.startsWith('invoke_agent '));
+        expect(agent?.attributes).toMatchObject({
+          'gen_ai.operation.name': 'invoke_agent',
+          'gen_ai.provider.name': 'anthropic',
+          'gen_ai.request.model': CONFIG_BY_REPL_SLUG['claude/code'].model,
+          'gen_ai.conversation.id': 'fake-session-1',
+          'gen_ai.usage.input_tokens': 110,
+          'gen_ai.usage.output_tokens': 20,
+          'rhachet.brain.slug': 'claude/code',
+          'rhachet.brain.mode': 'act',
+        });
+      });
+
+      then('it emits a child span per tool use', () => {
+        const agent = spans
+          .get()
+          .find((span) => span.name.startsWith('invoke_agent '));
+        const tools = spans
+          .get()
+          .filter((span) => span.name.startsWith('execute_tool '));
+        expect(tools.map((span) => span.name)).toEqual([
+          'execute_tool Read',
+          'execute_tool Grep',
+        ]);
+        for (const tool of tools)
+          expect(tool.parentSpanContext?.spanId).toEqual(
+            agent?.spanContext().spanId,
+          );
+      });
+    });
+  });
+
+  given('[case8] a repl with lifecycle observers', () => {
+    // records the name of each lifecycle event, with the event, in the order observed
+    const genObserved = (input: {
+      fake: ReturnType<typeof genFakeReplQuery>;
+    }) => {
+      const events: BrainReplObserverEvent[] = [];
+      const on: BrainReplObservers = {
+        request: (event) => events.push({ name: 'request', event }),
+        response: (event) => events.push({ name: 'response', event }),
+        tools: (event) => events.push({ name: 'tools', event }),
+        output: (event) => events.push({ name: 'output', event }),
+        error: (event) => events.push({ name: 'error', event }),
+      };
+      // the event of the first observed of a name, narrowed to its type
+      const of = <TName extends keyof BrainReplObservers>(
+        name: TName,
+      ): BrainReplObserverEvent<TName>['event'] =>
+        events.find(
+          (each): each is BrainReplObserverEvent<TName> => each.name === name,
+        )!.event;
+      return {
+        events,
+        of,
+        repl: genBrainRepl({
+          slug: 'claude/code',
+          query: input.fake.query,
+          on,
+        }),
+      };
+    };
+
+    when('[t0] a session which uses tools, then succeeds', () => {
+      const observed = genObserved({
+        fake: genFakeReplQuery({
+          sessions: [
+            [
+              { tools: [{ name: 'Read', input: { file_path: 'a.md' } }] },
+              { result: { output: { content: 'done' } } },
+            ],
+          ],
+        }),
+      });
+      useThen('it succeeds', async () =>
+        observed.repl.ask({
+          role: {},
+          prompt: 'read a',
+          schema: { output: outputSchema },
+        }),
+      );
+
+      then('it tells of the request, tools, response, then output', () => {
+        expect(observed.events.map(({ name }) => name)).toEqual([
+          'request',
+          'tools',
+          'response',
+          'output',
+        ]);
+      });
+
+      then('it tells of the params of the query', () => {
+        const { params } = observed.of('request');
+        expect(params.prompt).toEqual('read a');
+        expect(params.options?.disallowedTools).toContain('Write');
+      });
+
+      then('it tells of each tool call, as an invocation', () => {
+        expect(observed.of('tools').calls).toEqual([
+          {
+            exid: expect.stringMatching(/^toolu_fake_/),
+            slug: 'Read',
+            input: { file_path: 'a.md' },
+          },
+        ]);
+      });
+
+      then('it tells of the raw result, and the parsed output', () => {
+        expect(observed.of('response').response.session_id).toEqual(
+          'fake-session-1',
+        );
+        expect(observed.of('output').output).toEqual({ content: 'done' });
+      });
+    });
+
+    when('[t1] a session which hits its max turns', () => {
+      then('it tells of the error it throws', async () => {
+        const observed = genObserved({
+          fake: genFakeReplQuery({
+            sessions: [[{ error: { subtype: 'error_max_turns' } }]],
+          }),
+        });
+        const error = await getError(async () =>
+          observed.repl.act({
+            role: {},
+            prompt: 'loop forever',
+            schema: { output: outputSchema },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainReplMaxTurnsError);
+        expect(observed.events.map(({ name }) => name)).toEqual([
+          'request',
+          'response',
+          'error',
+        ]);
+        expect(observed.of('error').error).toBe(error);
+      });
+    });
+  });
+});
@@ -1,6 +1,13 @@
-import { query } from '@anthropic-ai/claude-agent-sdk';
+import { query, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  context,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
 import { createHash } from 'crypto';
-import { BadRequestError } from 'helpful-errors';
+import { BadRequestError, HelpfulError } from 'helpful-errors';
 import { hostname } from 'os';
 import {
   type AsBrainPromptFor,
@@ -9,18 +16,52 @@ import {
   type BrainOutputMetrics,
   BrainRepl,
   type BrainSeries,
-  type BrainSpec,
-  calcBrainOutputCost,
   castBriefsToPrompt,
   genBrainContinuables,
 } from 'rhachet';
-import type { BrainPlugs } from 'rhachet/brains';
+import type { BrainPlugs, BrainPlugToolInvocation } from 'rhachet/brains';
 import type { Artifact } from 'rhachet-artifact';
 import type { GitFile } from 'rhachet-artifact-git';
-import type { Empty, PickOne } from 'type-fns';
+import type { PickOne } from 'type-fns';
 import type { z } from 'zod';
 
+import {
+  BrainAuthInvalidError,
+  BrainBudgetExceededError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainReplExecutionError,
+  BrainReplMaxTurnsError,
+  BrainSchemaMismatchError,
+  BrainTimeoutError,
+} from '../../domain.objects/BrainError';
+import type { BrainCassette } from '../../infra/cassette/genBrainCassette';
+import {
+  type BrainCacheSetTokens,
+  castFromAnthropicCacheCreation,
+} from '../../infra/cast/castFromAnthropicCacheCreation';
+import { castFromAnthropicError } from '../../infra/cast/castFromAnthropicError';
+import { asPriceAmount } from '../../infra/price/asPriceAmount';
+import { getRetryHint } from '../../infra/retry/getRetryHint';
+import {
+  type BrainRetryMetrics,
+  type BrainRetryPolicy,
+  invokeWithRetry,
+  RETRY_POLICY_DEFAULT,
+} from '../../infra/retry/invokeWithRetry';
 import { asJsonSchema } from '../../infra/schema/asJsonSchema';
+import { castIntoBrainSpanAttributes } from '../../infra/trace/castIntoBrainSpanAttributes';
+import {
+  genBrainSpanRetryObserver,
+  getBrainTracer,
+  invokeWithBrainSpan,
+} from '../../infra/trace/invokeWithBrainSpan';
+import type { BrainAtomConfig, BrainAtomSpec } from '../atoms/BrainAtom.config';
+import {
+  type BrainAtomUsage,
+  calcBrainAtomOutputCost,
+} from '../atoms/calcBrainAtomOutputCost';
+import type { BrainCallBudget } from '../atoms/getBrainAtomBudgetMaxTokens';
 import {
   type AnthropicBrainReplSlug,
   CONFIG_BY_REPL_SLUG,
@@ -86,12 +127,273 @@ const TOOLS_ALLOWED_FOR_ACT = [
 interface QueryResult {
   output: unknown;
   sessionId: string | null;
+  usages: BrainAtomUsage[];
   usage: {
     inputTokens: number;
     outputTokens: number;
     cacheGetTokens: number;
-    cacheSetTokens: number;
+    cacheSetTokens: BrainCacheSetTokens;
+  };
+}
+
+/**
+ * .what = a function which runs a claude-agent-sdk session, shaped like its query()
+ * .why = lets callers inject another runner than the sdk's own; e.g., a scripted fake in tests, or a wrapped one
+ */
+export type BrainReplQuery = (
+  params: Parameters<typeof query>[0],
+) => AsyncIterable<SDKMessage>;
+
+/**
+ * .what = per-call context for a repl ask or act
+ * .why = enables per-call overrides of the repl's defaults
+ */
+export type BrainReplAskContext = {
+  /**
+   * .what = the max cash this call may spend
+   * .note = overrides the repl's default budget
+   */
+  budget?: BrainCallBudget | null;
+};
+
+/**
+ * .what = observers of the lifecycle of each ask or act of a repl
+ * .why = lets callers plug in logs, audits, metrics, and debug uis, without a fork of the repl
+ *
+ * .note
+ *   - request = the params of the query, e.g., its prompt, system prompt, model, and tool constraints
+ *   - response = the raw result message of the session, with its result, usage, and session id
+ *   - tools = the tool calls of each assistant message of the session, as they stream in
+ *   - output = the structured output, once parsed, with the metrics of the call
+ *   - error = the error the call throws, after retries are exhausted
+ * .note = a retried session restarts, so observers may see tool calls and a response from the failed attempt first
+ * .note = observers are called synchronously, so an observer which throws fails the call
+ */
+export type BrainReplObservers = {
+  request?: (event: {
+    brain: { slug: AnthropicBrainReplSlug; model: string };
+    params: Parameters<BrainReplQuery>[0];
+  }) => void;
+  response?: (event: {
+    brain: { slug: AnthropicBrainReplSlug; model: string };
+    response: Extract<SDKMessage, { type: 'result' }>;
+  }) => void;
+  tools?: (event: {
+    brain: { slug: AnthropicBrainReplSlug; model: string };
+    calls: BrainPlugToolInvocation[];
+  }) => void;
+  output?: (event: {
+    brain: { slug: AnthropicBrainReplSlug; model: string };
+    output: unknown;
+    metrics: BrainOutputMetrics;
+  }) => void;
+  error?: (event: {
+    brain: { slug: AnthropicBrainReplSlug; model: string };
+    error: unknown;
+  }) => void;
+};
+
+/**
+ * .what = one lifecycle event of a repl, tagged by the name of its observer
+ * .why = lets callers record the events of every observer in one list, type-checked per name
+ *
+ * .note = narrow to the event of one observer via its name; e.g., BrainReplObserverEvent<'output'>
+ */
+export type BrainReplObserverEvent<
+  TName extends keyof BrainReplObservers = keyof BrainReplObservers,
+> = {
+  [TEach in keyof BrainReplObservers]-?: {
+    name: TEach;
+    event: Parameters<NonNullable<BrainReplObservers[TEach]>>[0];
   };
+}[TName];
+
+/**
+ * .what = casts the usage of an assistant message into the usage of one request
+ * .why = the budget watch and the result extraction read the same usage
+ */
+const castFromQueryMessageUsage = (input: {
+  usage: Extract<SDKMessage, { type: 'assistant' }>['message']['usage'];
+}): BrainAtomUsage => ({
+  tokens: {
+    input: input.usage.input_tokens,
+    output: input.usage.output_tokens,
+    cache: {
+      get: input.usage.cache_read_input_tokens ?? 0,
+      set: input.usage.cache_creation_input_tokens ?? 0,
+    },
+  },
+  sets: castFromAnthropicCacheCreation({ usage: input.usage }),
+});
+
+/**
+ * .what = casts an error which a query threw into a typed brain error
+ * .why = the query itself may throw (e.g., its subprocess exited, could not spawn, or lost its connection), and such errors would otherwise reach the caller raw
+ *
+ * .note = helpful errors (e.g., brain errors, or fail-fasts) are returned as-is, since they are already typed
+ */
+const castFromQueryError = (input: {
+  error: unknown;
+  brain: { slug: string; model: string };
+}): unknown => {
+  if (input.error instanceof HelpfulError) return input.error;
+  const cast = castFromAnthropicError({ error: input.error, ...input.brain });
+  if (cast instanceof HelpfulError) return cast;
+  const cause =
+    input.error instanceof Error ? input.error : new Error(String(input.error));
+  const code = (cause as { code?: unknown }).code ?? null;
+  if (code === 'ETIMEDOUT')
+    return new BrainTimeoutError(
+      'claude-agent-sdk query timed out. retry later.',
+      { ...input.brain, code, cause },
+    );
+  return new BrainReplExecutionError(
+    `claude-agent-sdk query threw: ${cause.message}`,
+    { ...input.brain, code, cause },
+  );
+};
+
+/**
+ * .what = passes query messages through, and aborts the session once its usage reaches the budget
+ * .why = a repl session may run for many turns, so its spend can only be capped as it streams
+ *
+ * .note = usage is read from assistant messages, deduplicated by message id, since parallel tool uses share an id and report identical usage
+ * .note = the spend carries across the retry attempts of one call, since usageByMessageId is shared by them; message ids are unique per attempt
+ * .note = the partial metrics at the time of abort are attached to the error
+ */
+async function* watchQueryBudget(input: {
+  messages: AsyncIterable<SDKMessage>;
+  budget: BrainCallBudget;
+  spec: BrainAtomSpec;
+  abort: AbortController;
+  brain: { slug: string; model: string };
+  usageByMessageId: Map<string, BrainAtomUsage>;
+  startTime: number;
+}): AsyncGenerator<SDKMessage> {
+  const budget = asPriceAmount({ price: input.budget.cash });
+  for await (const message of input.messages) {
+    yield message;
+    if (message.type !== 'assistant') continue;
+
+    // sum the usage of every distinct message so far
+    input.usageByMessageId.set(
+      message.message.id,
+      castFromQueryMessageUsage({ usage: message.message.usage }),
+    );
+    const usages = [...input.usageByMessageId.values()];
+    const sum = (get: (usage: BrainAtomUsage) => number): number =>
+      usages.reduce((total, usage) => total + get(usage), 0);
+    const tokens: BrainOutputMetrics['size']['tokens'] = {
+      input: sum((usage) => usage.tokens.input),
+      output: sum((usage) => usage.tokens.output),
+      cache: {
+        get: sum((usage) => usage.tokens.cache.get),
+        set: sum((usage) => usage.tokens.cache.set),
+      },
+    };
+    const { cash } = calcBrainAtomOutputCost({
+      usages,
+      cash: input.spec.cost.cash,
+    });
+
+    // abort the session once the budget is reached
+    if (asPriceAmount({ price: cash.total }) >= budget) {
+      input.abort.abort();
+      throw new BrainBudgetExceededError(
+        'claude-agent-sdk session reached the cash budget of this call, so it was aborted. raise the budget, or narrow the prompt.',
+        {
+          ...input.brain,
+          budget: input.budget,
+          metrics: {
+            size: { tokens },
+            cost: {
+              time: { milliseconds: Date.now() - input.startTime },
+              cash,
+            },
+          },
+        },
+      );
+    }
+  }
+}
+
+/**
+ * .what = passes query messages through, and traces each tool use of the session as a child span
+ * .why = a repl runs its tools within the session, so their spans are the only view into what it did, and for how long
+ *
+ * .note = a tool span starts on the assistant's tool_use, and ends on the user's tool_result of the same id; an error result sets its status to error
+ * .note = the parent is set explicitly, since the span of the session is only active within a registered context manager
+ */
+async function* watchQueryToolSpans(input: {
+  messages: AsyncIterable<SDKMessage>;
+  span: Span;
+}): AsyncGenerator<SDKMessage> {
+  const parent = trace.setSpan(context.active(), input.span);
+  const spanByToolUseId = new Map<string, Span>();
+  try {
+    for await (const message of input.messages) {
+      // start a span per tool use
+      if (message.type === 'assistant')
+        for (const block of message.message.content)
+          if (block.type === 'tool_use')
+            spanByToolUseId.set(
+              block.id,
+              getBrainTracer().startSpan(
+                `execute_tool ${block.name}`,
+                {
+                  kind: SpanKind.INTERNAL,
+                  attributes: {
+                    'gen_ai.operation.name': 'execute_tool',
+                    'gen_ai.tool.name': block.name,
+                    'gen_ai.tool.call.id': block.id,
+                  },
+                },
+                parent,
+              ),
+            );
+
+      // end the span of each tool use, once its result arrives
+      if (message.type === 'user' && Array.isArray(message.message.content))
+        for (const block of message.message.content) {
+          if (block.type !== 'tool_result') continue;
+          const toolSpan = spanByToolUseId.get(block.tool_use_id);
+          if (!toolSpan) continue;
+          if (block.is_error)
+            toolSpan.setStatus({ code: SpanStatusCode.ERROR });
+          toolSpan.end();
+          spanByToolUseId.delete(block.tool_use_id);
+        }
+
+      yield message;
+    }
+  } finally {
+    // end the spans of tool uses which never got a result; e.g., when the session was aborted
+    for (const toolSpan of spanByToolUseId.values()) toolSpan.end();
+  }
+}
+
+/**
+ * .what = passes query messages through, and tells the observers of each tool call and of the result
+ * .why = the session streams, so its tool calls and result are only seen as they pass
+ */
+async function* watchQueryObservers(input: {
+  messages: AsyncIterable<SDKMessage>;
+  observers: BrainReplObservers | undefined;
+  brain: { slug: AnthropicBrainReplSlug; model: string };
+}): AsyncGenerator<SDKMessage> {
+  for await (const message of input.messages) {
+    if (message.type === 'assistant') {
+      const calls = message.message.content.flatMap((block) =>
+        block.type === 'tool_use'
+          ? [{ exid: block.id, slug: block.name, input: block.input }]
+          : [],
+      );
+      if (calls.length) input.observers?.tools?.({ brain: input.brain, calls });
+    }
+    if (message.type === 'result')
+      input.observers?.response?.({ brain: input.brain, response: message });
+    yield message;
+  }
 }
 
 /**
@@ -106,17 +408,26 @@ interface QueryResult {
  *        - modelUsage provides per-model breakdown suitable for billing
  *        - assistant message accumulation would require deduplication by message.id
  *          (parallel tool uses share same id and report identical usage)
+ *
+ * .note = usageByMessageId is shared by the retry attempts of one call, so the usage reported includes that of the failed attempts before this one, as the budget counts it
  */
 const extractResultFromQuery = async (
-  queryIterator: ReturnType<typeof query>,
+  queryIterator: AsyncIterable<SDKMessage>,
+  brain: { slug: string; model: string },
+  usageByMessageId: Map<string, BrainAtomUsage>,
 ): Promise<QueryResult> => {
   let result: string | undefined;
   let structuredOutput: unknown | undefined;
   let sessionId: string | null = null;
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
-  let totalCacheGetTokens = 0;
-  let totalCacheSetTokens = 0;
+
+  // start from the usage of the failed attempts before this one
+  const usagesPrior = [...usageByMessageId.values()];
+  const sumPrior = (get: (usage: BrainAtomUsage) => number): number =>
+    usagesPrior.reduce((total, usage) => total + get(usage), 0);
+  let totalInputTokens = sumPrior((usage) => usage.tokens.input);
+  let totalOutputTokens = sumPrior((usage) => usage.tokens.output);
+  let totalCacheGetTokens = sumPrior((usage) => usage.tokens.cache.get);
+  let totalCacheSetTokens = sumPrior((usage) => usage.tokens.cache.set);
 
   for await (const message of queryIterator) {
     // capture sessionId from any message (they all carry it)
@@ -124,6 +435,32 @@ const extractResultFromQuery = async (
       sessionId = message.session_id as string;
     }
 
+    // throw on api failures the sdk reports on assistant messages
+    if (message.type === 'assistant' && message.error) {
+      if (message.error === 'authentication_failed')
+        throw new BrainAuthInvalidError(
+          'claude-agent-sdk could not authenticate. check ANTHROPIC_API_KEY or the claude login.',
+          brain,
+        );
+      if (message.error === 'rate_limit')
+        throw new BrainRateLimitedError(
+          'claude-agent-sdk was rate limited. retry later or lower concurrency.',
+          brain,
+        );
+      if (message.error === 'server_error')
+        throw new BrainOverloadedError(
+          'claude-agent-sdk hit a server error or overload. retry later.',
+          brain,
+        );
+    }
+
+    // track the usage per assistant message, since modelUsage neither splits cache writes by ttl nor usage by request
+    if (message.type === 'assistant')
+      usageByMessageId.set(
+        message.message.id,
+        castFromQueryMessageUsage({ usage: message.message.usage }),
+      );
+
     // check for result message with success subtype
     if (message.type === 'result' && message.subtype === 'success') {
       result = message.result;
@@ -153,11 +490,16 @@ const extractResultFromQuery = async (
     }
 
     // throw on error subtypes
-    if (message.type === 'result' && message.subtype !== 'success') {
-      throw new Error(
+    if (message.type === 'result' && message.subtype === 'error_max_turns')
+      throw new BrainReplMaxTurnsError(
+        'claude-agent-sdk query hit its max turns before it produced a result',
+        { ...brain, errors: message.errors },
+      );
+    if (message.type === 'result' && message.subtype !== 'success')
+      throw new BrainReplExecutionError(
         `claude-agent-sdk query failed: ${message.subtype}, errors: ${message.errors?.join(', ') ?? 'unknown'}`,
+        { ...brain, subtype: message.subtype, errors: message.errors },
       );
-    }
   }
 
   // prefer structured_output when available (used with outputFormat)
@@ -165,19 +507,43 @@ const extractResultFromQuery = async (
     structuredOutput !== undefined
       ? structuredOutput
       : result !== undefined
-        ? JSON.parse(result)
+        ? (() => {
+            try {
+              return JSON.parse(result);
+            } catch (error) {
+              if (!(error instanceof SyntaxError)) throw error;
+              throw new BrainSchemaMismatchError(
+                'claude-agent-sdk result was not valid json',
+                { ...brain, cause: error },
+              );
+            }
+          })()
         : (() => {
-            throw new Error('no result message received from claude-agent-sdk');
+            throw new BrainReplExecutionError(
+              'no result message received from claude-agent-sdk',
+              brain,
+            );
           })();
 
+  // split the authoritative cache writes by ttl; every write beyond the 1h ones is 5m
+  const usages = [...usageByMessageId.values()];
+  const totalCacheSetTokens1h = Math.min(
+    usages.reduce((sum, usage) => sum + usage.sets['1h'], 0),
+    totalCacheSetTokens,
+  );
+
   return {
     output,
     sessionId,
+    usages,
     usage: {
       inputTokens: totalInputTokens,
       outputTokens: totalOutputTokens,
       cacheGetTokens: totalCacheGetTokens,
-      cacheSetTokens: totalCacheSetTokens,
+      cacheSetTokens: {
+        '5m': totalCacheSetTokens - totalCacheSetTokens1h,
+        '1h': totalCacheSetTokens1h,
+      },
     },
   };
 };
@@ -201,141 +567,244 @@ const invokeQuery = async <
   TPlugs extends BrainPlugs = BrainPlugs,
 >(input: {
   mode: 'ask' | 'act';
+  slug: AnthropicBrainReplSlug;
   model: string;
-  spec: BrainSpec;
+  betas: BrainAtomConfig['betas'];
+  query: BrainReplQuery;
+  spec: BrainAtomSpec;
+  retry: BrainRetryPolicy;
+  budget: BrainCallBudget | null;
+  observers?: BrainReplObservers;
   on?: { episode?: BrainEpisode; series?: BrainSeries };
   plugs?: TPlugs;
   role: { briefs?: Artifact<typeof GitFile>[] };
   prompt: AsBrainPromptFor<TPlugs>;
   schema: { output: z.Schema<TOutput> };
-}): Promise<BrainOutput<TOutput, 'repl', TPlugs>> => {
-  // fail-fast: continuation is not supported for repls
-  // claude-agent-sdk session resumption doesn't work with structured outputs
-  if (input.on?.episode || input.on?.series) {
-    throw new BadRequestError(
-      'episode/series continuation is not supported with claude-agent-sdk repls. session resumption does not work with structured outputs. use BrainAtom for continuation workflows.',
-      { mode: input.mode, model: input.model },
-    );
-  }
-
-  // fail-fast: plugs.tools is not supported for repls
-  // repls handle tool use internally via the SDK; external tool plugs are not supported
-  if (input.plugs?.tools && input.plugs.tools.length > 0) {
-    throw new BadRequestError(
-      'plugs.tools is not supported with claude-agent-sdk repls. repls handle tool use internally via the SDK. use BrainAtom for external tool integration.',
-      { mode: input.mode, model: input.model },
-    );
-  }
-
-  // fail-fast: tool result continuation is not supported
-  // repls only accept string prompts, not BrainPlugToolExecution arrays
-  if (Array.isArray(input.prompt)) {
-    throw new BadRequestError(
-      'tool result continuation is not supported with claude-agent-sdk repls. repls only accept string prompts. use BrainAtom for tool result continuation.',
-      { mode: input.mode, model: input.model },
-    );
-  }
-
-  // extract prompt as string (guaranteed by above check)
-  const promptText = input.prompt as string;
-
-  const startTime = Date.now();
-
-  // compose system prompt from briefs
-  const systemPrompt = input.role.briefs
-    ? await castBriefsToPrompt({ briefs: input.role.briefs })
-    : undefined;
-
-  // convert zod schema to json schema for native structured output
-  const jsonSchema = asJsonSchema({ schema: input.schema.output });
-
-  // build tool constraints based on mode
-  const toolConstraints =
-    input.mode === 'ask'
-      ? { disallowedTools: [...TOOLS_DISALLOWED_FOR_ASK] }
-      : { allowedTools: [...TOOLS_ALLOWED_FOR_ACT] };
-
-  // invoke claude-agent-sdk query
-  const queryIterator = query({
-    prompt: promptText,
-    options: {
-      systemPrompt: systemPrompt || undefined,
-      model: input.model,
-      ...toolConstraints,
-      outputFormat: {
-        type: 'json_schema',
-        schema: jsonSchema as Record<string, unknown>,
-      },
-    },
-  });
-
-  // extract final result from async iterator
-  const queryResult = await extractResultFromQuery(queryIterator);
-
-  // parse output via schema for runtime validation
-  const output = input.schema.output.parse(queryResult.output);
-
-  // compute metrics
-  const elapsedMs = Date.now() - startTime;
-  const { inputTokens, outputTokens, cacheGetTokens, cacheSetTokens } =
-    queryResult.usage;
-
-  const outputText = JSON.stringify(queryResult.output);
-
-  // build size metrics
-  const size: BrainOutputMetrics['size'] = {
-    tokens: {
-      input: inputTokens,
-      output: outputTokens,
-      cache: { get: cacheGetTokens, set: cacheSetTokens },
-    },
-    chars: {
-      input: promptText.length + (systemPrompt?.length ?? 0),
-      output: outputText.length,
-      cache: { get: 0, set: 0 },
-    },
-  };
+}): Promise<BrainOutput<TOutput, 'repl', TPlugs>> =>
+  invokeWithBrainSpan({
+    operation: 'invoke_agent',
+    brain: { slug: input.slug, model: input.model, provider: 'anthropic' },
+    attributes: { 'rhachet.brain.mode': input.mode },
+    invoke: async (span) => {
+      // fail-fast: continuation is not supported for repls
+      // claude-agent-sdk session resumption doesn't work with structured outputs
+      if (input.on?.episode || input.on?.series) {
+        throw new BadRequestError(
+          'episode/series continuation is not supported with claude-agent-sdk repls. session resumption does not work with structured outputs. use BrainAtom for continuation workflows.',
+          { mode: input.mode, model: input.model },
+        );
+      }
 
-  // calculate cash cost using rhachet helper
-  const { cash } = calcBrainOutputCost({
-    for: { tokens: size.tokens },
-    with: { cost: { cash: input.spec.cost.cash } },
-  });
+      // fail-fast: plugs.tools is not supported for repls
+      // repls handle tool use internally via the SDK; external tool plugs are not supported
+      if (input.plugs?.tools && input.plugs.tools.length > 0) {
+        throw new BadRequestError(
+          'plugs.tools is not supported with claude-agent-sdk repls. repls handle tool use internally via the SDK. use BrainAtom for external tool integration.',
+          { mode: input.mode, model: input.model },
+        );
+      }
 
-  const metrics: BrainOutputMetrics = {
-    size,
-    cost: {
-      time: { milliseconds: elapsedMs },
-      cash,
-    },
-  };
+      // fail-fast: tool result continuation is not supported
+      // repls only accept string prompts, not BrainPlugToolExecution arrays
+      if (Array.isArray(input.prompt)) {
+        throw new BadRequestError(
+          'tool result continuation is not supported with claude-agent-sdk repls. repls only accept string prompts. use BrainAtom for tool result continuation.',
+          { mode: input.mode, model: input.model },
+        );
+      }
 
-  // build session exid for continuation tracking
-  const sessionExid = queryResult.sessionId
-    ? buildSessionExid({ sessionId: queryResult.sessionId })
-    : null;
-
-  // generate continuables for episode/series tracking
-  const continuables = await genBrainContinuables({
-    for: { grain: 'repl' },
-    on: {
-      episode: input.on?.episode ?? null,
-      series: input.on?.series ?? null,
-    },
-    with: {
-      exchange: {
-        input: promptText,
-        output: outputText,
-        exid: sessionExid,
-      },
-      episode: { exid: sessionExid },
-      series: { exid: sessionExid },
+      // extract prompt as string (guaranteed by above check)
+      const promptText = input.prompt as string;
+
+      const startTime = Date.now();
+
+      // compose system prompt from briefs
+      const systemPrompt = input.role.briefs
+        ? await castBriefsToPrompt({ briefs: input.role.briefs })
+        : undefined;
+
+      // convert zod schema to json schema for native structured output
+      const jsonSchema = asJsonSchema({ schema: input.schema.output });
+
+      // build tool constraints based on mode
+      const toolConstraints =
+        input.mode === 'ask'
+          ? { disallowedTools: [...TOOLS_DISALLOWED_FOR_ASK] }
+          : { allowedTools: [...TOOLS_ALLOWED_FOR_ACT] };
+
+      // build the params of the query
+      const brain = { slug: input.slug, model: input.model };
+      const params: Parameters<BrainReplQuery>[0] = {
+        prompt: promptText,
+        options: {
+          systemPrompt: systemPrompt || undefined,
+          model: input.model,
+          ...(input.betas && { betas: input.betas }),
+          ...toolConstraints,
+          outputFormat: {
+            type: 'json_schema',
+            schema: jsonSchema as Record<string, unknown>,
+          },
+        },
+      };
+      input.observers?.request?.({ brain, params });
+
+      // track the tool uses of the current attempt, since a restarted query would run them again
+      const attempt = { tools: 0 };
+
+      // track the usage of every attempt, so that the budget is spent, and the metrics report, once across them
+      const usageByMessageId = new Map<string, BrainAtomUsage>();
+
+      // invoke claude-agent-sdk query and extract final result from async iterator
+      // note: a transient failure restarts the whole query, per the retry policy
+      // note: an act session which already used a tool is never restarted, since its edits and commands would run twice
+      // note: the budget applies to all attempts together; once spent, the session throws BrainBudgetExceededError, which is never retried
+      // note: errors the query itself throws are retried per their system code, e.g., a lost connection
+      const { result: queryResult, retries } = await invokeWithRetry({
+        policy: input.retry,
+        getHint: ({ error }) =>
+          input.mode === 'act' && attempt.tools > 0
+            ? null
+            : getRetryHint({ error }),
+        on: { retry: genBrainSpanRetryObserver({ span }) },
+        invoke: () => {
+          attempt.tools = 0;
+          const abort = new AbortController();
+          const messages = watchQueryObservers({
+            brain,
+            observers: {
+              ...input.observers,
+              tools: (event) => {
+                attempt.tools += event.calls.length;
+                input.observers?.tools?.(event);
+              },
+            },
+            messages: watchQueryToolSpans({
+              span,
+              messages: input.query({
+                ...params,
+                options: { ...params.options, abortController: abort },
+              }),
+            }),
+          });
+          return extractResultFromQuery(
+            input.budget
+              ? watchQueryBudget({
+                  messages,
+                  budget: input.budget,
+                  spec: input.spec,
+                  abort,
+                  brain: { slug: input.slug, model: input.model },
+                  usageByMessageId,
+                  startTime,
+                })
+              : messages,
+            { slug: input.slug, model: input.model },
+            usageByMessageId,
+          );
+        },
+      }).catch((error) => {
+        // cast what the query itself threw, once retries are exhausted
+        throw castFromQueryError({ error, brain });
+      });
+
+      // parse output via schema for runtime validation
+      const parsed = input.schema.output.safeParse(queryResult.output);
+      if (!parsed.success)
+        throw new BrainSchemaMismatchError(
+          'claude-agent-sdk result did not match the requested schema',
+          { slug: input.slug, model: input.model, cause: parsed.error },
+        );
+      const output = parsed.data;
+
+      // compute metrics
+      const elapsedMs = Date.now() - startTime;
+      const { inputTokens, outputTokens, cacheGetTokens, cacheSetTokens } =
+        queryResult.usage;
+
+      const outputText = JSON.stringify(queryResult.output);
+
+      // build size metrics
+      const size: BrainOutputMetrics['size'] = {
+        tokens: {
+          input: inputTokens,
+          output: outputTokens,
+          cache: {
+            get: cacheGetTokens,
+            set: cacheSetTokens['5m'] + cacheSetTokens['1h'],
+          },
+        },
+        chars: {
+          input: promptText.length + (systemPrompt?.length ?? 0),
+          output: outputText.length,
+          cache: { get: 0, set: 0 },
+        },
+      };
+
+      // calculate cash cost, with cache writes priced per their ttl and each request per its tier
+      // note: prices the usage of each request when the stream reported them, since tiers are decided per request
+      const { cash } = calcBrainAtomOutputCost({
+        usages: queryResult.usages.length
+          ? queryResult.usages
+          : [{ tokens: size.tokens, sets: cacheSetTokens }],
+        cash: input.spec.cost.cash,
+      });
+
+      const metrics: BrainOutputMetrics & {
+        cache: { set: { tokens: BrainCacheSetTokens } };
+        retries: BrainRetryMetrics;
+      } = {
+        size,
+        cost: {
+          time: { milliseconds: elapsedMs },
+          cash,
+        },
+        cache: { set: { tokens: cacheSetTokens } },
+        retries,
+      };
+
+      // build session exid for continuation tracking
+      const sessionExid = queryResult.sessionId
+        ? buildSessionExid({ sessionId: queryResult.sessionId })
+        : null;
+
+      // generate continuables for episode/series tracking
+      const continuables = await genBrainContinuables({
+        for: { grain: 'repl' },
+        on: {
+          episode: input.on?.episode ?? null,
+          series: input.on?.series ?? null,
+        },
+        with: {
+          exchange: {
+            input: promptText,
+            output: outputText,
+            exid: sessionExid,
+          },
+          episode: { exid: sessionExid },
+          series: { exid: sessionExid },
+        },
+      });
+
+      // record the session and its metrics on the span
+      span.setAttributes({
+        ...(queryResult.sessionId && {
+          'gen_ai.conversation.id': queryResult.sessionId,
+        }),
+        ...castIntoBrainSpanAttributes({ metrics }),
+      });
+
+      input.observers?.output?.({ brain, output, metrics });
+      return { output, calls: null, metrics, ...continuables };
     },
+  }).catch((error) => {
+    input.observers?.error?.({
+      brain: { slug: input.slug, model: input.model },
+      error,
+    });
+    throw error;
   });
 
-  return { output, calls: null, metrics, ...continuables };
-};
-
 /**
  * .what = factory to generate claude code brain repl instances
  * .why = enables model variant selection via slug (e.g., haiku for speed, opus for quality)
@@ -344,11 +813,32 @@ const invokeQuery = async <
  *   genBrainRepl({ slug: 'claude/code' }) // default model
  *   genBrainRepl({ slug: 'claude/code/haiku' }) // fast + cheap
  *   genBrainRepl({ slug: 'claude/code/opus/v4.5' }) // highest quality
+ *   genBrainRepl({ slug: 'claude/code', retry: { attempts: 2 } }) // fewer restarts of long sessions
+ *   genBrainRepl({ slug: 'claude/code', budget: { cash: '$1.00' } }) // abort any session which reaches $1
+ *   genBrainRepl({ slug: 'claude/code', cassette }) // record or replay sessions, e.g., to run tests offline
+ *   genBrainRepl({ slug: 'claude/code', query: fakeQuery }) // run sessions via another query function than the sdk's
+ *   genBrainRepl({ slug: 'claude/code', on: { tools: ({ calls }) => log.debug(calls) } }) // observe each ask and act
+ *
+ * .note = a cassette wraps the query given, else the sdk's
+ * .note = rate limits, overloads, and transient server errors are retried per RETRY_POLICY_DEFAULT; pass `retry: false` to opt out
+ * .note = each ask and act is traced as an opentelemetry `invoke_agent` span, with a child span per tool use, if a tracer provider is registered
  */
 export const genBrainRepl = (input: {
   slug: AnthropicBrainReplSlug;
+  retry?: Partial<BrainRetryPolicy> | false;
+  budget?: BrainCallBudget;
+  cassette?: BrainCassette;
+  query?: BrainReplQuery;
+  on?: BrainReplObservers;
 }): BrainRepl => {
   const config = CONFIG_BY_REPL_SLUG[input.slug];
+  const queryOf = input.cassette
+    ? input.cassette.withQuery(input.query ?? query)
+    : (input.query ?? query);
+  const retry: BrainRetryPolicy =
+    input.retry === false
+      ? { ...RETRY_POLICY_DEFAULT, attempts: 1 }
+      : { ...RETRY_POLICY_DEFAULT, ...input.retry };
 
   return new BrainRepl({
     repo: 'anthropic',
@@ -371,12 +861,21 @@ export const genBrainRepl = (input: {
         prompt: AsBrainPromptFor<TPlugs>;
         schema: { output: z.Schema<TOutput> };
       },
-      _context?: Empty,
+      context?: BrainReplAskContext,
     ): Promise<BrainOutput<TOutput, 'repl', TPlugs>> =>
       invokeQuery({
         mode: 'ask',
+        slug: input.slug,
         model: config.model,
+        betas: config.betas,
+        query: queryOf,
         spec: config.spec,
+        retry,
+        observers: input.on,
+        budget:
+          context?.budget === undefined
+            ? (input.budget ?? null)
+            : context.budget,
         on: {
           episode: askInput.on?.episode,
           series: askInput.on?.series,
@@ -399,12 +898,21 @@ export const genBrainRepl = (input: {
         prompt: AsBrainPromptFor<TPlugs>;
         schema: { output: z.Schema<TOutput> };
       },
-      _context?: Empty,
+      context?: BrainReplAskContext,
     ): Promise<BrainOutput<TOutput, 'repl', TPlugs>> =>
       invokeQuery({
         mode: 'act',
+        slug: input.slug,
         model: config.model,
+        betas: config.betas,
+        query: queryOf,
         spec: config.spec,
+        retry,
+        observers: input.on,
+        budget:
+          context?.budget === undefined
+            ? (input.budget ?? null)
+            : context.budget,
         on: {
           episode: actInput.on?.episode,
           series: actInput.on?.series,
@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { given, then, when } from 'test-fns';
+
+import { genBrainCassette } from './genBrainCassette';
+
+const URL_MESSAGES = 'https://api.anthropic.com/v1/messages';
+
+/**
+ * .what = a stand-in for the live fetch, which answers with the prompt it was sent
+ * .why = lets the test tell which calls reached the "network" and which were replayed
+ */
+const genFetchLive = () => {
+  const calls: string[] = [];
+  const fetchLive: typeof fetch = async (_url, init) => {
+    const prompt = JSON.parse(String(init?.body)).messages[0].content;
+    calls.push(prompt);
+    return new Response(
+      JSON.stringify({ id: `msg_${calls.length}`, echo: prompt }),
+      { status: 200, headers: { 'content-type': 'application/json' } },
+    );
+  };
+  return { calls, fetchLive };
+};
+
+const post = (input: { fetch: typeof fetch; prompt: string }) =>
+  input.fetch(URL_MESSAGES, {
+    method: 'POST',
+    headers: {
+      'x-api-key': 'sk-ant-secret',
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: 'claude-haiku-4-5-20251001',
+      messages: [{ role: 'user', content: input.prompt }],
+    }),
+  });
+
+describe('genBrainCassette', () => {
+  const scene = {
+    path: path.join(
+      os.tmpdir(),
+      `cassette-test-${Date.now()}`,
+      'suite.cassette.json',
+    ),
+  };
+
+  given('[case1] a cassette in record mode', () => {
+    when('[t0] the same request is made twice, then saved', () => {
+      then('it calls through and records each response', async () => {
+        const { calls, fetchLive } = genFetchLive();
+        const cassette = genBrainCassette({
+          path: scene.path,
+          mode: 'record',
+          fetch: fetchLive,
+        });
+        const first = await post({ fetch: cassette.fetch, prompt: 'hello' });
+        const second = await post({ fetch: cassette.fetch, prompt: 'hello' });
+        expect(await first.json()).toEqual({ id: 'msg_1', echo: 'hello' });
+        expect(await second.json()).toEqual({ id: 'msg_2', echo: 'hello' });
+        expect(calls).toEqual(['hello', 'hello']);
+        await cassette.save();
+      });
+
+      then('the file keeps no credentials', async () => {
+        const content = await fs.readFile(scene.path, 'utf-8');
+        expect(content).not.toContain('sk-ant-secret');
+        expect(JSON.parse(content).entries).toHaveLength(2);
+      });
+    });
+  });
+
+  given('[case2] a cassette in replay mode', () => {
+    when('[t0] the recorded request is made', () => {
+      then('it replays each response in order, offline', async () => {
+        const { calls, fetchLive } = genFetchLive();
+        const cassette = genBrainCassette({
+          path: scene.path,
+          mode: 'replay',
+          fetch: fetchLive,
+        });
+        const first = await post({ fetch: cassette.fetch, prompt: 'hello' });
+        const second = await post({ fetch: cassette.fetch, prompt: 'hello' });
+        expect(await first.json()).toEqual({ id: 'msg_1', echo: 'hello' });
+        expect(await second.json()).toEqual({ id: 'msg_2', echo: 'hello' });
+        expect(calls).toEqual([]);
+      });
+    });
+
+    when('[t1] the recorded request is made more times than recorded', () => {
+      then('it answers with a diagnosis of the miss', async () => {
+        const cassette = genBrainCassette({ path: scene.path, mode: 'replay' });
+        await post({ fetch: cassette.fetch, prompt: 'hello' });
+        await post({ fetch: cassette.fetch, prompt: 'hello' });
+        const third = await post({ fetch: cassette.fetch, prompt: 'hello' });
+        expect(third.status).toEqual(400);
+        expect(await third.text()).toContain('fewer times');
+      });
+    });
+
+    when('[t2] a request which was not recorded is made', () => {
+      then('it names where it differs from the nearest', async () => {
+        const cassette = genBrainCassette({ path: scene.path, mode: 'replay' });
+        const response = await post({ fetch: cassette.fetch, prompt: 'bye' });
+        expect(response.status).toEqual(400);
+        const body = await response.text();
+        expect(body).toContain('no entry which matches');
+        expect(body).toContain('$.body.messages[0].content');
+      });
+    });
+  });
+
+  given('[case3] a cassette which wraps a query', () => {
+    const queryLive = (params: { prompt: string; options: object }) =>
+      (async function* () {
+        yield { type: 'assistant', text: `re: ${params.prompt}` };
+        yield { type: 'result', subtype: 'success' };
+      })();
+
+    when('[t0] a session is recorded, then replayed from another cwd', () => {
+      then('it replays the messages of the session', async () => {
+        const recorder = genBrainCassette({ path: scene.path, mode: 'record' });
+        const recorded: unknown[] = [];
+        for await (const message of recorder.withQuery(queryLive)({
+          prompt: 'hi',
+          options: { model: 'haiku', cwd: '/home/alice' },
+        }))
+          recorded.push(message);
+        await recorder.save();
+
+        const player = genBrainCassette({ path: scene.path, mode: 'replay' });
+        const replayed: unknown[] = [];
+        for await (const message of player.withQuery(queryLive)({
+          prompt: 'hi',
+          options: { model: 'haiku', cwd: '/home/bob' },
+        }))
+          replayed.push(message);
+        expect(replayed).toEqual(recorded);
+        expect(recorded).toHaveLength(2);
+      });
+    });
+
+    when('[t1] a session which was not recorded is replayed', () => {
+      then('it throws a diagnosis of the miss', async () => {
+        const player = genBrainCassette({ path: scene.path, mode: 'replay' });
+        const error = await (async () => {
+          for await (const _ of player.withQuery(queryLive)({
+            prompt: 'other',
+            options: { model: 'haiku' },
+          }));
+        })().catch((thrown) => thrown);
+        expect(error.message).toContain('no entry which matches');
+        expect(error.message).toContain('$.prompt');
+      });
+    });
+  });
+});
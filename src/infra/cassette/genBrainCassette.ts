@@ -0,0 +1,381 @@
+import * as fs from 'fs/promises';
+import { HelpfulError } from 'helpful-errors';
+import * as path from 'path';
+
+import { getCassetteKey } from './getCassetteKey';
+import { getCassetteRequestDifferences } from './getCassetteRequestDifferences';
+
+/**
+ * .what = whether a cassette records live calls, or replays recorded ones
+ * .why = record against the live api once, then replay offline and deterministically, e.g., in ci
+ */
+export type BrainCassetteMode = 'record' | 'replay';
+
+/**
+ * .what = one recorded request and what it got back
+ * .why = the unit a cassette replays
+ *
+ * .note
+ *   - fetch = an http call of the anthropic sdk; the body is text, or base64 for binary streams (e.g., bedrock's event stream)
+ *   - query = a claude-agent-sdk session; its messages, plus the error which ended it, if any
+ *   - request = the normalized request, kept so that a replay miss can be diagnosed against it
+ */
+export type BrainCassetteEntry = { key: string; request: unknown } & (
+  | {
+      kind: 'fetch';
+      response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, string>;
+        body: { text: string } | { base64: string };
+      };
+    }
+  | {
+      kind: 'query';
+      messages: unknown[];
+      error: { name: string; message: string } | null;
+    }
+);
+
+/**
+ * .what = the content of a cassette file
+ */
+export type BrainCassetteFile = {
+  version: 1;
+  entries: BrainCassetteEntry[];
+};
+
+/**
+ * .what = a request which a replayed cassette did not record
+ * .why = names the nearest recorded request and where the two differ, so the cause of a miss is plain
+ */
+export class BrainCassetteMismatchError extends HelpfulError {}
+
+/**
+ * .what = a record/replay layer for anthropic http calls and claude-agent-sdk sessions
+ * .why = lets suites which call the live api run offline and deterministically
+ *
+ * .note
+ *   - fetch = pass as the fetch of an anthropic client; e.g., `client: { fetch: cassette.fetch }`
+ *   - withQuery = wraps a claude-agent-sdk query function; e.g., `withQuery(query)`
+ *   - save = writes what was recorded; a no-op on replay
+ */
+export type BrainCassette = {
+  mode: BrainCassetteMode;
+  path: string;
+  fetch: typeof fetch;
+  withQuery: <TParams, TMessage>(
+    query: (params: TParams) => AsyncIterable<TMessage>,
+  ) => (params: TParams) => AsyncIterable<TMessage>;
+  save: () => Promise<void>;
+};
+
+/**
+ * .what = request headers which change what the api responds with
+ * .why = every other header (e.g., the api key) is left out of the key and the file
+ */
+const FETCH_HEADERS_KEYED = ['anthropic-beta', 'anthropic-version'];
+
+/**
+ * .what = response headers which describe the transport of the recorded body, rather than the body
+ * .why = the body is recorded decoded and whole, so these would misdescribe it on replay
+ */
+const FETCH_HEADERS_DROPPED = [
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'set-cookie',
+];
+
+/**
+ * .what = query options which vary per machine, rather than per request
+ * .why = a cassette recorded on one machine must replay on another
+ */
+const QUERY_OPTIONS_DROPPED = [
+  'abortController',
+  'cwd',
+  'env',
+  'executable',
+  'executableArgs',
+  'pathToClaudeCodeExecutable',
+  'stderr',
+];
+
+/**
+ * .what = hosts which are called through, in either mode
+ * .why = a local stand-in server is offline and deterministic already, and tests may assert on what it received
+ */
+const FETCH_HOSTS_PASSED = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * .what = normalizes an http call of the anthropic sdk into the request a cassette keys on
+ * .why = host, auth, and transport headers vary per run, while path, keyed headers, and body decide the response
+ */
+const castIntoCassetteFetchRequest = async (
+  input: Parameters<typeof fetch>[0],
+  init: Parameters<typeof fetch>[1],
+): Promise<unknown> => {
+  const request = new Request(
+    input instanceof Request ? input.clone() : input,
+    init,
+  );
+  const url = new URL(request.url);
+  const text = await request.text();
+  const body = ((): unknown => {
+    try {
+      return text ? JSON.parse(text) : null;
+    } catch {
+      return text;
+    }
+  })();
+  return {
+    method: request.method,
+    path: `${url.pathname}${url.search}`,
+    headers: Object.fromEntries(
+      FETCH_HEADERS_KEYED.filter((name) => request.headers.has(name)).map(
+        (name) => [name, request.headers.get(name)],
+      ),
+    ),
+    body,
+  };
+};
+
+/**
+ * .what = normalizes the params of a claude-agent-sdk query into the request a cassette keys on
+ * .why = drops options which vary per machine or can not be serialized
+ */
+const castIntoCassetteQueryRequest = (params: unknown): unknown => {
+  const { options, ...rest } = params as { options?: Record<string, unknown> };
+  if (!options) return rest;
+  return {
+    ...rest,
+    options: Object.fromEntries(
+      Object.entries(options).filter(
+        ([key]) => !QUERY_OPTIONS_DROPPED.includes(key),
+      ),
+    ),
+  };
+};
+
+/**
+ * .what = generates a cassette, backed by a json file
+ * .why = one cassette per suite keeps what each suite recorded together, and reviewable in diffs
+ *
+ * .note
+ *   - record = calls through to the live api, and records each response; save() merges them into the file, replacing entries of the same keys
+ *   - replay = serves each request from the file, in the order recorded per key; never touches the network
+ *   - requests to localhost are called through in either mode, since stand-in servers are offline already
+ *   - a replay miss is answered with an error which names the nearest recorded request and where it differs
+ *
+ * .example
+ *   const cassette = genBrainCassette({ path: '__cassettes__/suite.json', mode: 'replay' });
+ *   const brainAtom = genBrainAtom({ slug: 'claude/haiku', client: { fetch: cassette.fetch } });
+ *   const brainRepl = genBrainRepl({ slug: 'claude/code', cassette });
+ */
+export const genBrainCassette = (input: {
+  path: string;
+  mode: BrainCassetteMode;
+  fetch?: typeof fetch;
+}): BrainCassette => {
+  const fetchLive = input.fetch ?? globalThis.fetch;
+
+  // load the recorded entries once, on first use
+  let loaded: Promise<BrainCassetteEntry[]> | null = null;
+  const load = (): Promise<BrainCassetteEntry[]> => {
+    loaded ??= fs
+      .readFile(input.path, 'utf-8')
+      .then((content) => (JSON.parse(content) as BrainCassetteFile).entries)
+      .catch((error) => {
+        if (error?.code === 'ENOENT') return [];
+        throw error;
+      });
+    return loaded;
+  };
+  const recorded: BrainCassetteEntry[] = [];
+  const replayedByKey = new Map<string, number>();
+
+  // find the next recorded entry of a request, else explain the miss
+  const replay = async <TKind extends BrainCassetteEntry['kind']>(
+    kind: TKind,
+    request: unknown,
+  ): Promise<Extract<BrainCassetteEntry, { kind: TKind }>> => {
+    const key = getCassetteKey({ request });
+    const entries = (await load()).filter((entry) => entry.kind === kind);
+    const matches = entries.filter((entry) => entry.key === key);
+    const index = replayedByKey.get(key) ?? 0;
+    replayedByKey.set(key, index + 1);
+    const match = matches[index];
+    if (match) return match as Extract<BrainCassetteEntry, { kind: TKind }>;
+
+    // diagnose the miss
+    if (matches.length)
+      throw new BrainCassetteMismatchError(
+        'the cassette recorded this request fewer times than it was made. rerun with CASSETTE=record to rerecord it.',
+        { cassette: input.path, kind, key, recorded: matches.length },
+      );
+    const nearest = entries
+      .map((entry) => ({
+        key: entry.key,
+        differences: getCassetteRequestDifferences({
+          recorded: entry.request,
+          requested: request,
+        }),
+      }))
+      .sort((a, b) => a.differences.length - b.differences.length)[0];
+    throw new BrainCassetteMismatchError(
+      'the cassette has no entry which matches this request. rerun with CASSETTE=record to record it.',
+      {
+        cassette: input.path,
+        kind,
+        key,
+        nearest: nearest
+          ? {
+              key: nearest.key,
+              differences: nearest.differences.slice(0, 10),
+            }
+          : null,
+      },
+    );
+  };
+
+  /**
+   * .what = records or replays an http call of the anthropic sdk
+   * .note = a replay miss is answered as a 400, since the sdk would otherwise wrap it as a retryable connection error
+   * .note = a recorded stream reaches the caller whole, once it ends, rather than event by event
+   */
+  const fetchCassette: typeof fetch = async (request, init) => {
+    // call local stand-in servers through
+    const url = new URL(request instanceof Request ? request.url : request);
+    if (FETCH_HOSTS_PASSED.includes(url.hostname))
+      return fetchLive(request, init);
+
+    const requestNormalized = await castIntoCassetteFetchRequest(request, init);
+
+    // serve the recorded response, on replay
+    if (input.mode === 'replay') {
+      const entry = await replay('fetch', requestNormalized).catch((error) => {
+        if (!(error instanceof BrainCassetteMismatchError)) throw error;
+        return error;
+      });
+      if (entry instanceof BrainCassetteMismatchError)
+        return new Response(
+          JSON.stringify({
+            type: 'error',
+            error: { type: 'invalid_request_error', message: entry.message },
+          }),
+          { status: 400, headers: { 'content-type': 'application/json' } },
+        );
+      const body =
+        'text' in entry.response.body
+          ? entry.response.body.text
+          : Buffer.from(entry.response.body.base64, 'base64');
+      return new Response(
+        [101, 204, 205, 304].includes(entry.response.status) ? null : body,
+        {
+          status: entry.response.status,
+          statusText: entry.response.statusText,
+          headers: entry.response.headers,
+        },
+      );
+    }
+
+    // call through and record the response, on record
+    const response = await fetchLive(request, init);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!FETCH_HEADERS_DROPPED.includes(name)) headers[name] = value;
+    });
+    const isText = /json|text|event-stream/.test(
+      response.headers.get('content-type') ?? '',
+    );
+    const bytes = Buffer.from(await response.arrayBuffer());
+    recorded.push({
+      kind: 'fetch',
+      key: getCassetteKey({ request: requestNormalized }),
+      request: requestNormalized,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: isText
+          ? { text: bytes.toString('utf-8') }
+          : { base64: bytes.toString('base64') },
+      },
+    });
+    return new Response(
+      [101, 204, 205, 304].includes(response.status) ? null : bytes,
+      { status: response.status, statusText: response.statusText, headers },
+    );
+  };
+
+  /**
+   * .what = records or replays the messages of a claude-agent-sdk session
+   * .note = a session which ends early, e.g., once a budget aborts it, is recorded up to where it ended
+   */
+  const withQuery =
+    <TParams, TMessage>(
+      query: (params: TParams) => AsyncIterable<TMessage>,
+    ): ((params: TParams) => AsyncIterable<TMessage>) =>
+    (params) => {
+      const requestNormalized = castIntoCassetteQueryRequest(params);
+
+      // serve the recorded messages, on replay
+      if (input.mode === 'replay')
+        return (async function* () {
+          const entry = await replay('query', requestNormalized);
+          for (const message of entry.messages) yield message as TMessage;
+          if (entry.error)
+            throw Object.assign(new Error(entry.error.message), {
+              name: entry.error.name,
+            });
+        })();
+
+      // call through and record the messages, on record
+      return (async function* () {
+        const messages: unknown[] = [];
+        let error: { name: string; message: string } | null = null;
+        try {
+          for await (const message of query(params)) {
+            messages.push(message);
+            yield message;
+          }
+        } catch (thrown) {
+          if (!(thrown instanceof Error)) throw thrown;
+          error = { name: thrown.name, message: thrown.message };
+          throw thrown;
+        } finally {
+          recorded.push({
+            kind: 'query',
+            key: getCassetteKey({ request: requestNormalized }),
+            request: requestNormalized,
+            messages,
+            error,
+          });
+        }
+      })();
+    };
+
+  /**
+   * .what = merges what was recorded into the cassette file
+   * .note = entries of keys recorded in this run replace the prior ones, while entries of other keys are kept
+   */
+  const save = async (): Promise<void> => {
+    if (input.mode !== 'record' || !recorded.length) return;
+    const keysRecorded = new Set(recorded.map((entry) => entry.key));
+    const entries = [
+      ...(await load()).filter((entry) => !keysRecorded.has(entry.key)),
+      ...recorded,
+    ];
+    await fs.mkdir(path.dirname(input.path), { recursive: true });
+    const file: BrainCassetteFile = { version: 1, entries };
+    await fs.writeFile(input.path, JSON.stringify(file, null, 2) + '\n');
+  };
+
+  return {
+    mode: input.mode,
+    path: input.path,
+    fetch: fetchCassette,
+    withQuery,
+    save,
+  };
+};
@@ -0,0 +1,43 @@
+import { given, then, when } from 'test-fns';
+
+import { asCassetteCanonical, getCassetteKey } from './getCassetteKey';
+
+describe('getCassetteKey', () => {
+  given('[case1] two requests which differ only in key order', () => {
+    when('[t0] keyed', () => {
+      then('they key alike', () => {
+        expect(
+          getCassetteKey({ request: { model: 'm', max_tokens: 16 } }),
+        ).toEqual(getCassetteKey({ request: { max_tokens: 16, model: 'm' } }));
+      });
+    });
+  });
+
+  given('[case2] two requests which differ in a value', () => {
+    when('[t0] keyed', () => {
+      then('they key apart', () => {
+        expect(getCassetteKey({ request: { prompt: 'a' } })).not.toEqual(
+          getCassetteKey({ request: { prompt: 'b' } }),
+        );
+      });
+    });
+  });
+});
+
+describe('asCassetteCanonical', () => {
+  given('[case1] a value with functions and class instances', () => {
+    when('[t0] cast', () => {
+      then('it drops them, and undefined values', () => {
+        expect(
+          asCassetteCanonical({
+            b: 1,
+            a: undefined,
+            onEvent: () => null,
+            abortController: new AbortController(),
+            list: [1, undefined],
+          }),
+        ).toEqual({ b: 1, list: [1, null] });
+      });
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { createHash } from 'crypto';
+
+/**
+ * .what = casts a value into its canonical json form
+ * .why = two requests which differ only in key order or in values json can not carry must key alike
+ *
+ * .note = object keys are sorted; functions, undefined values, and class instances (e.g., an AbortController) are dropped
+ */
+export const asCassetteCanonical = (value: unknown): unknown => {
+  if (Array.isArray(value))
+    return value.map((item) =>
+      item === undefined || typeof item === 'function'
+        ? null
+        : asCassetteCanonical(item),
+    );
+  if (value === null || typeof value !== 'object') return value;
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return undefined;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [
+        key,
+        asCassetteCanonical((value as Record<string, unknown>)[key]),
+      ])
+      .filter(([, item]) => item !== undefined && typeof item !== 'function'),
+  );
+};
+
+/**
+ * .what = computes the key of a request within a cassette
+ * .why = replay looks up the recorded response by the hash of the normalized request, rather than by its order
+ */
+export const getCassetteKey = (input: { request: unknown }): string =>
+  createHash('sha256')
+    .update(JSON.stringify(asCassetteCanonical(input.request)))
+    .digest('hex')
+    .slice(0, 16);
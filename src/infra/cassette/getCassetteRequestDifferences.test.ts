@@ -0,0 +1,49 @@
+import { given, then, when } from 'test-fns';
+
+import { getCassetteRequestDifferences } from './getCassetteRequestDifferences';
+
+describe('getCassetteRequestDifferences', () => {
+  given('[case1] two requests which differ in one nested leaf', () => {
+    when('[t0] compared', () => {
+      then('it names that leaf, with both values', () => {
+        const differences = getCassetteRequestDifferences({
+          recorded: { body: { messages: [{ role: 'user', content: 'hi' }] } },
+          requested: { body: { messages: [{ role: 'user', content: 'yo' }] } },
+        });
+        expect(differences).toEqual([
+          {
+            path: '$.body.messages[0].content',
+            recorded: 'hi',
+            requested: 'yo',
+          },
+        ]);
+      });
+    });
+  });
+
+  given('[case2] a leaf only one of the requests has', () => {
+    when('[t0] compared', () => {
+      then('it names that leaf, absent on the other side', () => {
+        const differences = getCassetteRequestDifferences({
+          recorded: { body: { model: 'm' } },
+          requested: { body: { model: 'm', temperature: 0 } },
+        });
+        expect(differences).toEqual([
+          { path: '$.body.temperature', recorded: undefined, requested: 0 },
+        ]);
+      });
+    });
+  });
+
+  given('[case3] a long string value which differs', () => {
+    when('[t0] compared', () => {
+      then('it truncates the values it reports', () => {
+        const [difference] = getCassetteRequestDifferences({
+          recorded: { prompt: 'a'.repeat(500) },
+          requested: { prompt: 'b'.repeat(500) },
+        });
+        expect(String(difference!.recorded).length).toBeLessThan(300);
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { asCassetteCanonical } from './getCassetteKey';
+
+/**
+ * .what = a leaf at which a requested and a recorded request differ
+ * .why = tells a reader which part of the request changed since the cassette was recorded
+ */
+export type CassetteRequestDifference = {
+  path: string;
+  recorded: unknown;
+  requested: unknown;
+};
+
+/**
+ * .what = flattens a canonical value into its leaves, by json path
+ * .why = leaves compare one by one, so that only the ones which differ are reported
+ */
+const asLeaves = (
+  value: unknown,
+  path: string,
+  leaves: Map<string, unknown>,
+): Map<string, unknown> => {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value))
+      asLeaves(
+        item,
+        Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`,
+        leaves,
+      );
+    return leaves;
+  }
+  leaves.set(path, value);
+  return leaves;
+};
+
+/**
+ * .what = lists the leaves at which a requested and a recorded request differ
+ * .why = a replay miss is diagnosed against the nearest recorded request, rather than with a bare hash
+ *
+ * .note = long string values are truncated, so that one changed prompt does not flood the report
+ */
+export const getCassetteRequestDifferences = (input: {
+  recorded: unknown;
+  requested: unknown;
+}): CassetteRequestDifference[] => {
+  const recorded = asLeaves(
+    asCassetteCanonical(input.recorded),
+    '$',
+    new Map(),
+  );
+  const requested = asLeaves(
+    asCassetteCanonical(input.requested),
+    '$',
+    new Map(),
+  );
+  const truncate = (value: unknown): unknown =>
+    typeof value === 'string' && value.length > 200
+      ? `${value.slice(0, 200)}…`
+      : value;
+  const paths = [...new Set([...recorded.keys(), ...requested.keys()])];
+  return paths
+    .filter((path) => recorded.get(path) !== requested.get(path))
+    .map((path) => ({
+      path,
+      recorded: truncate(recorded.get(path)),
+      requested: truncate(requested.get(path)),
+    }));
+};
@@ -0,0 +1,42 @@
+import { given, then, when } from 'test-fns';
+
+import { castFromAnthropicCacheCreation } from './castFromAnthropicCacheCreation';
+
+describe('castFromAnthropicCacheCreation', () => {
+  given('[case1] usage with a ttl breakdown', () => {
+    when('[t0] cast', () => {
+      then('it splits the writes by ttl', () => {
+        const tokens = castFromAnthropicCacheCreation({
+          usage: {
+            cache_creation_input_tokens: 1_500,
+            cache_creation: {
+              ephemeral_5m_input_tokens: 500,
+              ephemeral_1h_input_tokens: 1_000,
+            },
+          },
+        });
+        expect(tokens).toEqual({ '5m': 500, '1h': 1_000 });
+      });
+    });
+  });
+
+  given('[case2] usage without a ttl breakdown', () => {
+    when('[t0] cast', () => {
+      then('it counts every write as 5m', () => {
+        const tokens = castFromAnthropicCacheCreation({
+          usage: { cache_creation_input_tokens: 1_500, cache_creation: null },
+        });
+        expect(tokens).toEqual({ '5m': 1_500, '1h': 0 });
+      });
+    });
+
+    when('[t1] cast without writes', () => {
+      then('it counts zero writes', () => {
+        const tokens = castFromAnthropicCacheCreation({
+          usage: { cache_creation_input_tokens: null, cache_creation: null },
+        });
+        expect(tokens).toEqual({ '5m': 0, '1h': 0 });
+      });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import type Anthropic from '@anthropic-ai/sdk';
+
+import type { AnthropicCacheTtl } from './castIntoAnthropicCacheBreakpoints';
+
+/**
+ * .what = cache write tokens, split by the ttl of the entry they wrote
+ * .why = 1h writes are priced higher than 5m writes
+ */
+export type BrainCacheSetTokens = Record<AnthropicCacheTtl, number>;
+
+/**
+ * .what = cast anthropic usage into cache write tokens by ttl
+ * .why = explicit boundary between provider usage and the split which cash is priced from
+ *
+ * .note = when the api omits the breakdown, every write is counted as 5m, the default ttl
+ */
+export const castFromAnthropicCacheCreation = (input: {
+  usage: Pick<
+    Anthropic.Beta.Messages.BetaUsage,
+    'cache_creation' | 'cache_creation_input_tokens'
+  >;
+}): BrainCacheSetTokens => {
+  const breakdown = input.usage.cache_creation;
+  if (!breakdown)
+    return { '5m': input.usage.cache_creation_input_tokens ?? 0, '1h': 0 };
+  return {
+    '5m': breakdown.ephemeral_5m_input_tokens,
+    '1h': breakdown.ephemeral_1h_input_tokens,
+  };
+};
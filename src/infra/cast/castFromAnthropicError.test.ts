@@ -0,0 +1,165 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { given, then, when } from 'test-fns';
+
+import {
+  BrainAuthInvalidError,
+  BrainContextTooLongError,
+  type BrainError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainTimeoutError,
+} from '../../domain.objects/BrainError';
+import { castFromAnthropicError } from './castFromAnthropicError';
+
+/**
+ * .what = generates an anthropic api error with a given status and body
+ * .why = mirrors what the sdk throws on a failed response
+ */
+const genApiError = (input: {
+  status: number;
+  type?: string;
+  message?: string;
+}) =>
+  Anthropic.APIError.generate(
+    input.status,
+    {
+      type: 'error',
+      error: {
+        type: input.type ?? 'api_error',
+        message: input.message ?? 'failed',
+      },
+    },
+    undefined,
+    new Headers({ 'request-id': 'req_123' }),
+  );
+
+/**
+ * .what = generates an anthropic api error of a given type, with no status
+ * .why = mirrors what the sdk throws on an sse error event within a stream
+ */
+const genStreamError = (input: { type: string }) =>
+  new Anthropic.APIError(
+    undefined,
+    { type: 'error', error: { type: input.type, message: 'failed' } },
+    undefined,
+    new Headers(),
+  );
+
+const brain = { slug: 'claude/sonnet', model: 'claude-sonnet-4-5-20250929' };
+
+describe('castFromAnthropicError', () => {
+  given('[case1] an authentication error', () => {
+    when('[t0] cast', () => {
+      then('it is an auth-invalid brain error with metadata', () => {
+        const cause = genApiError({ status: 401 });
+        const error = castFromAnthropicError({ error: cause, ...brain });
+        expect(error).toBeInstanceOf(BrainAuthInvalidError);
+        expect((error as BrainError).kind).toEqual('auth-invalid');
+        expect((error as BrainError).metadata).toEqual({
+          ...brain,
+          requestId: 'req_123',
+          cause,
+        });
+      });
+    });
+  });
+
+  given('[case2] a rate limit error', () => {
+    when('[t0] cast', () => {
+      then('it is a rate-limited brain error', () => {
+        const error = castFromAnthropicError({
+          error: genApiError({ status: 429 }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainRateLimitedError);
+      });
+    });
+
+    when('[t1] the stream was rate limited, with no status', () => {
+      then('it is a rate-limited brain error', () => {
+        const error = castFromAnthropicError({
+          error: genStreamError({ type: 'rate_limit_error' }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainRateLimitedError);
+      });
+    });
+  });
+
+  given('[case3] an overloaded error', () => {
+    when('[t0] the status is 529', () => {
+      then('it is an overloaded brain error', () => {
+        const error = castFromAnthropicError({
+          error: genApiError({ status: 529, type: 'overloaded_error' }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+      });
+    });
+
+    when('[t1] the stream was overloaded, with no status', () => {
+      then('it is an overloaded brain error', () => {
+        const error = castFromAnthropicError({
+          error: genStreamError({ type: 'overloaded_error' }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainOverloadedError);
+      });
+    });
+  });
+
+  given('[case4] a bad request error', () => {
+    when('[t0] the prompt is too long', () => {
+      then('it is a context-too-long brain error', () => {
+        const error = castFromAnthropicError({
+          error: genApiError({
+            status: 400,
+            type: 'invalid_request_error',
+            message: 'prompt is too long: 210000 tokens > 200000 maximum',
+          }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainContextTooLongError);
+      });
+    });
+
+    when('[t1] the request is otherwise invalid', () => {
+      then('it is returned as-is', () => {
+        const cause = genApiError({ status: 400 });
+        expect(castFromAnthropicError({ error: cause, ...brain })).toBe(cause);
+      });
+    });
+  });
+
+  given('[case5] a non-api error', () => {
+    when('[t0] cast', () => {
+      then('it is returned as-is', () => {
+        const cause = new TypeError('bad');
+        expect(castFromAnthropicError({ error: cause, ...brain })).toBe(cause);
+      });
+    });
+  });
+
+  given('[case6] a timeout', () => {
+    when('[t0] the connection timed out', () => {
+      then('it is a timeout brain error', () => {
+        const error = castFromAnthropicError({
+          error: new Anthropic.APIConnectionTimeoutError(),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainTimeoutError);
+        expect((error as BrainError).kind).toEqual('timeout');
+      });
+    });
+
+    when('[t1] the status is 408', () => {
+      then('it is a timeout brain error', () => {
+        const error = castFromAnthropicError({
+          error: genApiError({ status: 408 }),
+          ...brain,
+        });
+        expect(error).toBeInstanceOf(BrainTimeoutError);
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+import {
+  BrainAuthInvalidError,
+  BrainContextTooLongError,
+  BrainOverloadedError,
+  BrainRateLimitedError,
+  BrainTimeoutError,
+} from '../../domain.objects/BrainError';
+
+/**
+ * .what = patterns which signal the prompt exceeded the context window
+ * .why = the api reports this as a plain 400 invalid_request_error, distinguished only by message
+ */
+const CONTEXT_TOO_LONG_PATTERN =
+  /prompt is too long|context window|too many tokens/i;
+
+/**
+ * .what = reads the error type from an api error body
+ * .why = overloads and rate limits are reported as `overloaded_error` and `rate_limit_error`, on their status or within a stream
+ *
+ * .note = an error within a stream has no status, so its type is the only signal of what failed
+ */
+export const getAnthropicErrorType = (error: {
+  error: unknown;
+}): string | null => {
+  const body = error.error as { error?: { type?: unknown } } | undefined;
+  return typeof body?.error?.type === 'string' ? body.error.type : null;
+};
+
+/**
+ * .what = cast an anthropic sdk error into a typed brain error
+ * .why = explicit boundary between provider SDK failures and the rhachet domain
+ *
+ * .note = returns the error as-is when it has no brain error counterpart
+ */
+export const castFromAnthropicError = (input: {
+  error: unknown;
+  slug: string;
+  model: string;
+}): unknown => {
+  if (!(input.error instanceof Anthropic.APIError)) return input.error;
+  const metadata = {
+    slug: input.slug,
+    model: input.model,
+    requestId: input.error.requestID ?? null,
+    cause: input.error,
+  };
+
+  if (input.error.status === 401 || input.error.status === 403)
+    return new BrainAuthInvalidError(
+      'anthropic rejected the api key. check ANTHROPIC_API_KEY and its permissions.',
+      metadata,
+    );
+  if (
+    input.error.status === 429 ||
+    getAnthropicErrorType(input.error) === 'rate_limit_error'
+  )
+    return new BrainRateLimitedError(
+      'anthropic rate limited the request. retry later or lower concurrency.',
+      metadata,
+    );
+  if (
+    input.error.status === 529 ||
+    getAnthropicErrorType(input.error) === 'overloaded_error'
+  )
+    return new BrainOverloadedError(
+      'anthropic is temporarily overloaded. retry later.',
+      metadata,
+    );
+  if (
+    input.error instanceof Anthropic.APIConnectionTimeoutError ||
+    input.error.status === 408
+  )
+    return new BrainTimeoutError(
+      'anthropic did not respond before the request timed out. retry later, or raise the client timeout.',
+      metadata,
+    );
+  if (
+    input.error.status === 400 &&
+    CONTEXT_TOO_LONG_PATTERN.test(input.error.message)
+  )
+    return new BrainContextTooLongError(
+      'prompt exceeds the context window of the model. shorten the prompt, briefs, or episode.',
+      metadata,
+    );
+
+  return input.error;
+};
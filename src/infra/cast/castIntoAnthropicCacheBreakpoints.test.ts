@@ -0,0 +1,109 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { given, then, when } from 'test-fns';
+
+import { castIntoAnthropicCacheBreakpoints } from './castIntoAnthropicCacheBreakpoints';
+
+const toolExample: Anthropic.Beta.Messages.BetaTool = {
+  name: 'test_calculator',
+  description: 'performs arithmetic',
+  input_schema: { type: 'object', properties: {} },
+};
+
+describe('castIntoAnthropicCacheBreakpoints', () => {
+  given('[case1] briefs, tools, and episode history', () => {
+    const cached = castIntoAnthropicCacheBreakpoints({
+      system: 'you are a helpful assistant',
+      tools: [toolExample, { ...toolExample, name: 'test_other' }],
+      history: [
+        { role: 'user', content: 'remember MANGO77' },
+        { role: 'assistant', content: '{"content":"code received"}' },
+      ],
+      ttl: '5m',
+    });
+
+    when('[t0] cast', () => {
+      then('system becomes a single cached text block', () => {
+        expect(cached.system).toEqual([
+          {
+            type: 'text',
+            text: 'you are a helpful assistant',
+            cache_control: { type: 'ephemeral', ttl: '5m' },
+          },
+        ]);
+      });
+
+      then('only the last tool carries a breakpoint', () => {
+        expect(cached.tools?.[0]).not.toHaveProperty('cache_control');
+        expect(cached.tools?.[1]).toHaveProperty('cache_control', {
+          type: 'ephemeral',
+          ttl: '5m',
+        });
+      });
+
+      then('only the last history message carries a breakpoint', () => {
+        expect(cached.history[0]?.content).toEqual('remember MANGO77');
+        expect(cached.history[1]?.content).toEqual([
+          {
+            type: 'text',
+            text: '{"content":"code received"}',
+            cache_control: { type: 'ephemeral', ttl: '5m' },
+          },
+        ]);
+      });
+    });
+  });
+
+  given('[case2] history whose tail is a tool_use block array', () => {
+    const cached = castIntoAnthropicCacheBreakpoints({
+      system: undefined,
+      tools: undefined,
+      history: [
+        { role: 'user', content: 'compute 2 + 2' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'let me compute' },
+            {
+              type: 'tool_use',
+              id: 'toolu_01',
+              name: 'test_calculator',
+              input: { a: 2, b: 2, op: 'add' },
+            },
+          ],
+        },
+      ],
+      ttl: '1h',
+    });
+
+    when('[t0] cast', () => {
+      then('system and tools stay undefined', () => {
+        expect(cached.system).toBeUndefined();
+        expect(cached.tools).toBeUndefined();
+      });
+
+      then('the breakpoint lands on the last block only', () => {
+        const content = cached.history[1]
+          ?.content as Anthropic.Beta.Messages.BetaContentBlockParam[];
+        expect(content[0]).not.toHaveProperty('cache_control');
+        expect(content[1]).toHaveProperty('cache_control', {
+          type: 'ephemeral',
+          ttl: '1h',
+        });
+      });
+    });
+  });
+
+  given('[case3] no episode history', () => {
+    when('[t0] cast', () => {
+      then('history stays empty', () => {
+        const cached = castIntoAnthropicCacheBreakpoints({
+          system: 'briefs',
+          tools: undefined,
+          history: [],
+          ttl: '5m',
+        });
+        expect(cached.history).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import type Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * .what = ttl options for anthropic prompt cache entries
+ * .why = 5m is the default; 1h costs more to write but survives longer gaps between asks
+ */
+export type AnthropicCacheTtl = '5m' | '1h';
+
+/**
+ * .what = marks the last content block of a message as a cache breakpoint
+ * .why = string content has no block to mark, so it is lifted into a text block first
+ */
+const withCacheControlOnLastBlock = (input: {
+  message: Anthropic.Beta.Messages.BetaMessageParam;
+  cacheControl: Anthropic.Beta.Messages.BetaCacheControlEphemeral;
+}): Anthropic.Beta.Messages.BetaMessageParam => {
+  const blocks: Anthropic.Beta.Messages.BetaContentBlockParam[] =
+    typeof input.message.content === 'string'
+      ? [{ type: 'text', text: input.message.content }]
+      : input.message.content;
+
+  // skip if no block can carry a breakpoint (e.g., empty text, which the api rejects)
+  const blockLast = blocks[blocks.length - 1];
+  if (!blockLast) return input.message;
+  if (blockLast.type === 'text' && !blockLast.text) return input.message;
+  if (blockLast.type === 'thinking' || blockLast.type === 'redacted_thinking')
+    return input.message;
+
+  return {
+    ...input.message,
+    content: [
+      ...blocks.slice(0, -1),
+      { ...blockLast, cache_control: input.cacheControl },
+    ],
+  };
+};
+
+/**
+ * .what = cast request parts into their cached form, with breakpoints on briefs, tools, and episode tail
+ * .why = briefs and prior exchanges are resent on every ask; breakpoints let the api bill them at the cache rate
+ *
+ * .note = the api caches the prefix in order tools → system → messages, and allows at most 4 breakpoints; we use 3
+ */
+export const castIntoAnthropicCacheBreakpoints = (input: {
+  system: string | undefined;
+  tools: Anthropic.Beta.Messages.BetaTool[] | undefined;
+  history: Anthropic.Beta.Messages.BetaMessageParam[];
+  ttl: AnthropicCacheTtl;
+}): {
+  system: Anthropic.Beta.Messages.BetaTextBlockParam[] | undefined;
+  tools: Anthropic.Beta.Messages.BetaTool[] | undefined;
+  history: Anthropic.Beta.Messages.BetaMessageParam[];
+} => {
+  const cacheControl: Anthropic.Beta.Messages.BetaCacheControlEphemeral = {
+    type: 'ephemeral',
+    ttl: input.ttl,
+  };
+
+  // breakpoint on the briefs system block
+  const system = input.system
+    ? [
+        {
+          type: 'text' as const,
+          text: input.system,
+          cache_control: cacheControl,
+        },
+      ]
+    : undefined;
+
+  // breakpoint on the last tool definition, which caches all tool definitions
+  const tools = input.tools?.map((tool, index, all) =>
+    index === all.length - 1 ? { ...tool, cache_control: cacheControl } : tool,
+  );
+
+  // breakpoint on the tail of the prior episode, which caches the full history
+  const history = input.history.map((message, index, all) =>
+    index === all.length - 1
+      ? withCacheControlOnLastBlock({ message, cacheControl })
+      : message,
+  );
+
+  return { system, tools, history };
+};
@@ -0,0 +1,149 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError, given, then, when } from 'test-fns';
+
+import { castIntoAnthropicInferenceParams } from './castIntoAnthropicInferenceParams';
+
+const limits = { output: { tokens: 32_000 } };
+const supports = { sampling: { temperatureWithTopP: false } };
+
+describe('castIntoAnthropicInferenceParams', () => {
+  given('[case1] no options', () => {
+    when('[t0] cast', () => {
+      then('max_tokens defaults to 16384', () => {
+        const params = castIntoAnthropicInferenceParams({
+          options: {},
+          limits,
+          supports,
+          thinking: null,
+        });
+        expect(params).toEqual({ max_tokens: 16384 });
+      });
+
+      then('max_tokens is capped by a smaller model limit', () => {
+        const params = castIntoAnthropicInferenceParams({
+          options: {},
+          limits: { output: { tokens: 8_192 } },
+          supports,
+          thinking: null,
+        });
+        expect(params).toEqual({ max_tokens: 8_192 });
+      });
+    });
+  });
+
+  given('[case2] atom defaults and ask overrides', () => {
+    when('[t0] cast', () => {
+      then('ask options override atom options key by key', () => {
+        const params = castIntoAnthropicInferenceParams({
+          options: {
+            atom: { maxTokens: 1000, temperature: 0.7, stopSequences: ['END'] },
+            ask: { temperature: 0 },
+          },
+          limits,
+          supports,
+          thinking: null,
+        });
+        expect(params).toEqual({
+          max_tokens: 1000,
+          temperature: 0,
+          stop_sequences: ['END'],
+        });
+      });
+    });
+  });
+
+  given('[case3] extended thinking', () => {
+    when('[t0] cast with a budget', () => {
+      then('the budget is added on top of the answer room', () => {
+        const params = castIntoAnthropicInferenceParams({
+          options: { ask: { maxTokens: 4000 } },
+          limits,
+          supports,
+          thinking: { budget: { tokens: 2000 } },
+        });
+        expect(params.max_tokens).toEqual(6000);
+      });
+    });
+
+    when('[t1] cast with a temperature', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          castIntoAnthropicInferenceParams({
+            options: { ask: { temperature: 0 } },
+            limits,
+            supports,
+            thinking: { budget: { tokens: 2000 } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('extended thinking');
+      });
+    });
+  });
+
+  given('[case4] options beyond the model limits', () => {
+    when('[t0] maxTokens exceeds the max output', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          castIntoAnthropicInferenceParams({
+            options: { atom: { maxTokens: 64_000 } },
+            limits,
+            supports,
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('max output tokens');
+      });
+    });
+
+    when('[t1] temperature is out of range', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          castIntoAnthropicInferenceParams({
+            options: { ask: { temperature: 1.5 } },
+            limits,
+            supports,
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('temperature');
+      });
+    });
+
+    when('[t2] both temperature and topP are set', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(() =>
+          castIntoAnthropicInferenceParams({
+            options: { atom: { temperature: 0.2 }, ask: { topP: 0.9 } },
+            limits,
+            supports,
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('not both');
+      });
+    });
+
+    when(
+      '[t3] both temperature and topP are set, on a model which accepts the pair',
+      () => {
+        then('it casts both', () => {
+          const params = castIntoAnthropicInferenceParams({
+            options: { atom: { temperature: 0.2 }, ask: { topP: 0.9 } },
+            limits,
+            supports: { sampling: { temperatureWithTopP: true } },
+            thinking: null,
+          });
+          expect(params).toEqual({
+            max_tokens: 16384,
+            temperature: 0.2,
+            top_p: 0.9,
+          });
+        });
+      },
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { BadRequestError } from 'helpful-errors';
+
+/**
+ * .what = inference options which tune how an atom samples its response
+ * .why = enables deterministic low-temperature classifiers and long-form generators from the same atom
+ */
+export type BrainAtomInferenceOptions = {
+  /**
+   * .what = max tokens the answer may use
+   * .note = excludes the extended thinking budget, which is added on top
+   */
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+};
+
+/**
+ * .what = default answer room, when maxTokens is not specified
+ * .why = roomy enough for long structured outputs, yet capped by each model's own limit
+ */
+const MAX_TOKENS_DEFAULT = 16384;
+
+/**
+ * .what = cast inference options into anthropic message params, with validation against model limits
+ * .why = fail-fast on options the api would reject, before we pay the latency of a call
+ *
+ * .note = per-call options override the atom's defaults, key by key
+ */
+export const castIntoAnthropicInferenceParams = (input: {
+  options: {
+    atom?: BrainAtomInferenceOptions;
+    ask?: BrainAtomInferenceOptions;
+  };
+  limits: { output: { tokens: number } };
+  supports: { sampling: { temperatureWithTopP: boolean } };
+  thinking: { budget: { tokens: number } } | null;
+}): {
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+} => {
+  const options: BrainAtomInferenceOptions = {
+    ...input.options.atom,
+    ...input.options.ask,
+  };
+
+  // resolve max tokens; thinking tokens count against max_tokens, so the budget is added on top of the answer room
+  const answerTokens =
+    options.maxTokens ??
+    Math.min(
+      MAX_TOKENS_DEFAULT,
+      input.limits.output.tokens - (input.thinking?.budget.tokens ?? 0),
+    );
+  if (!Number.isInteger(answerTokens) || answerTokens < 1)
+    throw new BadRequestError('maxTokens must be a positive integer', {
+      options,
+      thinking: input.thinking,
+    });
+  const maxTokens = answerTokens + (input.thinking?.budget.tokens ?? 0);
+  if (maxTokens > input.limits.output.tokens)
+    throw new BadRequestError(
+      'maxTokens, plus the thinking budget, exceeds the max output tokens of this model',
+      { options, thinking: input.thinking, limits: input.limits },
+    );
+
+  // validate sampling ranges
+  if (
+    options.temperature !== undefined &&
+    (options.temperature < 0 || options.temperature > 1)
+  )
+    throw new BadRequestError('temperature must be between 0 and 1', {
+      options,
+    });
+  if (options.topP !== undefined && (options.topP < 0 || options.topP > 1))
+    throw new BadRequestError('topP must be between 0 and 1', { options });
+  if (
+    options.topK !== undefined &&
+    (!Number.isInteger(options.topK) || options.topK < 1)
+  )
+    throw new BadRequestError('topK must be a positive integer', { options });
+  if (
+    !input.supports.sampling.temperatureWithTopP &&
+    options.temperature !== undefined &&
+    options.topP !== undefined
+  )
+    throw new BadRequestError(
+      'temperature and topP can not both be set on this model. tune one or the other.',
+      { options },
+    );
+  if (options.stopSequences?.some((sequence) => !sequence.trim()))
+    throw new BadRequestError('stopSequences must not be blank', { options });
+
+  // validate compatibility with extended thinking; src: https://platform.claude.com/docs/en/build-with-claude/extended-thinking
+  if (input.thinking && options.temperature !== undefined)
+    throw new BadRequestError(
+      'temperature can not be set when extended thinking is enabled',
+      { options },
+    );
+  if (input.thinking && options.topK !== undefined)
+    throw new BadRequestError(
+      'topK can not be set when extended thinking is enabled',
+      { options },
+    );
+  if (input.thinking && options.topP !== undefined && options.topP < 0.95)
+    throw new BadRequestError(
+      'topP must be at least 0.95 when extended thinking is enabled',
+      { options },
+    );
+
+  return {
+    max_tokens: maxTokens,
+    ...(options.temperature !== undefined && {
+      temperature: options.temperature,
+    }),
+    ...(options.topP !== undefined && { top_p: options.topP }),
+    ...(options.topK !== undefined && { top_k: options.topK }),
+    ...(options.stopSequences?.length && {
+      stop_sequences: options.stopSequences,
+    }),
+  };
+};
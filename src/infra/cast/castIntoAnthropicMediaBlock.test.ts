@@ -0,0 +1,69 @@
+import { BadRequestError } from 'helpful-errors';
+import path from 'path';
+import { getError, given, then, when } from 'test-fns';
+
+import { TEST_ASSETS_DIR } from '../../.test/assets/dir';
+import { castIntoAnthropicMediaBlock } from './castIntoAnthropicMediaBlock';
+
+const MEDIA_DIR = path.join(TEST_ASSETS_DIR, '/example.media');
+
+describe('castIntoAnthropicMediaBlock', () => {
+  given('[case1] a buffer with an image mime', () => {
+    when('[t0] cast', () => {
+      then('it returns a base64 image block', async () => {
+        const block = await castIntoAnthropicMediaBlock({
+          media: { buffer: Buffer.from('hello'), mime: 'image/webp' },
+        });
+        expect(block).toEqual({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: 'image/webp',
+            data: Buffer.from('hello').toString('base64'),
+          },
+        });
+      });
+    });
+  });
+
+  given('[case2] a path to a png', () => {
+    when('[t0] cast', () => {
+      then('it infers image/png from the extension', async () => {
+        const block = await castIntoAnthropicMediaBlock({
+          media: { path: path.join(MEDIA_DIR, 'red-square.png') },
+        });
+        expect(block.type).toEqual('image');
+        expect(block.source).toMatchObject({ media_type: 'image/png' });
+      });
+    });
+  });
+
+  given('[case3] a path to a pdf', () => {
+    when('[t0] cast', () => {
+      then('it returns a base64 document block', async () => {
+        const block = await castIntoAnthropicMediaBlock({
+          media: { path: path.join(MEDIA_DIR, 'secret-word.pdf') },
+        });
+        expect(block.type).toEqual('document');
+        expect(block.source).toMatchObject({
+          type: 'base64',
+          media_type: 'application/pdf',
+        });
+      });
+    });
+  });
+
+  given('[case4] a path with an unsupported extension', () => {
+    when('[t0] cast', () => {
+      then('it throws BadRequestError', async () => {
+        const error = await getError(
+          castIntoAnthropicMediaBlock({
+            media: { path: path.join(MEDIA_DIR, 'notes.txt') },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('not supported');
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { readFile } from 'fs/promises';
+import { BadRequestError } from 'helpful-errors';
+import path from 'path';
+import type { Artifact } from 'rhachet-artifact';
+import type { GitFile } from 'rhachet-artifact-git';
+
+/**
+ * .what = media types which atoms accept alongside a text prompt
+ * .why = anthropic accepts these as image and document content blocks
+ */
+export type BrainAtomMediaMime =
+  | 'image/png'
+  | 'image/jpeg'
+  | 'image/webp'
+  | 'image/gif'
+  | 'application/pdf';
+
+/**
+ * .what = a media attachment, from a buffer, a file path, or a git file artifact
+ * .why = lets callers pass images and pdfs from wherever they already hold them
+ *
+ * .note = mime is inferred from the file extension for paths and artifacts
+ */
+export type BrainAtomMedia =
+  | { buffer: Buffer; mime: BrainAtomMediaMime }
+  | { path: string }
+  | { artifact: Artifact<typeof GitFile> };
+
+/**
+ * .what = mime type by file extension
+ * .why = infers the media type of paths and artifacts
+ */
+const MIME_BY_EXTENSION: Record<string, BrainAtomMediaMime> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * .what = infers the mime type of a file from its extension
+ * .why = fail-fast on unsupported files, before the api rejects them
+ */
+const getMimeOfFile = (input: { uri: string }): BrainAtomMediaMime => {
+  const extension = path.extname(input.uri).toLowerCase();
+  const mime = MIME_BY_EXTENSION[extension];
+  if (!mime)
+    throw new BadRequestError(
+      'media file type is not supported. use png, jpeg, webp, gif, or pdf.',
+      { uri: input.uri, extension },
+    );
+  return mime;
+};
+
+/**
+ * .what = cast a media attachment into an anthropic image or document block
+ * .why = explicit boundary between rhachet domain and provider SDK
+ *
+ * .note = binary is read from disk directly, since artifact content is text
+ */
+export const castIntoAnthropicMediaBlock = async (input: {
+  media: BrainAtomMedia;
+}): Promise<
+  | Anthropic.Beta.Messages.BetaImageBlockParam
+  | Anthropic.Beta.Messages.BetaRequestDocumentBlock
+> => {
+  // resolve the bytes and mime of the attachment
+  const { buffer, mime } = await (async () => {
+    if ('buffer' in input.media)
+      return { buffer: input.media.buffer, mime: input.media.mime };
+    const uri =
+      'path' in input.media ? input.media.path : input.media.artifact.ref.uri;
+    const mime = getMimeOfFile({ uri }); // infer before read, to fail-fast on unsupported files
+    return { buffer: await readFile(uri), mime };
+  })();
+  const data = buffer.toString('base64');
+
+  // pdfs become document blocks
+  if (mime === 'application/pdf')
+    return {
+      type: 'document',
+      source: { type: 'base64', media_type: mime, data },
+    };
+
+  // everything else is an image
+  return {
+    type: 'image',
+    source: { type: 'base64', media_type: mime, data },
+  };
+};
@@ -0,0 +1,39 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError, given, then, when } from 'test-fns';
+import { z } from 'zod';
+
+import {
+  castIntoAnthropicOutputTool,
+  OUTPUT_TOOL_NAME,
+} from './castIntoAnthropicOutputTool';
+
+describe('castIntoAnthropicOutputTool', () => {
+  given('[case1] an object output schema', () => {
+    when('[t0] cast', () => {
+      then('it returns a tool whose input schema is the output schema', () => {
+        const tool = castIntoAnthropicOutputTool({
+          schema: z.object({ answer: z.number() }),
+        });
+        expect(tool.name).toEqual(OUTPUT_TOOL_NAME);
+        expect(tool.input_schema).toMatchObject({
+          type: 'object',
+          properties: { answer: { type: 'number' } },
+          required: ['answer'],
+        });
+        expect(tool.input_schema).not.toHaveProperty('$schema');
+      });
+    });
+  });
+
+  given('[case2] a non-object output schema', () => {
+    when('[t0] cast', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          castIntoAnthropicOutputTool({ schema: z.string() }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('requires an object output schema');
+      });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError } from 'helpful-errors';
+import type { z } from 'zod';
+
+import { asJsonSchema } from '../schema/asJsonSchema';
+
+/**
+ * .what = the name of the tool through which the brain emits its output, when structured output is emulated
+ * .why = distinguishes the output from calls of plugged tools
+ *
+ * .note = prefixed, so that it can not collide with the slug of a plugged tool
+ */
+export const OUTPUT_TOOL_NAME = 'rhachet_brain_output';
+
+/**
+ * .what = cast an output schema into a tool whose input is the output
+ * .why = a forced tool call constrains the response to the schema, where native structured output can not be used
+ */
+export const castIntoAnthropicOutputTool = (input: {
+  schema: z.Schema;
+}): Anthropic.Messages.Tool => {
+  const inputSchema = asJsonSchema({ schema: input.schema });
+
+  // fail-fast: tool inputs must be objects, per the api
+  if (inputSchema.type !== 'object')
+    throw new BadRequestError(
+      'structured output via tool requires an object output schema. wrap the output in a z.object.',
+      { type: inputSchema.type },
+    );
+
+  return {
+    name: OUTPUT_TOOL_NAME,
+    description:
+      'respond with your final output via this tool. call it once no other tool is needed.',
+    input_schema: inputSchema as Anthropic.Messages.Tool['input_schema'],
+  };
+};
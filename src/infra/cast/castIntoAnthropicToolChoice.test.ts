@@ -0,0 +1,126 @@
+import { BadRequestError } from 'helpful-errors';
+import { getError, given, then, when } from 'test-fns';
+
+import { castIntoAnthropicToolChoice } from './castIntoAnthropicToolChoice';
+
+const tools = [{ slug: 'test_calculator' }, { slug: 'test_weather' }];
+
+describe('castIntoAnthropicToolChoice', () => {
+  given('[case1] a valid choice', () => {
+    when('[t0] cast auto', () => {
+      then('it maps to auto', () => {
+        const choice = castIntoAnthropicToolChoice({
+          choice: { tool: 'auto' },
+          tools,
+          thinking: null,
+        });
+        expect(choice).toEqual({ type: 'auto' });
+      });
+    });
+
+    when('[t1] cast any, without parallel tool use', () => {
+      then('it maps to any, with parallel tool use disabled', () => {
+        const choice = castIntoAnthropicToolChoice({
+          choice: { tool: 'any', parallel: false },
+          tools,
+          thinking: null,
+        });
+        expect(choice).toEqual({
+          type: 'any',
+          disable_parallel_tool_use: true,
+        });
+      });
+    });
+
+    when('[t2] cast a forced tool', () => {
+      then('it maps to the tool by slug', () => {
+        const choice = castIntoAnthropicToolChoice({
+          choice: { tool: { slug: 'test_weather' } },
+          tools,
+          thinking: null,
+        });
+        expect(choice).toEqual({ type: 'tool', name: 'test_weather' });
+      });
+    });
+
+    when('[t3] cast none', () => {
+      then('it maps to none', () => {
+        const choice = castIntoAnthropicToolChoice({
+          choice: { tool: 'none' },
+          tools,
+          thinking: null,
+        });
+        expect(choice).toEqual({ type: 'none' });
+      });
+    });
+
+    when('[t4] cast auto with thinking', () => {
+      then('it maps to auto', () => {
+        const choice = castIntoAnthropicToolChoice({
+          choice: { tool: 'auto', parallel: true },
+          tools,
+          thinking: { budget: { tokens: 2000 } },
+        });
+        expect(choice).toEqual({ type: 'auto' });
+      });
+    });
+  });
+
+  given('[case2] an invalid choice', () => {
+    when('[t0] no tools are plugged', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          castIntoAnthropicToolChoice({
+            choice: { tool: 'any' },
+            tools: [],
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('requires plugs.tools');
+      });
+    });
+
+    when('[t1] the forced tool is not plugged', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          castIntoAnthropicToolChoice({
+            choice: { tool: { slug: 'test_search' } },
+            tools,
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('not in plugs.tools');
+      });
+    });
+
+    when('[t2] a tool is forced with thinking', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          castIntoAnthropicToolChoice({
+            choice: { tool: 'any' },
+            tools,
+            thinking: { budget: { tokens: 2000 } },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('auto or none');
+      });
+    });
+
+    when('[t3] none sets parallel', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          castIntoAnthropicToolChoice({
+            choice: { tool: 'none', parallel: false },
+            tools,
+            thinking: null,
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('can not set parallel');
+      });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError } from 'helpful-errors';
+
+/**
+ * .what = controls which tools the brain may call on one ask
+ * .why = enables deterministic workflows to drive the model step by step
+ *
+ * .note
+ *   - tool = 'auto' lets the brain decide; 'any' requires some tool; 'none' forbids tools; { slug } forces that tool
+ *   - parallel = whether the brain may call several tools at once; defaults to true
+ */
+export type BrainAtomToolChoice = {
+  tool: 'auto' | 'any' | 'none' | { slug: string };
+  parallel?: boolean;
+};
+
+/**
+ * .what = cast a tool choice into anthropic's tool_choice param, with validation against the plugged tools
+ * .why = fail-fast on a choice the api would reject, or which names a tool that was never plugged in
+ */
+export const castIntoAnthropicToolChoice = (input: {
+  choice: BrainAtomToolChoice;
+  tools: { slug: string }[];
+  thinking: { budget: { tokens: number } } | null;
+}): Anthropic.Beta.Messages.BetaToolChoice => {
+  const { choice } = input;
+  const slugs = input.tools.map((tool) => tool.slug);
+
+  // fail-fast: a choice only applies to plugged tools
+  if (!slugs.length)
+    throw new BadRequestError('tool choice requires plugs.tools', { choice });
+  if (typeof choice.tool === 'object' && !slugs.includes(choice.tool.slug))
+    throw new BadRequestError(
+      'tool choice names a tool which is not in plugs.tools',
+      { choice, slugs },
+    );
+
+  // fail-fast: extended thinking only supports auto and none, per the api
+  if (
+    input.thinking &&
+    (choice.tool === 'any' || typeof choice.tool === 'object')
+  )
+    throw new BadRequestError(
+      'extended thinking only supports tool choice of auto or none. drop the thinking budget to force a tool.',
+      { choice },
+    );
+
+  // fail-fast: parallel tool use is moot when tools are forbidden
+  if (choice.tool === 'none' && choice.parallel !== undefined)
+    throw new BadRequestError(
+      'tool choice of none can not set parallel, since no tools are called',
+      { choice },
+    );
+
+  const parallel =
+    choice.parallel === false ? { disable_parallel_tool_use: true } : {};
+  if (choice.tool === 'none') return { type: 'none' };
+  if (choice.tool === 'auto') return { type: 'auto', ...parallel };
+  if (choice.tool === 'any') return { type: 'any', ...parallel };
+  return { type: 'tool', name: choice.tool.slug, ...parallel };
+};
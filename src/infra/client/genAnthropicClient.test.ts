@@ -0,0 +1,187 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { BadRequestError } from 'helpful-errors';
+import { getError, given, then, when } from 'test-fns';
+
+import { genStandInServer } from '../../.test/genStandInServer';
+import {
+  genAnthropicClient,
+  genAnthropicClientGetter,
+} from './genAnthropicClient';
+
+const respond = () => ({
+  id: 'msg_standin',
+  type: 'message',
+  role: 'assistant',
+  model: 'stand-in',
+  content: [{ type: 'text', text: 'hello' }],
+  stop_reason: 'end_turn',
+  stop_sequence: null,
+  usage: { input_tokens: 3, output_tokens: 1 },
+});
+
+describe('genAnthropicClient', () => {
+  given('[case1] options for a local stand-in server', () => {
+    when('[t0] constructed', () => {
+      then('it applies each option', () => {
+        const client = genAnthropicClient({
+          options: {
+            apiKey: 'sk-test',
+            baseURL: 'http://localhost:4010',
+            timeout: { milliseconds: 5_000 },
+          },
+        });
+        expect(client.apiKey).toEqual('sk-test');
+        expect(client.baseURL).toEqual('http://localhost:4010');
+        expect(client.timeout).toEqual(5_000);
+      });
+
+      then('it disables sdk retries', () => {
+        const client = genAnthropicClient({ options: { apiKey: 'sk-test' } });
+        expect(client.maxRetries).toEqual(0);
+      });
+    });
+  });
+
+  given('[case2] the bedrock backend, against a local stand-in server', () => {
+    let standIn: Awaited<ReturnType<typeof genStandInServer>>;
+    beforeAll(async () => {
+      standIn = await genStandInServer({ respond });
+    });
+    afterAll(() => standIn.server.close());
+
+    when('[t0] a message is created', () => {
+      then('it invokes the model via the bedrock path', async () => {
+        const client = genAnthropicClient({
+          options: { baseURL: standIn.baseURL },
+          backend: { provider: 'bedrock', region: 'us-east-1', skipAuth: true },
+        });
+        const message = await client.beta.messages.create({
+          model: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0',
+          max_tokens: 16,
+          messages: [{ role: 'user', content: 'hi' }],
+        });
+        expect(message.id).toEqual('msg_standin');
+        const request = standIn.requests.at(-1)!;
+        expect(request.url).toEqual(
+          '/model/global.anthropic.claude-sonnet-4-5-20250929-v1:0/invoke',
+        );
+        expect(request.body.anthropic_version).toEqual('bedrock-2023-05-31');
+        expect(request.body.model).toBeUndefined();
+      });
+    });
+
+    when('[t1] constructed with an api key', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          genAnthropicClient({
+            options: { apiKey: 'sk-test' },
+            backend: { provider: 'bedrock' },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+      });
+    });
+  });
+
+  given('[case3] the vertex backend, against a local stand-in server', () => {
+    let standIn: Awaited<ReturnType<typeof genStandInServer>>;
+    beforeAll(async () => {
+      standIn = await genStandInServer({ respond });
+    });
+    afterAll(() => standIn.server.close());
+
+    when('[t0] a message is created', () => {
+      then('it invokes the model via the vertex path', async () => {
+        const client = genAnthropicClient({
+          options: { baseURL: standIn.baseURL },
+          backend: {
+            provider: 'vertex',
+            region: 'global',
+            projectId: 'demo',
+            accessToken: 'ya29.test',
+          },
+        });
+        const message = await client.beta.messages.create({
+          model: 'claude-sonnet-4-5@20250929',
+          max_tokens: 16,
+          messages: [{ role: 'user', content: 'hi' }],
+        });
+        expect(message.id).toEqual('msg_standin');
+        const request = standIn.requests.at(-1)!;
+        expect(request.url).toEqual(
+          '/projects/demo/locations/global/publishers/anthropic/models/claude-sonnet-4-5@20250929:rawPredict',
+        );
+        expect(request.headers.authorization).toEqual('Bearer ya29.test');
+        expect(request.body.anthropic_version).toEqual('vertex-2023-10-16');
+      });
+    });
+  });
+});
+
+describe('genAnthropicClientGetter', () => {
+  given('[case1] an atom with client options', () => {
+    const getAnthropic = genAnthropicClientGetter({
+      client: { apiKey: 'sk-atom', baseURL: 'http://localhost:4010' },
+    });
+
+    when('[t0] called without context, twice', () => {
+      then('it reuses one client', () => {
+        expect(getAnthropic()).toBe(getAnthropic());
+        expect(getAnthropic().apiKey).toEqual('sk-atom');
+      });
+    });
+
+    when('[t1] called with client options', () => {
+      then('it merges them over the atom options, key by key', () => {
+        const client = getAnthropic({ client: { apiKey: 'sk-customer' } });
+        expect(client).not.toBe(getAnthropic());
+        expect(client.apiKey).toEqual('sk-customer');
+        expect(client.baseURL).toEqual('http://localhost:4010');
+      });
+    });
+
+    when('[t2] called with an injected client', () => {
+      then('it returns the injected client', () => {
+        const anthropic = new Anthropic({ apiKey: 'sk-injected' });
+        expect(getAnthropic({ anthropic })).toBe(anthropic);
+      });
+    });
+
+    when('[t3] called with both an injected client and client options', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          getAnthropic({
+            anthropic: new Anthropic({ apiKey: 'sk-injected' }),
+            client: { apiKey: 'sk-customer' },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+        expect(error.message).toContain('not both');
+      });
+    });
+  });
+
+  given('[case2] an atom with an injected client', () => {
+    when('[t0] called without context', () => {
+      then('it returns the injected client', () => {
+        const anthropic = new Anthropic({ apiKey: 'sk-injected' });
+        const getAnthropic = genAnthropicClientGetter({ anthropic });
+        expect(getAnthropic()).toBe(anthropic);
+      });
+    });
+  });
+
+  given('[case3] an atom with both a client and client options', () => {
+    when('[t0] declared', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          genAnthropicClientGetter({
+            anthropic: new Anthropic({ apiKey: 'sk-injected' }),
+            client: { apiKey: 'sk-atom' },
+          }),
+        );
+        expect(error).toBeInstanceOf(BadRequestError);
+      });
+    });
+  });
+});
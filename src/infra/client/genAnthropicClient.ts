@@ -0,0 +1,193 @@
+import { AnthropicBedrock } from '@anthropic-ai/bedrock-sdk';
+import Anthropic, { type ClientOptions } from '@anthropic-ai/sdk';
+import { AnthropicVertex } from '@anthropic-ai/vertex-sdk';
+import { OAuth2Client } from 'google-auth-library';
+import { BadRequestError } from 'helpful-errors';
+
+/**
+ * .what = options to construct an anthropic client from
+ * .why = multi-tenant services route calls per customer, and tests point calls at a local stand-in server
+ *
+ * .note
+ *   - apiKey = defaults to process.env.ANTHROPIC_API_KEY
+ *   - baseURL = defaults to process.env.ANTHROPIC_BASE_URL, else the public api
+ *   - headers = sent on every request, beside the sdk's own
+ *   - timeout = per request; defaults to the sdk's own
+ *   - fetchOptions = passed to every fetch; e.g., `{ dispatcher: new ProxyAgent(url) }` to route via a proxy
+ *   - fetch = replaces the fetch of the sdk; e.g., a cassette's, to record or replay calls
+ */
+export type AnthropicClientOptions = {
+  apiKey?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  timeout?: { milliseconds: number };
+  fetchOptions?: ClientOptions['fetchOptions'];
+  fetch?: ClientOptions['fetch'];
+};
+
+/**
+ * .what = the backend which serves the anthropic models
+ * .why = some deployments must go through bedrock or vertex, rather than the anthropic api
+ *
+ * .note
+ *   - bedrock.region = the aws region of the endpoint; defaults to process.env.AWS_REGION, else us-east-1
+ *   - bedrock.profile = the inference profile the model id is prefixed with; null for the in-region model id
+ *   - bedrock.credentials = defaults to the aws credential provider chain
+ *   - bedrock.skipAuth = skips request signature; e.g., behind a proxy which signs, or against a local stand-in server
+ *   - vertex.region = the gcp region of the endpoint, or 'global'
+ *   - vertex.projectId = defaults to process.env.ANTHROPIC_VERTEX_PROJECT_ID
+ *   - vertex.accessToken = defaults to google application default credentials
+ *   - client options other than apiKey apply to every backend
+ */
+export type AnthropicBackend =
+  | { provider: 'anthropic' }
+  | {
+      provider: 'bedrock';
+      region?: string;
+      profile?: AnthropicBedrockProfile | null;
+      credentials?: {
+        accessKey: string;
+        secretKey: string;
+        sessionToken?: string;
+      };
+      skipAuth?: boolean;
+    }
+  | {
+      provider: 'vertex';
+      region?: string;
+      projectId?: string;
+      accessToken?: string;
+    };
+
+/**
+ * .what = the cross-region inference profiles of bedrock
+ * .why = global routes to any region, while geographic ones keep requests within their geography
+ */
+export type AnthropicBedrockProfile = 'global' | 'us' | 'eu' | 'apac';
+
+/**
+ * .what = an anthropic client of any backend
+ * .why = bedrock and vertex clients share the messages api, less the parts their backends lack (e.g., batches)
+ */
+export type AnthropicClient = Anthropic | AnthropicBedrock | AnthropicVertex;
+
+/**
+ * .what = where the anthropic client of a call comes from
+ * .why = a call may inject a client, or declare the options to construct one from
+ *
+ * .note = anthropic and client are exclusive; pass one or the other
+ */
+export type AnthropicClientSource = {
+  anthropic?: AnthropicClient;
+  client?: AnthropicClientOptions;
+};
+
+/**
+ * .what = constructs an anthropic client from options
+ * .why = one place to translate our options into the sdk's
+ *
+ * .note = sdk retries are disabled, since our retry policy governs them
+ * .note = the backend defaults to the anthropic api
+ */
+export const genAnthropicClient = (input: {
+  options: AnthropicClientOptions;
+  backend?: AnthropicBackend;
+}): AnthropicClient => {
+  const options = {
+    maxRetries: 0,
+    ...(input.options.baseURL && { baseURL: input.options.baseURL }),
+    ...(input.options.headers && { defaultHeaders: input.options.headers }),
+    ...(input.options.timeout && {
+      timeout: input.options.timeout.milliseconds,
+    }),
+    ...(input.options.fetchOptions && {
+      fetchOptions: input.options.fetchOptions,
+    }),
+    ...(input.options.fetch && { fetch: input.options.fetch }),
+  };
+  const backend = input.backend ?? { provider: 'anthropic' };
+
+  // fail-fast: an api key only authenticates against the anthropic api
+  if (backend.provider !== 'anthropic' && input.options.apiKey)
+    throw new BadRequestError(
+      'an apiKey can not authenticate against the bedrock or vertex backends; use their own credentials instead',
+      { provider: backend.provider },
+    );
+
+  if (backend.provider === 'bedrock')
+    return new AnthropicBedrock({
+      ...options,
+      ...(backend.region && { awsRegion: backend.region }),
+      ...(backend.credentials && {
+        awsAccessKey: backend.credentials.accessKey,
+        awsSecretKey: backend.credentials.secretKey,
+        awsSessionToken: backend.credentials.sessionToken,
+      }),
+      ...(backend.skipAuth && { skipAuth: true }),
+    });
+  // note: the vertex sdk authenticates via its auth client alone, so an access token is wrapped in one
+  if (backend.provider === 'vertex') {
+    const authClient = backend.accessToken ? new OAuth2Client() : null;
+    authClient?.setCredentials({ access_token: backend.accessToken });
+    return new AnthropicVertex({
+      ...options,
+      ...(backend.region && { region: backend.region }),
+      ...(backend.projectId && { projectId: backend.projectId }),
+      ...(authClient && { authClient }),
+    });
+  }
+  return new Anthropic({
+    ...options,
+    apiKey: input.options.apiKey ?? process.env.ANTHROPIC_API_KEY,
+  });
+};
+
+/**
+ * .what = fails fast if a source declares both an injected client and client options
+ * .why = the options would be silently ignored in favor of the injected client
+ */
+const assertAnthropicClientSource = (input: {
+  source: AnthropicClientSource;
+}): void => {
+  if (input.source.anthropic && input.source.client)
+    throw new BadRequestError(
+      'pass either an anthropic client or client options, not both',
+      { client: Object.keys(input.source.client) },
+    );
+};
+
+/**
+ * .what = generates a getter of the anthropic client for each call of an atom
+ * .why = reuses one client per atom instance, while each call may still inject or declare its own
+ *
+ * .note
+ *   - precedence = the call's client, then the call's options over the atom's, then the atom's client, then the atom's options
+ *   - the atom's default client is constructed on first use, so that an atom may be declared before its api key is set
+ *   - a call which declares options gets a client of its own, since those options may route it elsewhere
+ *   - the backend is the atom's, since the model id of each request depends on it
+ */
+export const genAnthropicClientGetter = (
+  input: AnthropicClientSource & { backend?: AnthropicBackend },
+) => {
+  // fail-fast: the atom must declare one source, at most
+  assertAnthropicClientSource({ source: input });
+
+  let clientDefault: AnthropicClient | null = null;
+  return (context?: AnthropicClientSource): AnthropicClient => {
+    // fail-fast: the call must declare one source, at most
+    if (context) assertAnthropicClientSource({ source: context });
+
+    if (context?.anthropic) return context.anthropic;
+    if (context?.client)
+      return genAnthropicClient({
+        options: { ...input.client, ...context.client },
+        backend: input.backend,
+      });
+    if (input.anthropic) return input.anthropic;
+    clientDefault ??= genAnthropicClient({
+      options: input.client ?? {},
+      backend: input.backend,
+    });
+    return clientDefault;
+  };
+};
@@ -0,0 +1,38 @@
+import { getError, given, then, when } from 'test-fns';
+
+import { asPriceAmount } from './asPriceAmount';
+
+describe('asPriceAmount', () => {
+  given('[case1] a human price', () => {
+    when('[t0] the price is in dollars', () => {
+      then('it returns the amount', () => {
+        expect(asPriceAmount({ price: '$0.25' })).toEqual(0.25);
+      });
+    });
+
+    when('[t1] the price has thousands separators', () => {
+      then('it returns the amount', () => {
+        expect(asPriceAmount({ price: '$1,250.50' })).toEqual(1250.5);
+      });
+    });
+  });
+
+  given('[case2] an iso price', () => {
+    when('[t0] the price has a currency code', () => {
+      then('it returns the amount', () => {
+        expect(asPriceAmount({ price: 'USD 0.000003' })).toEqual(0.000003);
+      });
+    });
+  });
+
+  given('[case3] a price without an amount', () => {
+    when('[t0] the amount is parsed', () => {
+      then('it throws', async () => {
+        const error = await getError(async () =>
+          asPriceAmount({ price: 'USD' }),
+        );
+        expect(error.message).toContain('price has no numeric amount');
+      });
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { BadRequestError } from 'helpful-errors';
+import type { IsoPrice } from 'iso-price';
+
+/**
+ * .what = extracts the numeric amount of a price, in its major unit
+ * .why = enables comparison of a spent price against a budget
+ *
+ * .note = accepts both human ('$0.25') and iso ('USD 0.25') price words; every anthropic price is in usd
+ */
+export const asPriceAmount = (input: { price: IsoPrice }): number => {
+  const words = String(input.price).replace(/,/g, '');
+  const match = words.match(/-?\d+(\.\d+)?(e-?\d+)?/i);
+  if (!match)
+    throw new BadRequestError('price has no numeric amount', {
+      price: input.price,
+    });
+  return Number(match[0]);
+};
@@ -0,0 +1,184 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { given, then, when } from 'test-fns';
+
+import {
+  BrainRateLimitedError,
+  BrainReplExecutionError,
+  BrainReplMaxTurnsError,
+  BrainTimeoutError,
+} from '../../domain.objects/BrainError';
+import { getRetryHint } from './getRetryHint';
+
+/**
+ * .what = generates an anthropic api error with a given status and headers
+ * .why = mirrors what the sdk throws on a failed response
+ */
+const genApiError = (input: {
+  status: number;
+  headers?: Record<string, string>;
+}) =>
+  Anthropic.APIError.generate(
+    input.status,
+    { type: 'error', error: { type: 'api_error', message: 'failed' } },
+    undefined,
+    new Headers(input.headers),
+  );
+
+describe('getRetryHint', () => {
+  given('[case1] an overloaded error', () => {
+    when('[t0] hinted', () => {
+      then('it is transient, with no server hint', () => {
+        expect(getRetryHint({ error: genApiError({ status: 529 }) })).toEqual({
+          after: null,
+        });
+      });
+    });
+  });
+
+  given('[case2] a rate limit error with retry-after', () => {
+    when('[t0] hinted', () => {
+      then('it honors the retry-after seconds', () => {
+        const error = genApiError({
+          status: 429,
+          headers: { 'retry-after': '7' },
+        });
+        expect(getRetryHint({ error })).toEqual({
+          after: { milliseconds: 7000 },
+        });
+      });
+    });
+  });
+
+  given('[case3] a bad request error', () => {
+    when('[t0] hinted', () => {
+      then('it is not transient', () => {
+        expect(
+          getRetryHint({ error: genApiError({ status: 400 }) }),
+        ).toBeNull();
+      });
+    });
+  });
+
+  given('[case4] a connection error', () => {
+    when('[t0] hinted', () => {
+      then('it is transient', () => {
+        const error = new Anthropic.APIConnectionError({ message: 'reset' });
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+  });
+
+  given('[case5] a repl error message', () => {
+    when('[t0] the message mentions an overload', () => {
+      then('it is not transient, since free text is no reliable signal', () => {
+        const error = new Error(
+          'claude-agent-sdk query failed: error_during_execution, errors: API Error: 529 overloaded',
+        );
+        expect(getRetryHint({ error })).toBeNull();
+      });
+    });
+
+    when('[t1] the message mentions max turns', () => {
+      then('it is not transient', () => {
+        const error = new Error(
+          'claude-agent-sdk query failed: error_max_turns, errors: unknown',
+        );
+        expect(getRetryHint({ error })).toBeNull();
+      });
+    });
+  });
+
+  given('[case6] a brain error', () => {
+    const brain = { slug: 'claude/code', model: 'claude-sonnet-4-5' };
+
+    when('[t0] the repl was rate limited', () => {
+      then('it is transient', () => {
+        const error = new BrainRateLimitedError('rate limited', brain);
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+
+    when('[t1] the repl hit its max turns', () => {
+      then('it is not transient', () => {
+        const error = new BrainReplMaxTurnsError('max turns', brain);
+        expect(getRetryHint({ error })).toBeNull();
+      });
+    });
+
+    when(
+      '[t2] the repl failed during execution, with an overload in its text',
+      () => {
+        then(
+          'it is not transient, since free text is no reliable signal',
+          () => {
+            const error = new BrainReplExecutionError(
+              'claude-agent-sdk query failed: error_during_execution, errors: API Error: 529 overloaded',
+              brain,
+            );
+            expect(getRetryHint({ error })).toBeNull();
+          },
+        );
+      },
+    );
+
+    when('[t3] the atom timed out', () => {
+      then('it is transient', () => {
+        const error = new BrainTimeoutError('timed out', brain);
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+  });
+
+  given('[case7] an error within a stream, which has no status', () => {
+    // mirrors what the sdk throws on an sse error event
+    const genStreamError = (input: { type: string }) =>
+      new Anthropic.APIError(
+        undefined,
+        { type: 'error', error: { type: input.type, message: 'failed' } },
+        undefined,
+        new Headers(),
+      );
+
+    when('[t0] the stream was overloaded', () => {
+      then('it is transient', () => {
+        const error = genStreamError({ type: 'overloaded_error' });
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+
+    when('[t1] the stream was rate limited', () => {
+      then('it is transient', () => {
+        const error = genStreamError({ type: 'rate_limit_error' });
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+
+    when('[t2] the stream failed on an invalid request', () => {
+      then('it is not transient', () => {
+        const error = genStreamError({ type: 'invalid_request_error' });
+        expect(getRetryHint({ error })).toBeNull();
+      });
+    });
+  });
+
+  given('[case8] a system error, e.g., of a repl query', () => {
+    const genSystemError = (input: { code: string }) =>
+      Object.assign(new Error(`spawn claude ${input.code}`), {
+        code: input.code,
+      });
+
+    when('[t0] the connection was reset', () => {
+      then('it is transient', () => {
+        const error = genSystemError({ code: 'ECONNRESET' });
+        expect(getRetryHint({ error })).toEqual({ after: null });
+      });
+    });
+
+    when('[t1] the process could not be spawned', () => {
+      then('it is not transient', () => {
+        const error = genSystemError({ code: 'ENOENT' });
+        expect(getRetryHint({ error })).toBeNull();
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+import { BrainError } from '../../domain.objects/BrainError';
+import { getAnthropicErrorType } from '../cast/castFromAnthropicError';
+import type { BrainRetryHint } from './invokeWithRetry';
+
+/**
+ * .what = http statuses which signal a transient failure
+ * .why = 408 timeout, 409 lock, 429 rate limit, 5xx server errors, and 529 overloaded may succeed on retry
+ */
+const STATUSES_RETRYABLE = [408, 409, 429, 500, 502, 503, 504, 529];
+
+/**
+ * .what = api error types which signal a transient failure
+ * .why = an error within a stream has no status, so only its type tells an overload or rate limit apart
+ */
+const TYPES_RETRYABLE = ['overloaded_error', 'rate_limit_error'];
+
+/**
+ * .what = system error codes which signal a transient failure
+ * .why = a repl's subprocess may fail on its network (e.g., a reset or refused connection), which may succeed on retry
+ *
+ * .note = a spawn failure (e.g., ENOENT) is not transient, since the binary will still be absent on retry
+ */
+const CODES_RETRYABLE = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+/**
+ * .what = reads the server's requested wait from response headers
+ * .why = honors retry-after-ms and retry-after (seconds or http date)
+ */
+const getRetryAfter = (
+  headers: Headers | undefined,
+): { milliseconds: number } | null => {
+  const afterMs = parseFloat(headers?.get('retry-after-ms') ?? '');
+  if (!Number.isNaN(afterMs)) return { milliseconds: afterMs };
+  const after = headers?.get('retry-after');
+  if (!after) return null;
+  const afterSeconds = parseFloat(after);
+  if (!Number.isNaN(afterSeconds)) return { milliseconds: afterSeconds * 1000 };
+  const afterDate = Date.parse(after);
+  if (!Number.isNaN(afterDate))
+    return { milliseconds: Math.max(0, afterDate - Date.now()) };
+  return null;
+};
+
+/**
+ * .what = decides whether an error from an atom or repl call is transient
+ * .why = only rate limits, overloads, timeouts, and server errors are worth a retry
+ */
+export const getRetryHint = (input: { error: unknown }): BrainRetryHint => {
+  // connection failures and timeouts are transient, with no server hint
+  if (input.error instanceof Anthropic.APIConnectionError)
+    return { after: null };
+
+  // api errors are transient per status, else per type (e.g., an overload within a stream, which has no status)
+  if (input.error instanceof Anthropic.APIError) {
+    const transient =
+      input.error.status !== undefined
+        ? STATUSES_RETRYABLE.includes(input.error.status)
+        : TYPES_RETRYABLE.includes(getAnthropicErrorType(input.error) ?? '');
+    return transient ? { after: getRetryAfter(input.error.headers) } : null;
+  }
+
+  // system errors are transient per code (e.g., a repl query which lost its connection)
+  const code = (input.error as { code?: unknown } | null)?.code;
+  if (
+    input.error instanceof Error &&
+    typeof code === 'string' &&
+    CODES_RETRYABLE.includes(code)
+  )
+    return { after: null };
+
+  // brain errors are transient per kind
+  // note: errors of free text (e.g., a repl's execution errors) are never transient, since their text is no reliable signal
+  if (
+    input.error instanceof BrainError &&
+    (input.error.kind === 'rate-limited' ||
+      input.error.kind === 'overloaded' ||
+      input.error.kind === 'timeout')
+  )
+    return { after: null };
+
+  return null;
+};
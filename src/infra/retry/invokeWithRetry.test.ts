@@ -0,0 +1,143 @@
+import { getError, given, then, when } from 'test-fns';
+
+import {
+  type BrainRetryEvent,
+  type BrainRetryPolicy,
+  invokeWithRetry,
+} from './invokeWithRetry';
+
+const policy: BrainRetryPolicy = {
+  attempts: 3,
+  backoff: { base: { milliseconds: 1 }, cap: { milliseconds: 5 } },
+  deadline: { milliseconds: 1_000 },
+};
+
+/**
+ * .what = generates an operation which fails a given number of times, then succeeds
+ * .why = simulates a transient failure
+ */
+const genFlaky = (input: { failures: number }) => {
+  let calls = 0;
+  return {
+    invoke: async () => {
+      calls++;
+      if (calls <= input.failures) throw new Error(`overloaded #${calls}`);
+      return 'ok';
+    },
+    getCalls: () => calls,
+  };
+};
+
+describe('invokeWithRetry', () => {
+  given('[case1] an operation which succeeds at first', () => {
+    when('[t0] invoked', () => {
+      then('it returns the result with zero retries', async () => {
+        const flaky = genFlaky({ failures: 0 });
+        const { result, retries } = await invokeWithRetry({
+          policy,
+          getHint: () => ({ after: null }),
+          invoke: flaky.invoke,
+        });
+        expect(result).toEqual('ok');
+        expect(retries).toEqual({ count: 0, waited: { milliseconds: 0 } });
+      });
+    });
+  });
+
+  given('[case2] an operation which fails transiently twice', () => {
+    when('[t0] invoked with 3 attempts', () => {
+      then('it succeeds on the third attempt', async () => {
+        const flaky = genFlaky({ failures: 2 });
+        const { result, retries } = await invokeWithRetry({
+          policy,
+          getHint: () => ({ after: null }),
+          invoke: flaky.invoke,
+        });
+        expect(result).toEqual('ok');
+        expect(retries.count).toEqual(2);
+        expect(flaky.getCalls()).toEqual(3);
+      });
+    });
+
+    when('[t1] the server asks for a longer wait', () => {
+      then('it waits at least as long as asked', async () => {
+        const flaky = genFlaky({ failures: 1 });
+        const { retries } = await invokeWithRetry({
+          policy,
+          getHint: () => ({ after: { milliseconds: 20 } }),
+          invoke: flaky.invoke,
+        });
+        expect(retries.waited.milliseconds).toBeGreaterThanOrEqual(20);
+      });
+    });
+  });
+
+  given('[case3] an operation which fails more than the attempts allow', () => {
+    when('[t0] invoked', () => {
+      then('it rethrows the last error', async () => {
+        const flaky = genFlaky({ failures: 5 });
+        const error = await getError(
+          invokeWithRetry({
+            policy,
+            getHint: () => ({ after: null }),
+            invoke: flaky.invoke,
+          }),
+        );
+        expect(error.message).toEqual('overloaded #3');
+        expect(flaky.getCalls()).toEqual(3);
+      });
+    });
+  });
+
+  given('[case4] an error which is not transient', () => {
+    when('[t0] invoked', () => {
+      then('it rethrows without a retry', async () => {
+        const flaky = genFlaky({ failures: 1 });
+        const error = await getError(
+          invokeWithRetry({
+            policy,
+            getHint: () => null,
+            invoke: flaky.invoke,
+          }),
+        );
+        expect(error.message).toEqual('overloaded #1');
+        expect(flaky.getCalls()).toEqual(1);
+      });
+    });
+  });
+
+  given('[case5] a wait which would exceed the deadline', () => {
+    when('[t0] invoked', () => {
+      then('it rethrows instead of a wait', async () => {
+        const flaky = genFlaky({ failures: 1 });
+        const error = await getError(
+          invokeWithRetry({
+            policy: { ...policy, deadline: { milliseconds: 10 } },
+            getHint: () => ({ after: { milliseconds: 60_000 } }),
+            invoke: flaky.invoke,
+          }),
+        );
+        expect(error.message).toEqual('overloaded #1');
+        expect(flaky.getCalls()).toEqual(1);
+      });
+    });
+  });
+
+  given('[case6] an observer of retries', () => {
+    when('[t0] invoked on an operation which fails transiently twice', () => {
+      then('it tells the observer of each retry, before its wait', async () => {
+        const flaky = genFlaky({ failures: 2 });
+        const events: BrainRetryEvent[] = [];
+        await invokeWithRetry({
+          policy,
+          getHint: () => ({ after: { milliseconds: 2 } }),
+          invoke: flaky.invoke,
+          on: { retry: (event) => events.push(event) },
+        });
+        expect(events.map((event) => event.attempt)).toEqual([1, 2]);
+        expect((events[0]!.error as Error).message).toEqual('overloaded #1');
+        expect(events[0]!.delay.milliseconds).toBeGreaterThanOrEqual(2);
+      });
+    });
+  });
+});
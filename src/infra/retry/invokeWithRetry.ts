@@ -0,0 +1,108 @@
+/**
+ * .what = policy for retries of transient failures
+ * .why = lets batch pipelines ride out rate limits and overloads instead of dying mid-run
+ *
+ * .note
+ *   - attempts = max attempts, the first included
+ *   - backoff = exponential backoff from base, capped at cap, with full jitter
+ *   - deadline = max total time across all attempts and waits
+ */
+export type BrainRetryPolicy = {
+  attempts: number;
+  backoff: { base: { milliseconds: number }; cap: { milliseconds: number } };
+  deadline: { milliseconds: number };
+};
+
+/**
+ * .what = the default retry policy
+ * .why = rides out a typical overload burst without stalls that exceed a couple minutes
+ */
+export const RETRY_POLICY_DEFAULT: BrainRetryPolicy = {
+  attempts: 4,
+  backoff: { base: { milliseconds: 1_000 }, cap: { milliseconds: 30_000 } },
+  deadline: { milliseconds: 120_000 },
+};
+
+/**
+ * .what = the retries that were needed for a call to succeed
+ * .why = surfaced in output metrics, so callers can see how much of the time was spent on waits
+ */
+export type BrainRetryMetrics = {
+  count: number;
+  waited: { milliseconds: number };
+};
+
+/**
+ * .what = a hint on whether and when an error may be retried
+ * .why = null means the error is not transient; after is the server's requested wait, if any
+ */
+export type BrainRetryHint = { after: { milliseconds: number } | null } | null;
+
+/**
+ * .what = a retry about to be waited for
+ * .why = lets callers observe retries as they happen; e.g., to record them on a trace
+ */
+export type BrainRetryEvent = {
+  attempt: number;
+  error: unknown;
+  delay: { milliseconds: number };
+};
+
+/**
+ * .what = computes the backoff delay for a given retry, with full jitter
+ * .why = spreads retries from parallel callers so they don't stampede the api in sync
+ */
+const getBackoffDelay = (input: {
+  policy: BrainRetryPolicy;
+  retry: number;
+}): number => {
+  const ceiling = Math.min(
+    input.policy.backoff.cap.milliseconds,
+    input.policy.backoff.base.milliseconds * 2 ** input.retry,
+  );
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * .what = invokes an operation, with retries on transient errors per the policy
+ * .why = dedupes retry logic between atoms and repls
+ *
+ * .note = the server's retry-after hint wins over backoff when it asks for a longer wait
+ * .note = on.retry is told of each retry before its wait, with the attempt which failed
+ */
+export const invokeWithRetry = async <T>(input: {
+  policy: BrainRetryPolicy;
+  getHint: (input: { error: unknown }) => BrainRetryHint;
+  invoke: () => Promise<T>;
+  on?: { retry?: (event: BrainRetryEvent) => void };
+}): Promise<{ result: T; retries: BrainRetryMetrics }> => {
+  const startTime = Date.now();
+  let waited = 0;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await input.invoke();
+      return {
+        result,
+        retries: { count: attempt - 1, waited: { milliseconds: waited } },
+      };
+    } catch (error) {
+      // rethrow if not transient or out of attempts
+      const hint = input.getHint({ error });
+      if (!hint) throw error;
+      if (attempt >= input.policy.attempts) throw error;
+
+      // rethrow if the wait would exceed the deadline
+      const delay = Math.max(
+        hint.after?.milliseconds ?? 0,
+        getBackoffDelay({ policy: input.policy, retry: attempt - 1 }),
+      );
+      const elapsed = Date.now() - startTime;
+      if (elapsed + delay > input.policy.deadline.milliseconds) throw error;
+
+      // wait, then try again
+      input.on?.retry?.({ attempt, error, delay: { milliseconds: delay } });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      waited += delay;
+    }
+  }
+};
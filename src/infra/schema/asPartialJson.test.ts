@@ -0,0 +1,45 @@
+import { given, then, when } from 'test-fns';
+
+import { asPartialJson } from './asPartialJson';
+
+describe('asPartialJson', () => {
+  given('[case1] a snapshot with an unterminated string', () => {
+    when('[t0] parsed', () => {
+      then('it keeps the partial string', () => {
+        expect(asPartialJson({ snapshot: '{"content": "hello wor' })).toEqual({
+          content: 'hello wor',
+        });
+      });
+    });
+  });
+
+  given('[case2] a snapshot with a partial key', () => {
+    when('[t0] parsed', () => {
+      then('it returns the object so far', () => {
+        expect(asPartialJson({ snapshot: '{"title": "hi", "cont' })).toEqual({
+          title: 'hi',
+        });
+      });
+    });
+  });
+
+  given('[case3] a snapshot with a partial number', () => {
+    when('[t0] parsed', () => {
+      then('it omits the number, until it is complete', () => {
+        expect(asPartialJson({ snapshot: '{"answer": 40' })).toEqual({});
+        expect(asPartialJson({ snapshot: '{"answer": 408}' })).toEqual({
+          answer: 408,
+        });
+      });
+    });
+  });
+
+  given('[case4] a snapshot without a parseable prefix', () => {
+    when('[t0] parsed', () => {
+      then('it returns undefined', () => {
+        expect(asPartialJson({ snapshot: '' })).toBeUndefined();
+        expect(asPartialJson({ snapshot: '   ' })).toBeUndefined();
+      });
+    });
+  });
+});
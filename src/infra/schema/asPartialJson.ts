@@ -0,0 +1,20 @@
+import { Allow, MalformedJSON, PartialJSON, parse } from 'partial-json';
+
+/**
+ * .what = parses a partial json snapshot, e.g., of a structured output which is still streamed in
+ * .why = emits incremental outputs before the json is complete, with the partial strings they have so far
+ *
+ * .note = numbers are only parsed once complete, since a partial number would change its value as it grows
+ * .note = returns undefined while the snapshot has no parseable prefix yet (e.g., empty, whitespace, or a partial number)
+ */
+export const asPartialJson = (input: { snapshot: string }): unknown => {
+  if (!input.snapshot.trim()) return undefined;
+  try {
+    return parse(input.snapshot, Allow.ALL & ~Allow.NUM);
+  } catch (error) {
+    // allowlist partial and malformed json: the snapshot has no parseable prefix yet
+    if (error instanceof PartialJSON || error instanceof MalformedJSON)
+      return undefined;
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { given, then, when } from 'test-fns';
+
+import { castIntoBrainSpanAttributes } from './castIntoBrainSpanAttributes';
+
+describe('castIntoBrainSpanAttributes', () => {
+  given('[case1] metrics with cache reads and writes', () => {
+    const metrics = {
+      size: {
+        tokens: { input: 100, output: 50, cache: { get: 1_000, set: 200 } },
+      },
+      cost: { cash: { total: '$0.0125' } },
+    };
+
+    when('[t0] cast', () => {
+      const attributes = castIntoBrainSpanAttributes({ metrics });
+
+      then('it counts the cached tokens into the input tokens', () => {
+        expect(attributes['gen_ai.usage.input_tokens']).toEqual(1_300);
+      });
+
+      then('it reports the cache reads and writes apart', () => {
+        expect(attributes['gen_ai.usage.cache_read.input_tokens']).toEqual(
+          1_000,
+        );
+        expect(attributes['gen_ai.usage.cache_creation.input_tokens']).toEqual(
+          200,
+        );
+      });
+
+      then('it reports the output tokens and the cash cost', () => {
+        expect(attributes['gen_ai.usage.output_tokens']).toEqual(50);
+        expect(attributes['rhachet.brain.cost.usd']).toEqual(0.0125);
+      });
+
+      then('it omits retries, since none were given', () => {
+        expect(attributes).not.toHaveProperty('rhachet.brain.retries');
+      });
+    });
+  });
+
+  given('[case2] metrics with retries', () => {
+    when('[t0] cast', () => {
+      then('it reports the count of retries', () => {
+        const attributes = castIntoBrainSpanAttributes({
+          metrics: {
+            size: {
+              tokens: { input: 10, output: 10, cache: { get: 0, set: 0 } },
+            },
+            cost: { cash: { total: 'USD 0.00018' } },
+            retries: { count: 2, waited: { milliseconds: 1_500 } },
+          },
+        });
+        expect(attributes['rhachet.brain.retries']).toEqual(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import type { Attributes } from '@opentelemetry/api';
+import type { BrainOutputMetrics } from 'rhachet';
+
+import { asPriceAmount } from '../price/asPriceAmount';
+import type { BrainRetryMetrics } from '../retry/invokeWithRetry';
+
+/**
+ * .what = casts the metrics of a brain output into span attributes, per the genai semantic conventions
+ * .why = one translation of tokens, cash, and retries, reused by atoms and repls
+ *
+ * .note = gen_ai.usage.input_tokens counts cache reads and writes too, as the conventions ask, while metrics.size.tokens.input does not
+ * .note = the cash cost has no convention yet, so it is reported as rhachet.brain.cost.usd
+ */
+export const castIntoBrainSpanAttributes = (input: {
+  metrics: {
+    size: Pick<BrainOutputMetrics['size'], 'tokens'>;
+    cost: { cash: Pick<BrainOutputMetrics['cost']['cash'], 'total'> };
+    retries?: BrainRetryMetrics;
+  };
+}): Attributes => {
+  const { tokens } = input.metrics.size;
+  return {
+    'gen_ai.usage.input_tokens':
+      tokens.input + tokens.cache.get + tokens.cache.set,
+    'gen_ai.usage.output_tokens': tokens.output,
+    'gen_ai.usage.cache_read.input_tokens': tokens.cache.get,
+    'gen_ai.usage.cache_creation.input_tokens': tokens.cache.set,
+    'rhachet.brain.cost.usd': asPriceAmount({
+      price: input.metrics.cost.cash.total,
+    }),
+    ...(input.metrics.retries && {
+      'rhachet.brain.retries': input.metrics.retries.count,
+    }),
+  };
+};
@@ -0,0 +1,115 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { getError, given, then, when } from 'test-fns';
+
+import { useTestSpanExporter } from '../../.test/useTestSpanExporter';
+import {
+  BRAIN_TRACER_NAME,
+  genBrainSpanRetryObserver,
+  invokeWithBrainSpan,
+} from './invokeWithBrainSpan';
+
+const brain = {
+  slug: 'claude/sonnet',
+  model: 'claude-sonnet-4-5-20250929',
+  provider: 'anthropic' as const,
+};
+
+describe('invokeWithBrainSpan', () => {
+  given('[case1] no tracer provider registered', () => {
+    when('[t0] invoked', () => {
+      then('it hands the call a span which records no data', async () => {
+        const recording = await invokeWithBrainSpan({
+          operation: 'chat',
+          brain,
+          invoke: async (span) => span.isRecording(),
+        });
+        expect(recording).toEqual(false);
+      });
+    });
+  });
+
+  given('[case2] a tracer provider registered', () => {
+    const spans = useTestSpanExporter();
+    beforeEach(() => spans.reset());
+
+    when('[t0] invoked on a call which succeeds', () => {
+      then('it returns the result of the call', async () => {
+        const result = await invokeWithBrainSpan({
+          operation: 'chat',
+          brain,
+          invoke: async () => 'hello',
+        });
+        expect(result).toEqual('hello');
+      });
+
+      then('it emits a client span, per the genai conventions', async () => {
+        await invokeWithBrainSpan({
+          operation: 'chat',
+          brain: { ...brain, provider: 'bedrock' },
+          attributes: { 'gen_ai.request.max_tokens': 1_024 },
+          invoke: async () => 'hello',
+        });
+        const [span] = spans.get();
+        expect(span?.name).toEqual('chat claude-sonnet-4-5-20250929');
+        expect(span?.kind).toEqual(SpanKind.CLIENT);
+        expect(span?.instrumentationScope.name).toEqual(BRAIN_TRACER_NAME);
+        expect(span?.attributes).toEqual({
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.provider.name': 'aws.bedrock',
+          'gen_ai.request.model': 'claude-sonnet-4-5-20250929',
+          'gen_ai.request.max_tokens': 1_024,
+          'rhachet.brain.slug': 'claude/sonnet',
+        });
+      });
+    });
+
+    when('[t1] invoked on a call which fails', () => {
+      then('it records the error on the span, and rethrows', async () => {
+        class BrainTestError extends Error {}
+        const error = await getError(async () =>
+          invokeWithBrainSpan({
+            operation: 'invoke_agent',
+            brain,
+            invoke: async () => {
+              throw new BrainTestError('it broke');
+            },
+          }),
+        );
+        expect(error).toBeInstanceOf(BrainTestError);
+        const [span] = spans.get();
+        expect(span?.status).toEqual({
+          code: SpanStatusCode.ERROR,
+          message: 'it broke',
+        });
+        expect(span?.attributes['error.type']).toEqual('BrainTestError');
+        expect(span?.events.map((event) => event.name)).toEqual(['exception']);
+      });
+    });
+
+    when('[t2] the call is retried', () => {
+      then('it records each retry as an event on the span', async () => {
+        await invokeWithBrainSpan({
+          operation: 'chat',
+          brain,
+          invoke: async (span) => {
+            const observe = genBrainSpanRetryObserver({ span });
+            observe({
+              attempt: 1,
+              error: new Error('overloaded'),
+              delay: { milliseconds: 250 },
+            });
+          },
+        });
+        const [span] = spans.get();
+        expect(span?.events).toHaveLength(1);
+        expect(span?.events[0]?.name).toEqual('retry');
+        expect(span?.events[0]?.attributes).toEqual({
+          'rhachet.brain.retry.attempt': 1,
+          'rhachet.brain.retry.delay_ms': 250,
+          'error.type': 'Error',
+          'exception.message': 'overloaded',
+        });
+      });
+    });
+  });
+});
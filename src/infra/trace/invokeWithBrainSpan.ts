@@ -0,0 +1,102 @@
+import {
+  type Attributes,
+  type Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+
+import type { AnthropicBackend } from '../client/genAnthropicClient';
+import type { BrainRetryEvent } from '../retry/invokeWithRetry';
+
+/**
+ * .what = the name of the tracer which every span of this package is emitted by
+ * .why = lets consumers filter or sample the spans of brain calls apart from their own
+ */
+export const BRAIN_TRACER_NAME = 'rhachet-brains-anthropic';
+
+/**
+ * .what = the gen_ai.provider.name of each backend, per the genai semantic conventions
+ */
+const GEN_AI_PROVIDER_BY_BACKEND: Record<AnthropicBackend['provider'], string> =
+  {
+    anthropic: 'anthropic',
+    bedrock: 'aws.bedrock',
+    vertex: 'gcp.vertex_ai',
+  };
+
+/**
+ * .what = the tracer of this package, from the globally registered tracer provider
+ * .why = resolved on each call, so that a provider registered after the brain was created still receives its spans
+ *
+ * .note = without a registered provider, the opentelemetry api hands out a no-op tracer, so spans cost next to nothing
+ */
+export const getBrainTracer = () => trace.getTracer(BRAIN_TRACER_NAME);
+
+/**
+ * .what = invokes a brain call within a span, per the genai semantic conventions
+ * .why = one span per ask or act, with the model, slug, and provider on it, and any error recorded on it
+ *
+ * .note
+ *   - the span is named `{operation} {model}`, e.g., `chat claude-sonnet-4-5-20250929`
+ *   - the span is active while the call runs, so spans of the calls it makes nest under it
+ *   - an error is recorded as an exception, with error.type = its class name, and the span's status set to error
+ */
+export const invokeWithBrainSpan = async <T>(input: {
+  operation: 'chat' | 'invoke_agent';
+  brain: {
+    slug: string;
+    model: string;
+    provider: AnthropicBackend['provider'];
+  };
+  attributes?: Attributes;
+  invoke: (span: Span) => Promise<T>;
+}): Promise<T> =>
+  getBrainTracer().startActiveSpan(
+    `${input.operation} ${input.brain.model}`,
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'gen_ai.operation.name': input.operation,
+        'gen_ai.provider.name':
+          GEN_AI_PROVIDER_BY_BACKEND[input.brain.provider],
+        'gen_ai.request.model': input.brain.model,
+        'rhachet.brain.slug': input.brain.slug,
+        ...input.attributes,
+      },
+    },
+    async (span) => {
+      try {
+        return await input.invoke(span);
+      } catch (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+          span.setAttribute('error.type', error.constructor.name);
+        }
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+
+/**
+ * .what = an observer of retries, which records each as an event on the span
+ * .why = retries happen within one ask or act, so they belong on its span rather than in spans of their own
+ */
+export const genBrainSpanRetryObserver =
+  (input: { span: Span }) =>
+  (event: BrainRetryEvent): void => {
+    input.span.addEvent('retry', {
+      'rhachet.brain.retry.attempt': event.attempt,
+      'rhachet.brain.retry.delay_ms': event.delay.milliseconds,
+      ...(event.error instanceof Error && {
+        'error.type': event.error.constructor.name,
+        'exception.message': event.error.message,
+      }),
+    });
+  };